@@ -0,0 +1,127 @@
+import React from 'react';
+import { Palette, X, RotateCcw } from 'lucide-react';
+import { AssStyle, DEFAULT_ASS_STYLE } from '../core/ass';
+
+interface AssStyleDialogProps {
+  style: AssStyle;
+  onChange: (style: AssStyle) => void;
+  onClose: () => void;
+}
+
+const ALIGNMENT_OPTIONS = [
+  { value: 7, label: '左上' }, { value: 8, label: '顶部居中' }, { value: 9, label: '右上' },
+  { value: 4, label: '左中' }, { value: 5, label: '正中' }, { value: 6, label: '右中' },
+  { value: 1, label: '左下' }, { value: 2, label: '底部居中' }, { value: 3, label: '右下' }
+];
+
+const inputClass = "w-full bg-slate-950 border border-slate-800 rounded-lg p-2 text-xs text-slate-300 outline-none focus:border-indigo-500";
+
+// --- ASS 样式设置模态框 ---
+
+const AssStyleDialog: React.FC<AssStyleDialogProps> = ({ style, onChange, onClose }) => {
+  const update = <K extends keyof AssStyle>(key: K, value: AssStyle[K]) => {
+    onChange({ ...style, [key]: value });
+  };
+
+  const numberField = (key: 'fontSize' | 'outline' | 'shadow' | 'marginL' | 'marginR' | 'marginV', label: string) => (
+    <label className="flex flex-col gap-1 text-xs text-slate-400">
+      {label}
+      <input
+        type="number"
+        min={0}
+        className={inputClass}
+        value={style[key]}
+        onChange={(e) => update(key, Math.max(0, Number(e.target.value) || 0))}
+      />
+    </label>
+  );
+
+  const colorField = (key: 'primaryColor' | 'outlineColor' | 'backColor', label: string) => (
+    <label className="flex items-center justify-between gap-2 text-xs text-slate-400">
+      {label}
+      <input type="color" value={style[key]} onChange={(e) => update(key, e.target.value)} />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-black/80 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-800 rounded-3xl p-8 max-w-2xl w-full shadow-2xl animate-in fade-in zoom-in duration-200">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold flex items-center gap-3">
+            <Palette className="text-indigo-500" />
+            ASS 字幕样式
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full transition-colors bg-transparent text-slate-100">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <label className="flex flex-col gap-1 text-xs text-slate-400">
+              字体
+              <input
+                type="text"
+                className={inputClass}
+                value={style.fontName}
+                onChange={(e) => update('fontName', e.target.value)}
+              />
+            </label>
+            {numberField('fontSize', '字号')}
+            {numberField('outline', '描边宽度')}
+            {numberField('shadow', '阴影距离')}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            {colorField('primaryColor', '文字颜色')}
+            {colorField('outlineColor', '描边颜色')}
+            {colorField('backColor', '阴影颜色')}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            {numberField('marginL', '左边距')}
+            {numberField('marginR', '右边距')}
+            {numberField('marginV', '垂直边距')}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <label className="flex flex-col gap-1 text-xs text-slate-400">
+              对齐位置
+              <select
+                className={inputClass}
+                value={style.alignment}
+                onChange={(e) => update('alignment', Number(e.target.value))}
+              >
+                {ALIGNMENT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label} ({option.value})</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+              <input type="checkbox" checked={style.bold} onChange={(e) => update('bold', e.target.checked)} />
+              粗体
+            </label>
+          </div>
+        </div>
+
+        <div className="flex gap-3 mt-8">
+          <button
+            onClick={() => onChange(DEFAULT_ASS_STYLE)}
+            className="flex items-center gap-2 px-4 py-3 bg-slate-800 hover:bg-slate-700 rounded-xl text-sm font-medium text-slate-300 transition-all"
+          >
+            <RotateCcw className="w-4 h-4" />
+            恢复默认
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 bg-indigo-600 hover:bg-indigo-500 rounded-xl font-bold transition-all shadow-lg shadow-indigo-500/25 text-white"
+          >
+            完成
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AssStyleDialog;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Wand2, X } from 'lucide-react';
+import { SilenceOptions, DEFAULT_SILENCE_OPTIONS } from '../core/silence';
+import { AudioAnalysisStatus } from '../hooks/useAudioAnalysis';
+
+interface AutoSplitPanelProps {
+  options: SilenceOptions;
+  onChange: (options: SilenceOptions) => void;
+  audioStatus: AudioAnalysisStatus;
+  cutCount: number;
+  onApply: () => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-20 bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-xs font-mono text-slate-300 outline-none focus:border-indigo-500";
+
+// --- 静音自动切分设置 ---
+// 修改参数时时间轴上实时预览候选切点，确认后才写入分段。
+
+const AutoSplitPanel: React.FC<AutoSplitPanelProps> = ({ options, onChange, audioStatus, cutCount, onApply, onClose }) => {
+  const field = (key: keyof SilenceOptions, label: string, unit: string, step: number) => (
+    <label className="flex items-center gap-2 text-xs text-slate-400">
+      {label}
+      <input
+        type="number"
+        step={step}
+        className={inputClass}
+        value={options[key]}
+        onChange={(e) => {
+          const value = Number(e.target.value);
+          if (!isNaN(value)) onChange({ ...options, [key]: value });
+        }}
+      />
+      <span className="text-slate-600">{unit}</span>
+    </label>
+  );
+
+  return (
+    <div className="mb-4 p-4 bg-slate-900 rounded-2xl border border-slate-800 animate-in fade-in duration-200">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-xs font-bold flex items-center gap-2 text-slate-300">
+          <Wand2 className="w-3.5 h-3.5 text-indigo-400" />
+          按静音自动切分
+        </h4>
+        <button onClick={onClose} className="p-1 hover:bg-slate-800 rounded-md text-slate-500 hover:text-white transition-colors bg-transparent">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <div className="flex items-center gap-6">
+        {field('thresholdDb', '静音阈值', 'dB', 1)}
+        {field('minSilence', '最短静音', '秒', 0.1)}
+        {field('minSegment', '最短分段', '秒', 0.1)}
+        <button
+          onClick={() => onChange(DEFAULT_SILENCE_OPTIONS)}
+          className="text-[10px] text-slate-500 hover:text-white transition-colors bg-transparent"
+        >
+          恢复默认
+        </button>
+      </div>
+      <div className="flex items-center justify-between mt-3">
+        <span className="text-[10px] text-slate-500">
+          {audioStatus === 'loading' && '正在分析音频…'}
+          {audioStatus === 'error' && '无法解码音轨'}
+          {audioStatus === 'tooLarge' && '视频文件超过 1 GB，无法检测静音'}
+          {audioStatus === 'ready' && `将新增 ${cutCount} 个切点（时间轴上以黄色竖线预览）`}
+        </span>
+        <button
+          onClick={onApply}
+          disabled={cutCount === 0}
+          className="flex items-center gap-2 px-4 py-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-xs font-medium text-white transition-all"
+        >
+          应用切分
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AutoSplitPanel;
@@ -0,0 +1,96 @@
+import React, { useState, useMemo } from 'react';
+import { SentenceOptions, DEFAULT_SENTENCE_OPTIONS } from '../core/sentences';
+import { ScriptLine, Speaker, splitScript } from '../core/speakers';
+
+interface BulkImportPanelProps {
+  // 已有的角色，冒号前缀的名字在其中时直接识别为角色
+  cast: Speaker[];
+  onImport: (lines: ScriptLine[]) => void;
+}
+
+// --- 批量导入文案 ---
+// 按句末标点分句并按最大字宽折行，确认预览后才写入字幕库。
+// 识别角色时，“【角色】台词”的前缀会被移除并记录为该行的角色；“角色：台词”只在名字已在角色表中
+// 或在多行中重复出现时才识别，以免把“Note:”“他说：”之类的普通句子当作角色。
+
+const BulkImportPanel: React.FC<BulkImportPanelProps> = ({ cast, onImport }) => {
+  const [rawText, setRawText] = useState('');
+  const [options, setOptions] = useState<SentenceOptions>(DEFAULT_SENTENCE_OPTIONS);
+  const [detectSpeakers, setDetectSpeakers] = useState(false);
+
+  const preview = useMemo(
+    () => splitScript(rawText, options, detectSpeakers, cast),
+    [rawText, options, detectSpeakers, cast]
+  );
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (preview.length === 0) return;
+    onImport(preview);
+    setRawText('');
+  };
+
+  return (
+    <div className="bg-slate-900/50 p-4 rounded-2xl border border-slate-800 mb-2">
+      <form onSubmit={handleSubmit}>
+        <textarea
+          value={rawText}
+          onChange={(e) => setRawText(e.target.value)}
+          placeholder="在此粘贴完整字幕文案... (将按换行与句末标点自动分句)"
+          className="w-full h-32 bg-transparent text-sm text-slate-300 placeholder:text-slate-700 outline-none resize-none border-none"
+        />
+
+        <div className="flex items-center justify-between gap-2 mt-3 text-[10px] text-slate-500">
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.splitOnComma}
+              onChange={(e) => setOptions({ ...options, splitOnComma: e.target.checked })}
+            />
+            逗号/分号处断句
+          </label>
+          <label className="flex items-center gap-1 cursor-pointer" title="识别“【角色】台词”，以及角色表中已有或在多行中重复出现的“角色：台词”">
+            <input
+              type="checkbox"
+              checked={detectSpeakers}
+              onChange={(e) => setDetectSpeakers(e.target.checked)}
+            />
+            识别角色
+          </label>
+          <label className="flex items-center gap-1" title="中文计 1，英文字母与半角符号计 0.5，0 表示不限制">
+            每行最长
+            <input
+              type="number"
+              min={0}
+              value={options.maxLength}
+              onChange={(e) => setOptions({ ...options, maxLength: Math.max(0, Number(e.target.value) || 0) })}
+              className="w-12 bg-slate-950 border border-slate-800 rounded-md px-1 py-0.5 text-[10px] font-mono text-slate-300 outline-none focus:border-indigo-500"
+            />
+            字
+          </label>
+        </div>
+
+        {preview.length > 0 && (
+          <div className="mt-3 max-h-[200px] overflow-y-auto space-y-1 pr-1">
+            {preview.map((line, index) => (
+              <div key={index} className="flex items-start gap-2 text-xs">
+                <span className="text-[10px] font-mono text-slate-600 w-6 shrink-0 text-right">{index + 1}</span>
+                {line.speaker && <span className="text-[10px] text-indigo-400 shrink-0">{line.speaker}</span>}
+                <span className="text-slate-300 flex-1">{line.text}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <button
+          disabled={preview.length === 0}
+          className="w-full mt-3 py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed text-slate-300 text-[10px] font-bold uppercase tracking-widest rounded-xl transition-all border border-slate-700"
+        >
+          {preview.length > 0 ? `添加 ${preview.length} 条到字幕库` : '批量处理文本'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default BulkImportPanel;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Users, Plus, Trash2, X } from 'lucide-react';
+import { Speaker } from '../core/speakers';
+
+interface CastDialogProps {
+  cast: Speaker[];
+  // 每个角色被多少行文本使用
+  lineCounts: Record<string, number>;
+  onAdd: (name: string) => void;
+  onUpdate: (speaker: Speaker) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = "flex-1 bg-slate-950 border border-slate-800 rounded-lg p-2 text-xs text-slate-300 outline-none focus:border-indigo-500";
+
+// --- 角色表 ---
+
+const CastDialog: React.FC<CastDialogProps> = ({ cast, lineCounts, onAdd, onUpdate, onRemove, onClose }) => {
+  const [newName, setNewName] = useState('');
+
+  const handleAdd = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    onAdd(name);
+    setNewName('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-black/80 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-800 rounded-3xl p-8 max-w-2xl w-full shadow-2xl animate-in fade-in zoom-in duration-200">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold flex items-center gap-3">
+            <Users className="text-indigo-500" />
+            角色表
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full transition-colors bg-transparent text-slate-100">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          {cast.length === 0 ? (
+            <p className="text-sm text-slate-400">
+              还没有角色。可以在下方添加，或在批量导入时使用“角色：台词”或“【角色】台词”的格式自动创建。
+            </p>
+          ) : (
+            <div className="max-h-[300px] overflow-y-auto space-y-2 pr-1">
+              {cast.map(speaker => (
+                <div key={speaker.id} className="flex items-center gap-3">
+                  <input
+                    type="color"
+                    value={speaker.color}
+                    onChange={(e) => onUpdate({ ...speaker, color: e.target.value })}
+                    title="角色颜色"
+                  />
+                  <input
+                    type="text"
+                    className={inputClass}
+                    value={speaker.name}
+                    onChange={(e) => onUpdate({ ...speaker, name: e.target.value })}
+                  />
+                  <span className="text-[10px] text-slate-500 w-12 text-right shrink-0">{lineCounts[speaker.id] ?? 0} 行</span>
+                  <button
+                    onClick={() => onRemove(speaker.id)}
+                    className="p-1.5 hover:bg-red-900/20 rounded-md text-red-500 transition-colors bg-transparent"
+                    title="删除角色（台词保留，只清除角色）"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleAdd} className="flex items-center gap-3">
+            <input
+              type="text"
+              className={inputClass}
+              placeholder="新角色名称"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+            />
+            <button
+              disabled={!newName.trim()}
+              className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-xs font-medium text-white transition-colors"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              添加
+            </button>
+          </form>
+        </div>
+
+        <button
+          onClick={onClose}
+          className="w-full mt-8 py-3 bg-indigo-600 hover:bg-indigo-500 rounded-xl font-bold transition-all shadow-lg shadow-indigo-500/25 text-white"
+        >
+          完成
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CastDialog;
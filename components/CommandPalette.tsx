@@ -0,0 +1,105 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Search } from 'lucide-react';
+import { COMMANDS, COMMAND_GROUP_LABELS, CommandId, KeyBindings, formatShortcut } from '../core/commands';
+
+interface CommandPaletteProps {
+  bindings: KeyBindings;
+  isAvailable: (id: CommandId) => boolean;
+  onRun: (id: CommandId) => void;
+  onClose: () => void;
+}
+
+// --- 命令面板 ---
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ bindings, isAvailable, onRun, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const keyword = query.trim().toLowerCase();
+  const matches = COMMANDS.filter(command =>
+    command.id !== 'commandPalette' &&
+    isAvailable(command.id) &&
+    (!keyword ||
+      command.label.toLowerCase().includes(keyword) ||
+      COMMAND_GROUP_LABELS[command.group].includes(keyword) ||
+      command.id.toLowerCase().includes(keyword))
+  );
+
+  useEffect(() => {
+    setSelected(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current?.children[selected]?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  const run = (id: CommandId) => {
+    onClose();
+    onRun(id);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelected(i => Math.min(matches.length - 1, i + 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelected(i => Math.max(0, i - 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (matches[selected]) run(matches[selected].id);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-start justify-center p-6 pt-24 bg-black/80 backdrop-blur-sm" onMouseDown={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-800 rounded-2xl max-w-lg w-full shadow-2xl animate-in fade-in zoom-in duration-200"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 px-4 py-3 border-b border-slate-800">
+          <Search className="w-4 h-4 text-slate-500" />
+          <input
+            autoFocus
+            className="flex-1 bg-transparent text-sm text-slate-100 outline-none"
+            placeholder="输入命令名称…"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+          />
+        </div>
+        <div ref={listRef} className="max-h-[400px] overflow-y-auto p-2 space-y-1">
+          {matches.length === 0 && (
+            <div className="text-center py-6 text-xs text-slate-600 italic">没有匹配的命令</div>
+          )}
+          {matches.map((command, index) => (
+            <button
+              key={command.id}
+              onClick={() => run(command.id)}
+              onMouseEnter={() => setSelected(index)}
+              className={`w-full flex items-center justify-between gap-3 px-3 py-2 rounded-lg text-xs transition-colors ${
+                index === selected ? 'bg-indigo-600/20 text-indigo-400' : 'bg-transparent text-slate-300'
+              }`}
+            >
+              <span className="truncate">
+                <span className="text-slate-500 mr-2">{COMMAND_GROUP_LABELS[command.group]}</span>
+                {command.label}
+              </span>
+              <span className="flex items-center gap-1 shrink-0">
+                {bindings[command.id].map(shortcut => (
+                  <kbd key={shortcut}>{formatShortcut(shortcut)}</kbd>
+                ))}
+              </span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { History, X } from 'lucide-react';
+import { HistoryState } from '../core/history';
+
+interface HistoryPanelProps {
+  history: HistoryState;
+  // 正数为重做的步数，负数为撤销的步数
+  onTravel: (steps: number) => void;
+  onClose: () => void;
+}
+
+// --- 编辑历史面板 ---
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onTravel, onClose }) => {
+  const { past, future } = history;
+
+  return (
+    <div className="fixed bottom-12 right-6 z-50 w-72 bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl animate-in fade-in duration-200">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-800">
+        <h3 className="text-xs font-bold flex items-center gap-2 text-slate-300">
+          <History className="w-3.5 h-3.5 text-indigo-400" />
+          编辑历史
+        </h3>
+        <button onClick={onClose} className="p-1 hover:bg-slate-800 rounded-md text-slate-500 hover:text-white transition-colors bg-transparent">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <div className="max-h-[300px] overflow-y-auto p-2 space-y-1">
+        <button
+          onClick={() => onTravel(-past.length)}
+          className={`w-full flex items-center justify-between px-3 py-1.5 rounded-lg text-xs transition-colors ${
+            past.length === 0 ? 'bg-indigo-600/20 text-indigo-400' : 'bg-transparent text-slate-500 hover:bg-slate-800'
+          }`}
+        >
+          初始状态
+        </button>
+        {past.map((entry, index) => (
+          <button
+            key={entry.id}
+            onClick={() => onTravel(index - (past.length - 1))}
+            className={`w-full flex items-center justify-between px-3 py-1.5 rounded-lg text-xs transition-colors ${
+              index === past.length - 1 ? 'bg-indigo-600/20 text-indigo-400' : 'bg-transparent text-slate-300 hover:bg-slate-800'
+            }`}
+          >
+            <span className="truncate">{entry.label}</span>
+            <span className="text-[10px] font-mono text-slate-600 shrink-0">{new Date(entry.time).toLocaleTimeString()}</span>
+          </button>
+        ))}
+        {future.map((entry, index) => (
+          <button
+            key={entry.id}
+            onClick={() => onTravel(index + 1)}
+            className="w-full flex items-center justify-between px-3 py-1.5 rounded-lg text-xs transition-colors bg-transparent text-slate-600 hover:bg-slate-800 italic"
+          >
+            <span className="truncate">{entry.label}</span>
+            <span className="text-[10px] font-mono shrink-0">{new Date(entry.time).toLocaleTimeString()}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,101 @@
+import React from 'react';
+import { FileCheck, X } from 'lucide-react';
+import { ImportReport, ImportNoteKind } from '../core/import';
+import { formatTimeDisplay } from '../core/subtitle';
+
+interface ImportReportDialogProps {
+  report: ImportReport;
+  onSeek: (time: number) => void;
+  onClose: () => void;
+}
+
+const NOTE_LABELS: Record<ImportNoteKind, string> = {
+  merged: '同一时间点，已合并',
+  dropped: '超出视频时长，已丢弃',
+  clamped: '时间超出范围，已截断'
+};
+
+const METADATA_LABELS: Record<string, string> = { ti: '标题', ar: '艺术家', al: '专辑', by: '制作' };
+
+// --- 导入结果报告 ---
+
+const ImportReportDialog: React.FC<ImportReportDialogProps> = ({ report, onSeek, onClose }) => {
+  const stats = [
+    { label: '字幕条目', value: report.entryCount },
+    { label: '分段', value: report.segmentCount },
+    { label: '文本块', value: report.blockCount }
+  ];
+  const counts = (Object.keys(NOTE_LABELS) as ImportNoteKind[])
+    .map(kind => ({ kind, count: report.notes.filter(note => note.kind === kind).length }))
+    .filter(item => item.count > 0);
+  const metadata = Object.entries(report.metadata).filter(([key]) => METADATA_LABELS[key]);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-black/80 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-800 rounded-3xl p-8 max-w-2xl w-full shadow-2xl animate-in fade-in zoom-in duration-200">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold flex items-center gap-3">
+            <FileCheck className="text-indigo-500" />
+            导入完成
+            <span className="text-xs font-mono text-slate-500">{report.format.toUpperCase()}</span>
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full transition-colors bg-transparent text-slate-100">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-3 gap-4">
+            {stats.map(stat => (
+              <div key={stat.label} className="p-4 bg-slate-950 rounded-2xl border border-slate-800 text-center">
+                <div className="text-2xl font-bold text-white font-mono">{stat.value}</div>
+                <div className="text-[10px] text-slate-500 mt-1">{stat.label}</div>
+              </div>
+            ))}
+          </div>
+
+          {(metadata.length > 0 || report.offset !== 0) && (
+            <div className="flex items-center gap-6 text-xs text-slate-400">
+              {metadata.map(([key, value]) => (
+                <span key={key}>{METADATA_LABELS[key]}：<span className="text-slate-300">{value}</span></span>
+              ))}
+              {report.offset !== 0 && <span>已应用偏移 {report.offset} ms</span>}
+            </div>
+          )}
+
+          {counts.length === 0 ? (
+            <p className="text-sm text-slate-400">所有条目均已按原时间导入，没有合并、丢弃或截断。</p>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-sm text-slate-400">
+                {counts.map(item => `${item.count} 个条目${NOTE_LABELS[item.kind]}`).join('；')}。点击条目可跳转到对应位置。
+              </p>
+              <div className="max-h-[200px] overflow-y-auto space-y-1 pr-1">
+                {report.notes.map((note, index) => (
+                  <button
+                    key={index}
+                    onClick={() => onSeek(note.time)}
+                    className="w-full flex items-center gap-3 px-3 py-1.5 rounded-lg text-xs text-left transition-colors bg-transparent text-slate-300 hover:bg-slate-800"
+                  >
+                    <span className="text-[10px] font-mono text-slate-500 shrink-0">{formatTimeDisplay(note.time)}</span>
+                    <span className="flex-1 truncate">{note.text || '(空白)'}</span>
+                    <span className="text-[10px] text-slate-500 shrink-0">{NOTE_LABELS[note.kind]}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <button
+          onClick={onClose}
+          className="w-full mt-8 py-3 bg-indigo-600 hover:bg-indigo-500 rounded-xl font-bold transition-all shadow-lg shadow-indigo-500/25 text-white"
+        >
+          完成
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ImportReportDialog;
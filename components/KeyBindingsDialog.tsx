@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import { Keyboard, X, Plus, RotateCcw } from 'lucide-react';
+import {
+  COMMANDS, COMMAND_GROUP_LABELS, CommandGroup, CommandId, KeyBindings, DEFAULT_KEY_BINDINGS,
+  eventToShortcut, formatShortcut, findConflicts
+} from '../core/commands';
+
+interface KeyBindingsDialogProps {
+  bindings: KeyBindings;
+  onChange: (bindings: KeyBindings) => void;
+  onClose: () => void;
+}
+
+const GROUPS = Object.keys(COMMAND_GROUP_LABELS) as CommandGroup[];
+
+// --- 快捷键设置模态框 ---
+
+const KeyBindingsDialog: React.FC<KeyBindingsDialogProps> = ({ bindings, onChange, onClose }) => {
+  // 正在为哪个命令录制快捷键
+  const [recording, setRecording] = useState<CommandId | null>(null);
+  const conflicts = findConflicts(bindings);
+
+  // 捕获阶段监听，录制时按键不会再触发编辑器里的命令
+  useEffect(() => {
+    if (!recording) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.code === 'Escape') {
+        setRecording(null);
+        return;
+      }
+      const shortcut = eventToShortcut(e);
+      if (!shortcut) return;
+      if (!bindings[recording].includes(shortcut)) {
+        onChange({ ...bindings, [recording]: [...bindings[recording], shortcut] });
+      }
+      setRecording(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recording, bindings, onChange]);
+
+  const removeShortcut = (id: CommandId, shortcut: string) => {
+    onChange({ ...bindings, [id]: bindings[id].filter(s => s !== shortcut) });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-black/80 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-800 rounded-3xl p-8 max-w-2xl w-full shadow-2xl animate-in fade-in zoom-in duration-200">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold flex items-center gap-3">
+            <Keyboard className="text-indigo-500" />
+            自定义快捷键
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full transition-colors bg-transparent text-slate-100">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="space-y-6 max-h-[400px] overflow-y-auto pr-2">
+          {GROUPS.map(group => (
+            <section key={group} className="space-y-1">
+              <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2">{COMMAND_GROUP_LABELS[group]}</h3>
+              {COMMANDS.filter(command => command.group === group).map(command => (
+                <div key={command.id} className="flex items-center justify-between gap-3 px-3 py-1.5 rounded-lg hover:bg-slate-800">
+                  <span className="text-xs text-slate-300">{command.label}</span>
+                  <div className="flex items-center gap-1 shrink-0">
+                    {bindings[command.id].map(shortcut => (
+                      <button
+                        key={shortcut}
+                        onClick={() => removeShortcut(command.id, shortcut)}
+                        className={`flex items-center gap-1 px-2 py-0.5 rounded border text-[10px] font-mono transition-colors bg-transparent ${
+                          conflicts.has(shortcut) ? 'border-red-500 text-red-400' : 'border-slate-700 text-slate-300 hover:border-red-500'
+                        }`}
+                        title={conflicts.has(shortcut) ? '与其他命令冲突，单击移除' : '单击移除'}
+                      >
+                        {formatShortcut(shortcut)}
+                        <X className="w-3 h-3" />
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => setRecording(command.id)}
+                      className={`flex items-center gap-1 px-2 py-0.5 rounded text-[10px] transition-colors ${
+                        recording === command.id ? 'bg-indigo-600 text-white' : 'bg-transparent text-slate-500 hover:text-white'
+                      }`}
+                    >
+                      {recording === command.id ? '请按下快捷键…' : <Plus className="w-3 h-3" />}
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </section>
+          ))}
+        </div>
+
+        {conflicts.size > 0 && (
+          <p className="text-xs text-red-400 mt-3">红色标记的快捷键绑定了多个命令，按下时只会执行列表中靠前的那一个。</p>
+        )}
+
+        <div className="flex gap-3 mt-8">
+          <button
+            onClick={() => onChange(DEFAULT_KEY_BINDINGS)}
+            className="flex items-center gap-2 px-4 py-3 bg-slate-800 hover:bg-slate-700 rounded-xl text-sm font-medium text-slate-300 transition-all"
+          >
+            <RotateCcw className="w-4 h-4" />
+            恢复默认
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 bg-indigo-600 hover:bg-indigo-500 rounded-xl font-bold transition-all shadow-lg shadow-indigo-500/25 text-white"
+          >
+            完成
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KeyBindingsDialog;
@@ -0,0 +1,111 @@
+import React from 'react';
+import { Edit3, Save, X, GripVertical, Trash2 } from 'lucide-react';
+import { TextBlock } from '../core/subtitle';
+import { Speaker, findSpeaker } from '../core/speakers';
+
+// 行内操作由父组件通过 useStableCallbacks 提供，引用保持不变
+export interface LibraryRowActions {
+  dragStart: (e: React.DragEvent, blockId: string, index: number) => void;
+  dragOver: (e: React.DragEvent) => void;
+  drop: (e: React.DragEvent, index: number) => void;
+  edit: (blockId: string | null) => void;
+  update: (blockId: string, text: string) => void;
+  remove: (blockId: string) => void;
+  toggleSelection: (blockId: string) => void;
+  setSpeaker: (blockId: string, speakerId: string | null) => void;
+}
+
+interface LibraryRowProps {
+  block: TextBlock;
+  index: number;
+  isEditing: boolean;
+  isSelected: boolean;
+  isAssigned: boolean;
+  cast: Speaker[];
+  actions: LibraryRowActions;
+}
+
+// --- 字幕库中的一行 ---
+// 使用 React.memo：播放与编辑其他行时未变化的行不会重新渲染。
+
+const LibraryRow: React.FC<LibraryRowProps> = ({ block, index, isEditing, isSelected, isAssigned, cast, actions }) => (
+  <div
+    draggable={!isEditing}
+    onDragStart={(e) => actions.dragStart(e, block.id, index)}
+    onDragOver={actions.dragOver}
+    onDrop={(e) => actions.drop(e, index)}
+    className={`group relative p-4 rounded-2xl border transition-all ${
+      isEditing
+      ? 'bg-slate-950 border-indigo-500/50 shadow-xl ring-1 ring-indigo-500/20'
+      : 'bg-slate-900/40 border-slate-800 hover:border-slate-700 cursor-grab active:cursor-grabbing'
+    }`}
+  >
+    {isEditing ? (
+      <div className="flex flex-col gap-3">
+        <textarea
+          autoFocus
+          className="w-full bg-transparent text-sm text-white outline-none resize-none border-none"
+          defaultValue={block.text}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              actions.update(block.id, e.currentTarget.value);
+            }
+            if (e.key === 'Escape') actions.edit(null);
+          }}
+          onBlur={(e) => actions.update(block.id, e.target.value)}
+        />
+        <div className="flex justify-end gap-2">
+          <button onClick={() => actions.edit(null)} className="p-1.5 hover:bg-slate-800 rounded-lg bg-transparent"><X className="w-3.5 h-3.5 text-slate-500" /></button>
+          <button className="p-1.5 bg-indigo-600/20 text-indigo-400 rounded-lg bg-transparent"><Save className="w-3.5 h-3.5" /></button>
+        </div>
+      </div>
+    ) : (
+      <div className="flex flex-col gap-2">
+        <div className="flex items-start justify-between gap-2">
+          <div className="text-slate-600 mt-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            <GripVertical className="w-3.5 h-3.5" />
+          </div>
+          <p className="text-sm text-slate-300 leading-relaxed flex-1">{block.text}</p>
+          <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity bg-slate-900/80 backdrop-blur p-1 rounded-lg shrink-0">
+            <button onClick={() => actions.edit(block.id)} className="p-1.5 hover:bg-slate-800 rounded-md text-slate-400 hover:text-white transition-colors bg-transparent">
+              <Edit3 className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => actions.remove(block.id)} className="p-1.5 hover:bg-red-900/20 rounded-md text-red-500 transition-colors bg-transparent">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={isSelected}
+            onChange={() => actions.toggleSelection(block.id)}
+            title="勾选文本行"
+          />
+          {isAssigned ? (
+            <span className="text-[9px] font-bold bg-indigo-500/10 text-indigo-400 px-2 py-0.5 rounded-full uppercase">已分配</span>
+          ) : (
+            <span className="text-[9px] font-bold bg-slate-800 text-slate-600 px-2 py-0.5 rounded-full uppercase">空闲</span>
+          )}
+          {cast.length > 0 && (
+            <select
+              value={block.speakerId ?? ''}
+              onChange={(e) => actions.setSpeaker(block.id, e.target.value || null)}
+              className="ml-auto bg-transparent border-none text-[10px] font-bold outline-none cursor-pointer"
+              style={{ color: findSpeaker(cast, block.speakerId)?.color ?? '#64748b' }}
+              title="角色"
+            >
+              <option value="">无角色</option>
+              {cast.map(speaker => (
+                <option key={speaker.id} value={speaker.id}>{speaker.name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+    )}
+  </div>
+);
+
+export default React.memo(LibraryRow);
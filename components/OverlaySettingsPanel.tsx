@@ -0,0 +1,48 @@
+import React from 'react';
+import { OverlaySettings } from './SubtitleOverlay';
+
+interface OverlaySettingsPanelProps {
+  settings: OverlaySettings;
+  onChange: (settings: OverlaySettings) => void;
+}
+
+// --- 字幕预览设置 ---
+
+const OverlaySettingsPanel: React.FC<OverlaySettingsPanelProps> = ({ settings, onChange }) => {
+  const slider = (key: 'fontSize' | 'bottomOffset' | 'backgroundOpacity', label: string, min: number, max: number, step: number, format: (v: number) => string) => (
+    <label className="flex items-center gap-3 text-[10px] text-slate-400">
+      <span className="w-16 shrink-0">{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={settings[key]}
+        onChange={(e) => onChange({ ...settings, [key]: Number(e.target.value) })}
+        className="flex-1"
+      />
+      <span className="w-10 text-right font-mono text-slate-500">{format(settings[key])}</span>
+    </label>
+  );
+
+  return (
+    <div
+      className="absolute bottom-full right-0 mb-2 w-72 p-4 bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl space-y-3 animate-in fade-in duration-200"
+      onClick={(e) => e.stopPropagation()}
+    >
+      {slider('fontSize', '字号', 12, 72, 1, v => `${v}px`)}
+      {slider('bottomOffset', '距底部', 0, 90, 1, v => `${v}%`)}
+      {slider('backgroundOpacity', '背景', 0, 1, 0.05, v => `${Math.round(v * 100)}%`)}
+      <label className="flex items-center gap-2 text-[10px] text-slate-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.showNextLine}
+          onChange={(e) => onChange({ ...settings, showNextLine: e.target.checked })}
+        />
+        同时显示下一行（卡拉 OK 校对）
+      </label>
+    </div>
+  );
+};
+
+export default OverlaySettingsPanel;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { FolderOpen, X, Trash2, Film } from 'lucide-react';
+import { ProjectSummary, formatFileSize } from '../core/project';
+import { formatTimeDisplay } from '../core/subtitle';
+
+interface ProjectListDialogProps {
+  projects: ProjectSummary[];
+  currentProjectId: string | null;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+// --- 项目列表模态框 ---
+
+const ProjectListDialog: React.FC<ProjectListDialogProps> = ({ projects, currentProjectId, onOpen, onDelete, onClose }) => (
+  <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-black/80 backdrop-blur-sm">
+    <div className="bg-slate-900 border border-slate-800 rounded-3xl p-8 max-w-2xl w-full shadow-2xl animate-in fade-in zoom-in duration-200">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold flex items-center gap-3">
+          <FolderOpen className="text-indigo-500" />
+          我的项目
+        </h2>
+        <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full transition-colors bg-transparent text-slate-100">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="space-y-3 max-h-[400px] overflow-y-auto pr-2">
+        {projects.length === 0 && (
+          <div className="text-center py-20 opacity-20 italic text-sm">暂无已保存的项目</div>
+        )}
+        {projects.map(project => (
+          <div
+            key={project.id}
+            className={`group flex items-center gap-4 p-4 rounded-2xl border transition-all ${
+              project.id === currentProjectId ? 'bg-indigo-600/10 border-indigo-500/50' : 'bg-slate-900 border-slate-800'
+            }`}
+          >
+            <Film className="w-5 h-5 text-slate-500 shrink-0" />
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-bold text-slate-100 truncate">{project.name}</div>
+              <div className="text-[10px] text-slate-500 font-mono mt-1">
+                {project.video
+                  ? `${project.video.fileName} · ${formatFileSize(project.video.size)} · ${formatTimeDisplay(project.video.duration)}`
+                  : '未关联视频'}
+              </div>
+              <div className="text-[10px] text-slate-600 mt-1">
+                {project.segmentCount} 个分段 · {project.textBlockCount} 条字幕 · {new Date(project.updatedAt).toLocaleString()}
+              </div>
+            </div>
+            <button
+              onClick={() => onOpen(project.id)}
+              disabled={project.id === currentProjectId}
+              className="px-4 py-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-xs font-medium text-white transition-all"
+            >
+              {project.id === currentProjectId ? '当前项目' : '打开'}
+            </button>
+            <button
+              onClick={() => onDelete(project.id)}
+              className="p-1.5 hover:bg-red-900/20 rounded-md text-red-500 transition-colors bg-transparent"
+              title="删除项目"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  </div>
+);
+
+export default ProjectListDialog;
@@ -0,0 +1,211 @@
+import React, { useState, useMemo } from 'react';
+import { Clock, X } from 'lucide-react';
+import { VideoSegment, TextBlock, formatTimeDisplay, getSegmentText } from '../core/subtitle';
+import { LinearTransform, RetimeResult, transformFromAnchors } from '../core/retime';
+import TimeInput from './TimeInput';
+import TextPicker from './TextPicker';
+
+type RetimeMode = 'shift' | 'scale' | 'anchors';
+
+interface RetimePanelProps {
+  segments: VideoSegment[];
+  textBlocks: TextBlock[];
+  selectedCount: number;
+  // 读取播放头位置；不直接传入 currentTime，播放时面板无需随之重新渲染
+  getPlayheadTime: () => number;
+  onShift: (offset: number, selectedOnly: boolean) => RetimeResult;
+  onTransform: (transform: LinearTransform, label: string) => RetimeResult;
+  onClose: () => void;
+}
+
+const MODES: { value: RetimeMode; label: string }[] = [
+  { value: 'shift', label: '整体平移' },
+  { value: 'scale', label: '按比例缩放' },
+  { value: 'anchors', label: '两点校准' }
+];
+
+const inputClass = "w-20 bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-xs font-mono text-slate-300 outline-none focus:border-indigo-500";
+
+const describe = (result: RetimeResult) => {
+  const parts = ['已应用'];
+  if (result.clipped > 0) parts.push(`${result.clipped} 个分段超出视频范围被截短`);
+  if (result.dropped > 0) parts.push(`${result.dropped} 个分段移出视频范围被删除`);
+  return parts.join('，');
+};
+
+// --- 时间调整面板 ---
+// 用于修正来自其他版本视频的字幕：恒定偏移用平移，帧率不同用缩放，两者兼有用两点校准。
+// 使用 React.memo，父组件传入的回调需保持引用不变。
+
+const RetimePanel: React.FC<RetimePanelProps> = ({
+  segments, textBlocks, selectedCount, getPlayheadTime, onShift, onTransform, onClose
+}) => {
+  const assigned = segments.filter(s => s.textId);
+
+  const [mode, setMode] = useState<RetimeMode>('shift');
+  const [offset, setOffset] = useState('0');
+  const [selectedOnly, setSelectedOnly] = useState(false);
+  const [factor, setFactor] = useState('1');
+  // 校准点按分段 id 记录，应用调整后仍指向同一分段
+  const [anchorA, setAnchorA] = useState(() => (assigned[0] ?? segments[0])?.id ?? '');
+  const [anchorB, setAnchorB] = useState(() => (assigned[assigned.length - 1] ?? segments[segments.length - 1])?.id ?? '');
+  const [targetA, setTargetA] = useState(() => segments.find(s => s.id === anchorA)?.startTime ?? 0);
+  const [targetB, setTargetB] = useState(() => segments.find(s => s.id === anchorB)?.startTime ?? 0);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // 校准点通过可搜索的选择器挑选，行号即分段序号
+  const anchorOptions = useMemo(() => segments.map(seg => ({
+    id: seg.id,
+    text: `${formatTimeDisplay(seg.startTime)} · ${getSegmentText(seg, textBlocks) || '(空白)'}`
+  })), [segments, textBlocks]);
+
+  const segmentA = segments.find(s => s.id === anchorA);
+  const segmentB = segments.find(s => s.id === anchorB);
+  const anchorTransform = segmentA && segmentB
+    ? transformFromAnchors({ from: segmentA.startTime, to: targetA }, { from: segmentB.startTime, to: targetB })
+    : null;
+
+  const offsetValue = parseFloat(offset);
+  const factorValue = parseFloat(factor);
+
+  const apply = () => {
+    let result: RetimeResult | null = null;
+    if (mode === 'shift' && !isNaN(offsetValue) && offsetValue !== 0) {
+      result = onShift(offsetValue, selectedOnly);
+    } else if (mode === 'scale' && factorValue > 0 && factorValue !== 1) {
+      result = onTransform({ scale: factorValue, offset: 0 }, '按比例缩放时间');
+    } else if (mode === 'anchors' && anchorTransform) {
+      result = onTransform(anchorTransform, '两点校准时间');
+    }
+    if (result) setMessage(describe(result));
+  };
+
+  const anchorField = (
+    label: string,
+    segmentId: string,
+    setSegmentId: (id: string) => void,
+    target: number,
+    setTarget: (time: number) => void
+  ) => (
+    <div className="flex items-center gap-2 text-xs text-slate-400">
+      {label}
+      <div className="w-56 flex">
+        <TextPicker
+          blocks={anchorOptions}
+          value={segmentId}
+          placeholder="选择分段"
+          allowNone={false}
+          onChange={(id) => {
+            const next = segments.find(s => s.id === id);
+            if (!next) return;
+            setSegmentId(next.id);
+            setTarget(next.startTime);
+          }}
+        />
+      </div>
+      应在
+      <TimeInput value={target} title="该分段正确的开始时间（秒）" onCommit={setTarget} />
+      <button
+        onClick={() => setTarget(getPlayheadTime())}
+        className="text-[10px] text-slate-500 hover:text-white transition-colors bg-transparent"
+        title="使用当前播放位置"
+      >
+        取当前位置
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="mb-4 p-4 bg-slate-900 rounded-2xl border border-slate-800 animate-in fade-in duration-200">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-xs font-bold flex items-center gap-2 text-slate-300">
+          <Clock className="w-3.5 h-3.5 text-indigo-400" />
+          时间调整
+        </h4>
+        <button onClick={onClose} className="p-1 hover:bg-slate-800 rounded-md text-slate-500 hover:text-white transition-colors bg-transparent">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-1 mb-3">
+        {MODES.map(option => (
+          <button
+            key={option.value}
+            onClick={() => { setMode(option.value); setMessage(null); }}
+            className={`px-3 py-1 rounded-lg text-[10px] font-bold transition-colors ${
+              mode === option.value ? 'bg-indigo-600/20 text-indigo-400' : 'bg-transparent text-slate-500 hover:text-white'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'shift' && (
+        <div className="flex items-center gap-6">
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            偏移
+            <input type="number" step={0.1} className={inputClass} value={offset} onChange={(e) => setOffset(e.target.value)} />
+            <span className="text-slate-600">秒（负数提前）</span>
+          </label>
+          <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={selectedOnly && selectedCount > 0}
+              disabled={selectedCount === 0}
+              onChange={(e) => setSelectedOnly(e.target.checked)}
+            />
+            仅选中的 {selectedCount} 个分段
+          </label>
+        </div>
+      )}
+
+      {mode === 'scale' && (
+        <div className="flex items-center gap-6">
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            倍率
+            <input type="number" step={0.001} min={0} className={inputClass} value={factor} onChange={(e) => setFactor(e.target.value)} />
+          </label>
+          <button
+            onClick={() => setFactor((23.976 / 25).toFixed(5))}
+            className="text-[10px] text-slate-500 hover:text-white transition-colors bg-transparent"
+          >
+            23.976 → 25 fps
+          </button>
+          <button
+            onClick={() => setFactor((25 / 23.976).toFixed(5))}
+            className="text-[10px] text-slate-500 hover:text-white transition-colors bg-transparent"
+          >
+            25 → 23.976 fps
+          </button>
+        </div>
+      )}
+
+      {mode === 'anchors' && (
+        <div className="space-y-2">
+          {anchorField('校准点 A', anchorA, setAnchorA, targetA, setTargetA)}
+          {anchorField('校准点 B', anchorB, setAnchorB, targetB, setTargetB)}
+          <div className="text-[10px] text-slate-500 font-mono">
+            {anchorTransform
+              ? `倍率 ${anchorTransform.scale.toFixed(5)} · 偏移 ${anchorTransform.offset.toFixed(2)} 秒`
+              : '两个校准点需要是不同的分段，且目标时间的先后顺序与原来一致'}
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mt-3">
+        <span className="text-[10px] text-slate-500">
+          {message ?? '所有调整都可以撤销；超出视频范围的部分会被截掉'}
+        </span>
+        <button
+          onClick={apply}
+          className="flex items-center gap-2 px-4 py-1.5 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-xs font-medium text-white transition-all"
+        >
+          应用
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default React.memo(RetimePanel);
@@ -0,0 +1,131 @@
+import React from 'react';
+import { RotateCcw, ChevronsDown, ChevronsUp, MicVocal } from 'lucide-react';
+import { VideoSegment, TextBlock } from '../core/subtitle';
+import { TextTrack, TrackId, getSegmentTrackTextId } from '../core/tracks';
+import { Speaker } from '../core/speakers';
+import TimeInput from './TimeInput';
+import TextPicker from './TextPicker';
+
+// 行内操作由父组件通过 useStableCallbacks 提供，引用保持不变
+export interface SegmentRowActions {
+  toggleSelection: (segmentId: string) => void;
+  setStart: (index: number, time: number) => void;
+  setEnd: (index: number, time: number) => void;
+  assign: (segmentId: string, trackId: TrackId, textId: string | null) => void;
+  reflow: (index: number, direction: 1 | -1) => void;
+  editWords: (segmentId: string) => void;
+  seek: (time: number) => void;
+  dragOver: (e: React.DragEvent, segmentId: string) => void;
+  dragLeave: () => void;
+  drop: (e: React.DragEvent, segmentId: string) => void;
+}
+
+interface SegmentRowProps {
+  segment: VideoSegment;
+  index: number;
+  isLast: boolean;
+  isActive: boolean;
+  isDragOver: boolean;
+  isSelected: boolean;
+  speaker: Speaker | null;
+  blocks: TextBlock[];
+  tracks: TextTrack[];
+  // 各轨道已分配的文本块 id，键为轨道 id，主轨道为空字符串
+  assignedIds: Record<string, Set<string>>;
+  actions: SegmentRowActions;
+}
+
+// --- 分段列表中的一行 ---
+// 使用 React.memo：播放时只有进入或离开当前时间的行会重新渲染。
+
+const SegmentRow: React.FC<SegmentRowProps> = ({
+  segment, index, isLast, isActive, isDragOver, isSelected, speaker, blocks, tracks, assignedIds, actions
+}) => (
+  <div
+    onDragOver={(e) => actions.dragOver(e, segment.id)}
+    onDragLeave={actions.dragLeave}
+    onDrop={(e) => actions.drop(e, segment.id)}
+    className={`group flex items-center gap-4 p-3 rounded-xl border transition-all ${
+      isActive ? 'bg-indigo-600/10 border-indigo-500/50' : (isDragOver ? 'bg-indigo-500/20 border-indigo-500 shadow-indigo-500/20' : 'bg-slate-900 border-slate-800')
+    }`}
+  >
+    <input
+      type="checkbox"
+      checked={isSelected}
+      onChange={() => actions.toggleSelection(segment.id)}
+      title="选中分段"
+    />
+    <div className="text-[10px] font-bold text-slate-500 w-16 uppercase">分段 {index + 1}</div>
+    <div className="flex items-center gap-1 text-[10px] font-mono text-slate-500 whitespace-nowrap">
+      <TimeInput
+        value={segment.startTime}
+        disabled={index === 0}
+        title="开始时间（秒）"
+        onCommit={(t) => actions.setStart(index, t)}
+      />
+      -
+      <TimeInput
+        value={segment.endTime}
+        disabled={isLast}
+        title="结束时间（秒）"
+        onCommit={(t) => actions.setEnd(index, t)}
+      />
+    </div>
+    {speaker && (
+      <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: speaker.color }} title={speaker.name} />
+    )}
+    <TextPicker
+      blocks={blocks}
+      value={segment.textId}
+      placeholder="(未分配文本 / 拖拽此处分配)"
+      assignedIds={assignedIds['']}
+      onChange={(textId) => actions.assign(segment.id, null, textId)}
+    />
+    {/* 译文轨道与原文并排编辑 */}
+    {tracks.map(track => (
+      <TextPicker
+        key={track.id}
+        blocks={track.blocks}
+        value={getSegmentTrackTextId(segment, track.id)}
+        placeholder={`(${track.name} 未分配)`}
+        assignedIds={assignedIds[track.id]}
+        title={track.name}
+        onChange={(textId) => actions.assign(segment.id, track.id, textId)}
+      />
+    ))}
+    <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+      <button
+        onClick={() => actions.reflow(index, 1)}
+        className="p-2 hover:bg-slate-800 rounded-lg text-slate-500 hover:text-white transition-colors bg-transparent"
+        title="从此分段起，文本整体后移一段（用于插入了新行）"
+      >
+        <ChevronsDown className="w-3.5 h-3.5" />
+      </button>
+      <button
+        onClick={() => actions.reflow(index, -1)}
+        className="p-2 hover:bg-slate-800 rounded-lg text-slate-500 hover:text-white transition-colors bg-transparent"
+        title="从此分段起，文本整体前移一段（用于删除了某行）"
+      >
+        <ChevronsUp className="w-3.5 h-3.5" />
+      </button>
+      {segment.textId && (
+        <button
+          onClick={() => actions.editWords(segment.id)}
+          className={`p-2 hover:bg-slate-800 rounded-lg hover:text-white transition-colors bg-transparent ${segment.words ? 'text-indigo-400' : 'text-slate-500'}`}
+          title="编辑逐字时间（卡拉 OK 歌词）"
+        >
+          <MicVocal className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </div>
+    <button
+      onClick={() => actions.seek(segment.startTime)}
+      className="p-2 hover:bg-slate-800 rounded-lg text-slate-500 hover:text-white transition-colors bg-transparent"
+      title="跳转至开始点"
+    >
+      <RotateCcw className="w-3.5 h-3.5" />
+    </button>
+  </div>
+);
+
+export default React.memo(SegmentRow);
@@ -0,0 +1,60 @@
+import React from 'react';
+
+export interface OverlaySettings {
+  enabled: boolean;
+  fontSize: number;
+  // 字幕距离画面底部的百分比
+  bottomOffset: number;
+  // 背景不透明度 0-1，0 表示只有文字阴影
+  backgroundOpacity: number;
+  showNextLine: boolean;
+}
+
+export const DEFAULT_OVERLAY_SETTINGS: OverlaySettings = {
+  enabled: true,
+  fontSize: 28,
+  bottomOffset: 8,
+  backgroundOpacity: 0.5,
+  showNextLine: false
+};
+
+interface SubtitleOverlayProps {
+  text: string;
+  nextText: string | null;
+  settings: OverlaySettings;
+}
+
+// --- 视频字幕预览层 ---
+
+const SubtitleOverlay: React.FC<SubtitleOverlayProps> = ({ text, nextText, settings }) => {
+  if (!settings.enabled || (!text && !(settings.showNextLine && nextText))) return null;
+
+  const lineStyle: React.CSSProperties = {
+    fontSize: settings.fontSize,
+    backgroundColor: `rgba(0, 0, 0, ${settings.backgroundOpacity})`,
+    textShadow: settings.backgroundOpacity < 0.3 ? '0 0 4px #000, 0 0 2px #000' : undefined
+  };
+
+  return (
+    <div
+      className="absolute inset-x-0 flex flex-col items-center gap-1 px-6 pointer-events-none"
+      style={{ bottom: `${settings.bottomOffset}%` }}
+    >
+      {text && (
+        <div className="px-3 py-1 rounded-md text-white font-bold text-center whitespace-pre-line" style={lineStyle}>
+          {text}
+        </div>
+      )}
+      {settings.showNextLine && nextText && (
+        <div
+          className="px-3 py-1 rounded-md text-slate-400 text-center whitespace-pre-line"
+          style={{ ...lineStyle, fontSize: settings.fontSize * 0.7 }}
+        >
+          {nextText}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SubtitleOverlay;
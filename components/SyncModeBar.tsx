@@ -0,0 +1,45 @@
+import React from 'react';
+import { Music, X } from 'lucide-react';
+
+interface SyncModeBarProps {
+  currentLine: string | null;
+  nextLine: string | null;
+  remaining: number;
+  // 当前生效的打轴快捷键
+  keys: { assign: string; blank: string; undo: string };
+  onClose: () => void;
+}
+
+// --- 打轴模式提示条 ---
+
+const SyncModeBar: React.FC<SyncModeBarProps> = ({ currentLine, nextLine, remaining, keys, onClose }) => (
+  <div className="mb-4 p-4 bg-indigo-600/10 rounded-2xl border border-indigo-500/50 animate-in fade-in duration-200">
+    <div className="flex items-center justify-between mb-3">
+      <h4 className="text-xs font-bold flex items-center gap-2 text-indigo-400">
+        <Music className="w-3.5 h-3.5" />
+        打轴模式
+        <span className="text-[10px] font-medium text-slate-500">
+          <kbd>{keys.assign}</kbd> 切分并分配下一行 · <kbd>{keys.blank}</kbd> 标记空白 · <kbd>{keys.undo}</kbd> 撤销上一次
+        </span>
+      </h4>
+      <button onClick={onClose} className="p-1 hover:bg-slate-800 rounded-md text-slate-500 hover:text-white transition-colors bg-transparent">
+        <X className="w-3.5 h-3.5" />
+      </button>
+    </div>
+    <div className="space-y-2">
+      <div className="flex items-center gap-3">
+        <span className="text-[10px] font-bold text-slate-500 w-16 uppercase shrink-0">当前行</span>
+        <span className="text-sm text-white truncate">{currentLine || <span className="text-slate-600 italic">（空白）</span>}</span>
+      </div>
+      <div className="flex items-center gap-3">
+        <span className="text-[10px] font-bold text-slate-500 w-16 uppercase shrink-0">下一行</span>
+        <span className="text-sm text-indigo-400 truncate flex-1">
+          {nextLine || <span className="text-slate-600 italic">字幕库中已没有未分配的文本</span>}
+        </span>
+        <span className="text-[10px] font-mono text-slate-500 shrink-0">剩余 {remaining} 行</span>
+      </div>
+    </div>
+  </div>
+);
+
+export default SyncModeBar;
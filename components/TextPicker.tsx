@@ -0,0 +1,163 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Search } from 'lucide-react';
+import { TextBlock, findBlock } from '../core/subtitle';
+
+interface TextPickerProps {
+  blocks: TextBlock[];
+  value: string | null;
+  placeholder: string;
+  // 已分配给其他分段的文本块，在列表中以灰色显示
+  assignedIds?: Set<string>;
+  title?: string;
+  // 是否提供“不分配”选项，默认提供
+  allowNone?: boolean;
+  onChange: (textId: string | null) => void;
+}
+
+// 搜索结果最多显示的条数，避免一次渲染上千个选项
+const MAX_RESULTS = 100;
+const DROPDOWN_HEIGHT = 280;
+
+// --- 可搜索的文本选择器 ---
+// 取代每个分段一个包含全部文本的 <select>：收起时只是一个按钮，展开后按关键字或行号筛选。
+
+const TextPicker: React.FC<TextPickerProps> = ({ blocks, value, placeholder, assignedIds, title, allowNone = true, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [highlight, setHighlight] = useState(0);
+  const [position, setPosition] = useState<{ left: number; top: number; width: number } | null>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  const current = findBlock(blocks, value);
+
+  // 输入数字时同时按行号匹配
+  const results = useMemo(() => {
+    if (!open) return [];
+    const keyword = query.trim().toLowerCase();
+    const lineNumber = /^\d+$/.test(keyword) ? parseInt(keyword, 10) - 1 : -1;
+    const matches: { block: TextBlock; index: number }[] = [];
+    for (let i = 0; i < blocks.length && matches.length < MAX_RESULTS; i++) {
+      if (!keyword || i === lineNumber || blocks[i].text.toLowerCase().includes(keyword)) {
+        matches.push({ block: blocks[i], index: i });
+      }
+    }
+    return matches;
+  }, [open, query, blocks]);
+
+  const openDropdown = () => {
+    const rect = buttonRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    // 下方空间不足时向上展开；使用 fixed 定位，不会被滚动容器裁剪
+    const top = window.innerHeight - rect.bottom < DROPDOWN_HEIGHT ? rect.top - DROPDOWN_HEIGHT - 4 : rect.bottom + 4;
+    setPosition({ left: rect.left, top, width: Math.max(rect.width, 320) });
+    setQuery('');
+    setHighlight(0);
+    setOpen(true);
+  };
+
+  const choose = (textId: string | null) => {
+    setOpen(false);
+    if (textId !== value) onChange(textId);
+  };
+
+  // 点击外部或外层滚动时收起
+  useEffect(() => {
+    if (!open) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      const target = e.target as Node;
+      if (!dropdownRef.current?.contains(target) && !buttonRef.current?.contains(target)) setOpen(false);
+    };
+    const handleScroll = (e: Event) => {
+      if (!dropdownRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    window.addEventListener('scroll', handleScroll, true);
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown);
+      window.removeEventListener('scroll', handleScroll, true);
+    };
+  }, [open]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlight(h => Math.min(h + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlight(h => Math.max(h - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (results[highlight]) choose(results[highlight].block.id);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        ref={buttonRef}
+        onClick={() => (open ? setOpen(false) : openDropdown())}
+        className={`flex-1 min-w-0 bg-slate-950 border rounded-lg p-2 text-xs text-left truncate outline-none transition-colors ${
+          open ? 'border-indigo-500' : 'border-slate-800'
+        } ${current ? 'text-slate-300' : 'text-slate-500'}`}
+        title={current?.text ?? title}
+      >
+        {current ? current.text : placeholder}
+      </button>
+
+      {open && position && (
+        <div
+          ref={dropdownRef}
+          className="fixed z-[90] bg-slate-900 border border-slate-800 rounded-xl shadow-2xl flex flex-col"
+          style={{ left: position.left, top: position.top, width: position.width, height: DROPDOWN_HEIGHT }}
+        >
+          <div className="flex items-center gap-2 px-3 py-2 border-b border-slate-800">
+            <Search className="w-3.5 h-3.5 text-slate-500" />
+            <input
+              autoFocus
+              value={query}
+              onChange={(e) => { setQuery(e.target.value); setHighlight(0); }}
+              onKeyDown={handleKeyDown}
+              placeholder="搜索文本或输入行号"
+              className="flex-1 bg-transparent text-xs text-slate-300 placeholder:text-slate-700 outline-none border-none"
+            />
+          </div>
+          <div className="flex-1 overflow-y-auto p-1 min-h-0">
+            {allowNone && (
+              <button
+                onClick={() => choose(null)}
+                className="w-full px-3 py-1.5 rounded-lg text-xs text-left text-slate-500 transition-colors bg-transparent hover:bg-slate-800"
+              >
+                (不分配)
+              </button>
+            )}
+            {results.map((result, i) => (
+              <button
+                key={result.block.id}
+                ref={i === highlight ? (el) => el?.scrollIntoView({ block: 'nearest' }) : undefined}
+                onClick={() => choose(result.block.id)}
+                onMouseEnter={() => setHighlight(i)}
+                className={`w-full flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs text-left transition-colors ${
+                  i === highlight ? 'bg-slate-800' : 'bg-transparent'
+                } ${result.block.id === value ? 'text-indigo-400' : assignedIds?.has(result.block.id) ? 'text-slate-500' : 'text-slate-300'}`}
+              >
+                <span className="text-[10px] font-mono text-slate-600 w-8 shrink-0 text-right">{result.index + 1}</span>
+                <span className="flex-1 truncate">{result.block.text}</span>
+              </button>
+            ))}
+            {results.length === 0 && (
+              <div className="px-3 py-4 text-xs text-slate-600 text-center">没有匹配的文本</div>
+            )}
+            {results.length === MAX_RESULTS && (
+              <div className="px-3 py-2 text-[10px] text-slate-600 text-center">只显示前 {MAX_RESULTS} 条，请输入关键字缩小范围</div>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default TextPicker;
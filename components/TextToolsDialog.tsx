@@ -0,0 +1,296 @@
+import React, { useState, useMemo } from 'react';
+import { Replace, X } from 'lucide-react';
+import { TextBlock } from '../core/subtitle';
+import { SentenceOptions, DEFAULT_SENTENCE_OPTIONS } from '../core/sentences';
+import {
+  FindOptions, DEFAULT_FIND_OPTIONS, BlockScope, BLOCK_SCOPE_LABELS, filterScope, compileFindPattern, findMatches
+} from '../core/replace';
+import { TextTransform, TEXT_TRANSFORMS, transformBlocks } from '../core/batch';
+
+type ToolMode = 'replace' | 'batch';
+
+interface TextToolsDialogProps {
+  trackName: string;
+  blocks: TextBlock[];
+  selectedIds: Set<string>;
+  assignedIds: Set<string>;
+  // 以下操作返回实际修改（或新增、删除）的行数
+  onReplace: (options: FindOptions, scopeIds: Set<string>) => number;
+  onTransform: (transform: TextTransform, scopeIds: Set<string>) => number;
+  onMerge: (separator: string) => number;
+  onSplit: (options: SentenceOptions) => number;
+  onClose: () => void;
+}
+
+const MODES: { value: ToolMode; label: string }[] = [
+  { value: 'replace', label: '查找替换' },
+  { value: 'batch', label: '批量处理' }
+];
+
+const SEPARATORS: { value: string; label: string }[] = [
+  { value: ' ', label: '空格' },
+  { value: '', label: '直接连接' },
+  { value: '\n', label: '换行' }
+];
+
+// 预览最多显示的行数
+const PREVIEW_LIMIT = 100;
+
+const inputClass = "flex-1 bg-slate-950 border border-slate-800 rounded-lg p-2 text-xs text-slate-300 outline-none focus:border-indigo-500";
+const selectClass = "bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-xs text-slate-300 outline-none focus:border-indigo-500";
+const actionClass = "px-3 py-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-xs font-medium text-white transition-colors";
+
+// 按匹配位置把原文拆成普通片段与高亮片段
+const highlight = (text: string, ranges: [number, number][]) => {
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  ranges.forEach(([start, end], i) => {
+    if (start > last) parts.push(text.slice(last, start));
+    if (end > start) parts.push(<span key={i} className="bg-amber-400/10 text-amber-400">{text.slice(start, end)}</span>);
+    last = end;
+  });
+  parts.push(text.slice(last));
+  return parts;
+};
+
+// --- 查找替换与批量处理 ---
+// 作用于字幕库当前显示的轨道；所有修改都可以撤销。
+
+const TextToolsDialog: React.FC<TextToolsDialogProps> = ({
+  trackName, blocks, selectedIds, assignedIds, onReplace, onTransform, onMerge, onSplit, onClose
+}) => {
+  const [mode, setMode] = useState<ToolMode>('replace');
+  const [scope, setScope] = useState<BlockScope>('all');
+  const [options, setOptions] = useState<FindOptions>(DEFAULT_FIND_OPTIONS);
+  const [separator, setSeparator] = useState(' ');
+  const [splitOptions, setSplitOptions] = useState<SentenceOptions>({ ...DEFAULT_SENTENCE_OPTIONS, splitOnComma: true });
+  const [message, setMessage] = useState<string | null>(null);
+
+  const scopeIds = useMemo(
+    () => filterScope(blocks, scope, selectedIds, assignedIds),
+    [blocks, scope, selectedIds, assignedIds]
+  );
+  const selectedCount = blocks.filter(b => selectedIds.has(b.id)).length;
+
+  const { pattern, error } = useMemo(() => compileFindPattern(options), [options]);
+  const matches = useMemo(
+    () => (pattern && mode === 'replace' ? findMatches(blocks, pattern, options, scopeIds) : []),
+    [pattern, mode, blocks, options, scopeIds]
+  );
+  const matchCount = matches.reduce((sum, match) => sum + match.ranges.length, 0);
+
+  // 每种处理会修改多少行，显示在按钮旁作为预览
+  const transformCounts = useMemo(() => {
+    if (mode !== 'batch') return null;
+    const counts = {} as Record<TextTransform, number>;
+    (Object.keys(TEXT_TRANSFORMS) as TextTransform[]).forEach(t => {
+      counts[t] = transformBlocks(blocks, scopeIds, t).changed;
+    });
+    return counts;
+  }, [mode, blocks, scopeIds]);
+
+  const updateOptions = (patch: Partial<FindOptions>) => {
+    setOptions(prev => ({ ...prev, ...patch }));
+    setMessage(null);
+  };
+
+  const replaceAll = () => {
+    const changed = onReplace(options, scopeIds);
+    setMessage(changed > 0 ? `已替换 ${changed} 行` : '没有需要替换的内容');
+  };
+
+  const applyTransform = (transform: TextTransform) => {
+    const changed = onTransform(transform, scopeIds);
+    setMessage(changed > 0 ? `${TEXT_TRANSFORMS[transform].label}：已修改 ${changed} 行` : '没有需要修改的行');
+  };
+
+  const mergeSelected = () => {
+    const removed = onMerge(separator);
+    if (removed > 0) setMessage(`已将 ${removed + 1} 行合并为一行`);
+  };
+
+  const splitSelected = () => {
+    const added = onSplit(splitOptions);
+    setMessage(added > 0 ? `拆分后新增 ${added} 行` : '勾选的行没有可以拆分的位置');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-black/80 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-800 rounded-3xl p-8 max-w-2xl w-full shadow-2xl animate-in fade-in zoom-in duration-200">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold flex items-center gap-3">
+            <Replace className="text-indigo-500" />
+            文本工具
+            <span className="text-xs font-medium text-slate-500">{trackName}</span>
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full transition-colors bg-transparent text-slate-100">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-1 mb-4">
+          {MODES.map(option => (
+            <button
+              key={option.value}
+              onClick={() => { setMode(option.value); setMessage(null); }}
+              className={`px-3 py-1 rounded-lg text-[10px] font-bold transition-colors ${
+                mode === option.value ? 'bg-indigo-600/20 text-indigo-400' : 'bg-transparent text-slate-500 hover:text-white'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+          <label className="flex items-center gap-2 text-xs text-slate-400 ml-auto">
+            范围
+            <select className={selectClass} value={scope} onChange={(e) => { setScope(e.target.value as BlockScope); setMessage(null); }}>
+              {(Object.keys(BLOCK_SCOPE_LABELS) as BlockScope[]).map(value => (
+                <option key={value} value={value} disabled={value === 'selected' && selectedCount === 0}>
+                  {BLOCK_SCOPE_LABELS[value]}{value === 'selected' ? `（${selectedCount} 行）` : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {mode === 'replace' && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-3">
+              <input
+                autoFocus
+                className={inputClass}
+                placeholder={options.regex ? '正则表达式' : '查找'}
+                value={options.query}
+                onChange={(e) => updateOptions({ query: e.target.value })}
+              />
+              <input
+                className={inputClass}
+                placeholder={options.regex ? '替换为（可用 $1 引用分组）' : '替换为'}
+                value={options.replacement}
+                onChange={(e) => updateOptions({ replacement: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center gap-6 text-xs text-slate-400">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={options.regex} onChange={(e) => updateOptions({ regex: e.target.checked })} />
+                正则表达式
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={options.caseSensitive} onChange={(e) => updateOptions({ caseSensitive: e.target.checked })} />
+                区分大小写
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer" title="仅对英文单词生效">
+                <input type="checkbox" checked={options.wholeWord} onChange={(e) => updateOptions({ wholeWord: e.target.checked })} />
+                全词匹配
+              </label>
+            </div>
+
+            <div className="max-h-[300px] overflow-y-auto space-y-2 pr-1">
+              {error && <p className="text-xs text-red-400">{error}</p>}
+              {!error && options.query && matches.length === 0 && (
+                <p className="text-xs text-slate-500">没有匹配的文本</p>
+              )}
+              {matches.slice(0, PREVIEW_LIMIT).map(match => (
+                <div key={match.blockId} className="flex items-start gap-2 text-xs">
+                  <span className="text-[10px] font-mono text-slate-600 w-8 shrink-0 text-right">{match.index + 1}</span>
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <p className="text-slate-300 whitespace-pre-wrap">{highlight(match.text, match.ranges)}</p>
+                    <p className="text-indigo-400 whitespace-pre-wrap">→ {match.result}</p>
+                  </div>
+                </div>
+              ))}
+              {matches.length > PREVIEW_LIMIT && (
+                <p className="text-[10px] text-slate-600">另有 {matches.length - PREVIEW_LIMIT} 行未显示</p>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] text-slate-500">
+                {message ?? (matches.length > 0 ? `${matches.length} 行，共 ${matchCount} 处匹配` : '替换可以撤销')}
+              </span>
+              <button onClick={replaceAll} disabled={matches.length === 0} className={actionClass}>
+                全部替换
+              </button>
+            </div>
+          </div>
+        )}
+
+        {mode === 'batch' && transformCounts && (
+          <div className="space-y-6">
+            <section className="space-y-2">
+              <h3 className="text-xs font-bold text-slate-300">文本转换</h3>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(TEXT_TRANSFORMS) as TextTransform[]).map(transform => (
+                  <button
+                    key={transform}
+                    onClick={() => applyTransform(transform)}
+                    disabled={transformCounts[transform] === 0}
+                    className={actionClass}
+                    title={`将修改 ${transformCounts[transform]} 行`}
+                  >
+                    {TEXT_TRANSFORMS[transform].label}（{transformCounts[transform]}）
+                  </button>
+                ))}
+              </div>
+              <p className="text-[10px] text-slate-500">
+                括号中为会被修改的行数。去除标点只处理行首行尾的逗号、句号等，保留问号、感叹号与省略号；简繁转换按常用字对照表逐字替换，对应多个繁体字的简体字（如发、后、里）在简转繁时保持不变。
+              </p>
+            </section>
+
+            <section className="space-y-2">
+              <h3 className="text-xs font-bold text-slate-300">合并与拆分勾选的 {selectedCount} 行</h3>
+              <div className="flex items-center gap-3 text-xs text-slate-400">
+                <button onClick={mergeSelected} disabled={selectedCount < 2} className={actionClass}>
+                  合并为一行
+                </button>
+                连接方式
+                <select className={selectClass} value={separator} onChange={(e) => setSeparator(e.target.value)}>
+                  {SEPARATORS.map(option => (
+                    <option key={option.label} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-center gap-3 text-xs text-slate-400">
+                <button onClick={splitSelected} disabled={selectedCount === 0} className={actionClass}>
+                  按句拆分
+                </button>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={splitOptions.splitOnComma}
+                    onChange={(e) => setSplitOptions({ ...splitOptions, splitOnComma: e.target.checked })}
+                  />
+                  逗号/分号处断句
+                </label>
+                <label className="flex items-center gap-2" title="中文计 1，英文字母与半角符号计 0.5，0 表示不限制">
+                  每行最长
+                  <input
+                    type="number"
+                    min={0}
+                    value={splitOptions.maxLength}
+                    onChange={(e) => setSplitOptions({ ...splitOptions, maxLength: Math.max(0, Number(e.target.value) || 0) })}
+                    className="w-12 bg-slate-950 border border-slate-800 rounded-md px-1 py-0.5 text-[10px] font-mono text-slate-300 outline-none focus:border-indigo-500"
+                  />
+                  字
+                </label>
+              </div>
+              <p className="text-[10px] text-slate-500">
+                合并后保留第一行的分配与角色，其余行原有的分配会被清除；拆分出的第一句保留原来的分配。
+              </p>
+            </section>
+
+            {message && <p className="text-[10px] text-slate-500">{message}</p>}
+          </div>
+        )}
+
+        <button
+          onClick={onClose}
+          className="w-full mt-8 py-3 bg-indigo-600 hover:bg-indigo-500 rounded-xl font-bold transition-all shadow-lg shadow-indigo-500/25 text-white"
+        >
+          完成
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TextToolsDialog;
@@ -0,0 +1,48 @@
+import React, { useState, useEffect } from 'react';
+
+interface TimeInputProps {
+  value: number;
+  disabled?: boolean;
+  title?: string;
+  onCommit: (value: number) => void;
+}
+
+// 以秒为单位的数字输入框，失焦或回车时才提交，Esc 恢复原值
+const TimeInput: React.FC<TimeInputProps> = ({ value, disabled, title, onCommit }) => {
+  const [draft, setDraft] = useState(value.toFixed(2));
+
+  useEffect(() => {
+    setDraft(value.toFixed(2));
+  }, [value]);
+
+  const commit = () => {
+    const parsed = parseFloat(draft);
+    if (isNaN(parsed) || parsed.toFixed(2) === value.toFixed(2)) {
+      setDraft(value.toFixed(2));
+      return;
+    }
+    // 提交的值可能被相邻分段限制，先恢复显示，实际值变化后由 effect 同步
+    setDraft(value.toFixed(2));
+    onCommit(parsed);
+  };
+
+  return (
+    <input
+      type="number"
+      step={0.01}
+      min={0}
+      disabled={disabled}
+      title={title}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') setDraft(value.toFixed(2));
+      }}
+      className="w-20 bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-[10px] font-mono text-slate-300 outline-none focus:border-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+    />
+  );
+};
+
+export default TimeInput;
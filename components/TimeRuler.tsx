@@ -0,0 +1,44 @@
+import React from 'react';
+import { chooseTickInterval, formatRulerLabel } from '../core/timeline';
+
+interface TimeRulerProps {
+  duration: number;
+  // 整条时间轴（含不可见部分）的像素宽度
+  trackWidth: number;
+  visibleStart: number;
+  visibleEnd: number;
+}
+
+// --- 时间刻度 ---
+// 只渲染可见范围内的刻度，放大后的长视频也不会产生大量节点。
+
+const TimeRuler: React.FC<TimeRulerProps> = ({ duration, trackWidth, visibleStart, visibleEnd }) => {
+  if (duration <= 0 || trackWidth <= 0) return <div className="h-5" />;
+
+  const interval = chooseTickInterval(trackWidth / duration);
+  const first = Math.floor(visibleStart / interval);
+  const last = Math.ceil(visibleEnd / interval);
+  const ticks: number[] = [];
+  for (let i = first; i <= last; i++) {
+    const time = i * interval;
+    if (time >= 0 && time <= duration) ticks.push(time);
+  }
+
+  return (
+    <div className="relative h-5 border-b border-slate-800/50 pointer-events-none">
+      {ticks.map(time => (
+        <div
+          key={time}
+          className="absolute bottom-0 h-2 border-l border-slate-700"
+          style={{ left: `${(time / duration) * 100}%` }}
+        >
+          <span className="absolute bottom-full left-1 text-[9px] font-mono text-slate-500 whitespace-nowrap">
+            {formatRulerLabel(time, interval)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TimeRuler;
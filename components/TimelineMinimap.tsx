@@ -0,0 +1,70 @@
+import React, { useRef } from 'react';
+import { VideoSegment } from '../core/subtitle';
+
+interface TimelineMinimapProps {
+  segments: VideoSegment[];
+  duration: number;
+  currentTime: number;
+  visibleStart: number;
+  visibleEnd: number;
+  // 将可视窗口的中心移动到 time
+  onNavigate: (time: number) => void;
+}
+
+// --- 时间轴缩略图 ---
+// 显示整个视频的分段与当前可视窗口，点击或拖动可移动窗口。
+
+const TimelineMinimap: React.FC<TimelineMinimapProps> = ({ segments, duration, currentTime, visibleStart, visibleEnd, onNavigate }) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  const navigateTo = (clientX: number) => {
+    if (!ref.current || duration <= 0) return;
+    const rect = ref.current.getBoundingClientRect();
+    onNavigate(Math.max(0, Math.min(duration, ((clientX - rect.left) / rect.width) * duration)));
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    navigateTo(e.clientX);
+    const handleMouseMove = (ev: MouseEvent) => navigateTo(ev.clientX);
+    const handleMouseUp = () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  if (duration <= 0) return null;
+
+  return (
+    <div
+      ref={ref}
+      className="relative h-4 mt-2 bg-slate-800/30 rounded-md overflow-hidden cursor-pointer"
+      onMouseDown={handleMouseDown}
+    >
+      {segments.map(seg => (
+        <div
+          key={seg.id}
+          className={`absolute top-0 bottom-0 border-r border-slate-700/30 ${seg.textId ? 'bg-indigo-500/15' : ''}`}
+          style={{
+            left: `${(seg.startTime / duration) * 100}%`,
+            width: `${((seg.endTime - seg.startTime) / duration) * 100}%`
+          }}
+        />
+      ))}
+      <div
+        className="absolute top-0 bottom-0 border border-indigo-500 bg-indigo-500/10 rounded pointer-events-none"
+        style={{
+          left: `${(visibleStart / duration) * 100}%`,
+          width: `${((visibleEnd - visibleStart) / duration) * 100}%`
+        }}
+      />
+      <div
+        className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none"
+        style={{ left: `${(currentTime / duration) * 100}%` }}
+      />
+    </div>
+  );
+};
+
+export default TimelineMinimap;
@@ -0,0 +1,95 @@
+import React from 'react';
+import { VideoSegment } from '../core/subtitle';
+import { Speaker } from '../core/speakers';
+
+export interface TimelineSegmentActions {
+  hover: (segmentId: string | null, position: { x: number; y: number } | null) => void;
+  startBoundaryDrag: (index: number, time: number, clientX: number) => void;
+}
+
+interface TimelineSegmentProps {
+  segment: VideoSegment;
+  index: number;
+  isLast: boolean;
+  duration: number;
+  isActive: boolean;
+  isHovered: boolean;
+  isDragging: boolean;
+  text: string | null;
+  speaker: Speaker | null;
+  actions: TimelineSegmentActions;
+}
+
+// --- 时间轴上的一个分段 ---
+
+const TimelineSegment: React.FC<TimelineSegmentProps> = ({
+  segment, index, isLast, duration, isActive, isHovered, isDragging, text, speaker, actions
+}) => {
+  const left = (segment.startTime / duration) * 100;
+  const width = ((segment.endTime - segment.startTime) / duration) * 100;
+
+  return (
+    <div
+      className={`absolute h-full border-r border-slate-700/30 transition-all ${
+        isActive ? 'bg-indigo-500/15' : 'hover:bg-slate-700/20'
+      }`}
+      style={{ left: `${left}%`, width: `${width}%` }}
+      onMouseEnter={(e) => {
+        if (text !== null) {
+          // 获取鼠标位置
+          const rect = e.currentTarget.getBoundingClientRect();
+          actions.hover(segment.id, {
+            x: rect.left,
+            y: rect.top - 10 // 向上偏移一点
+          });
+        }
+      }}
+      onMouseMove={(e) => {
+        if (text !== null && isHovered) {
+          actions.hover(segment.id, {
+            x: e.clientX,
+            y: e.clientY - 10
+          });
+        }
+      }}
+      onMouseLeave={() => actions.hover(null, null)}
+    >
+      {text !== null && (
+        <div className="absolute inset-0 flex items-center justify-center p-2">
+          <div
+            className="text-[10px] text-indigo-400 font-medium truncate opacity-60 hover:opacity-100 transition-opacity"
+            style={speaker ? { color: speaker.color } : undefined}
+            title={text}
+          >
+            {text.slice(0, 20)}
+            {text.length > 20 ? '...' : ''}
+          </div>
+        </div>
+      )}
+
+      {/* 角色颜色条 */}
+      {speaker && (
+        <div className="absolute inset-x-0 bottom-0 h-1 pointer-events-none" style={{ backgroundColor: speaker.color }} title={speaker.name} />
+      )}
+
+      {/* 边界手柄：拖动调整位置，单击合并 */}
+      {!isLast && (
+        <button
+          className={`absolute top-0 right-0 bottom-0 w-2 hover:bg-red-500/50 z-20 transition-all cursor-col-resize group/merge ${
+            isDragging ? 'bg-indigo-500' : 'bg-transparent'
+          }`}
+          title="拖动调整边界，单击合并"
+          onMouseDown={(e) => {
+            e.stopPropagation();
+            e.preventDefault();
+            actions.startBoundaryDrag(index, segment.endTime, e.clientX);
+          }}
+        >
+          <div className="hidden group-hover/merge:flex absolute top-0 -translate-y-full left-1/2 -translate-x-1/2 bg-red-600 text-[8px] px-1 py-0.5 rounded font-bold text-white">合并</div>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default React.memo(TimelineSegment);
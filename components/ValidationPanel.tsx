@@ -0,0 +1,90 @@
+import React from 'react';
+import { ShieldCheck, AlertTriangle, Info, X } from 'lucide-react';
+import { ValidationOptions, ValidationIssue, DEFAULT_VALIDATION_OPTIONS } from '../core/validation';
+import { formatTimeDisplay } from '../core/subtitle';
+
+interface ValidationPanelProps {
+  options: ValidationOptions;
+  onChange: (options: ValidationOptions) => void;
+  issues: ValidationIssue[];
+  onSelect: (issue: ValidationIssue) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-20 bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-xs font-mono text-slate-300 outline-none focus:border-indigo-500";
+
+// --- 字幕检查面板 ---
+// 修改阈值后实时重新检查，点击问题跳转到对应分段或文本行。
+
+const ValidationPanel: React.FC<ValidationPanelProps> = ({ options, onChange, issues, onSelect, onClose }) => {
+  const field = (key: keyof ValidationOptions, label: string, unit: string, step: number) => (
+    <label className="flex items-center gap-2 text-xs text-slate-400">
+      {label}
+      <input
+        type="number"
+        min={0}
+        step={step}
+        className={inputClass}
+        value={options[key]}
+        onChange={(e) => {
+          const value = Number(e.target.value);
+          if (!isNaN(value) && value >= 0) onChange({ ...options, [key]: value });
+        }}
+      />
+      <span className="text-slate-600">{unit}</span>
+    </label>
+  );
+
+  const warningCount = issues.filter(issue => issue.severity === 'warning').length;
+
+  return (
+    <div className="mb-4 p-4 bg-slate-900 rounded-2xl border border-slate-800 animate-in fade-in duration-200">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-xs font-bold flex items-center gap-2 text-slate-300">
+          <ShieldCheck className="w-3.5 h-3.5 text-indigo-400" />
+          字幕检查
+          <span className="text-[10px] font-normal text-slate-500">
+            {warningCount} 个警告 · {issues.length - warningCount} 个提示
+          </span>
+        </h4>
+        <button onClick={onClose} className="p-1 hover:bg-slate-800 rounded-md text-slate-500 hover:text-white transition-colors bg-transparent">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <div className="flex items-center gap-6">
+        {field('maxCharsPerSecond', '每秒字数', '字', 0.5)}
+        {field('maxLineLength', '单行字数', '字', 1)}
+        {field('minDuration', '最短', '秒', 0.1)}
+        {field('maxDuration', '最长', '秒', 0.5)}
+        <button
+          onClick={() => onChange(DEFAULT_VALIDATION_OPTIONS)}
+          className="text-[10px] text-slate-500 hover:text-white transition-colors bg-transparent"
+        >
+          恢复默认
+        </button>
+      </div>
+      <div className="mt-3 max-h-[200px] overflow-y-auto space-y-1 pr-1">
+        {issues.length === 0 && (
+          <div className="text-center py-6 text-xs text-slate-600 italic">没有发现问题</div>
+        )}
+        {issues.map(issue => (
+          <button
+            key={issue.id}
+            onClick={() => onSelect(issue)}
+            className="w-full flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs text-left transition-colors bg-transparent text-slate-300 hover:bg-slate-800"
+          >
+            {issue.severity === 'warning'
+              ? <AlertTriangle className="w-3.5 h-3.5 text-amber-400 shrink-0" />
+              : <Info className="w-3.5 h-3.5 text-slate-500 shrink-0" />}
+            <span className="flex-1 truncate">{issue.message}</span>
+            {issue.time !== undefined && (
+              <span className="text-[10px] font-mono text-slate-600 shrink-0">{formatTimeDisplay(issue.time)}</span>
+            )}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ValidationPanel;
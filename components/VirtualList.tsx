@@ -0,0 +1,119 @@
+import React, { useState, useRef, useLayoutEffect } from 'react';
+
+export interface VirtualListHandle {
+  scrollToIndex: (index: number) => void;
+}
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  // 尚未测量的项按此高度（像素，含间距）估算
+  estimateSize: number;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  className?: string;
+  // 每一项外层的类名，项之间的间距用 padding 实现，以便计入测量高度
+  itemClassName?: string;
+  // 可视区域上下额外渲染的项数
+  overscan?: number;
+  controlRef?: React.MutableRefObject<VirtualListHandle | null>;
+}
+
+// 最后一个起始位置不大于 target 的项
+const findIndexAt = (offsets: number[], target: number): number => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] <= target) low = mid;
+    else high = mid - 1;
+  }
+  return Math.max(0, low);
+};
+
+// --- 虚拟列表 ---
+// 只渲染可视区域附近的项，其余部分用上下留白占位。项的高度可以不同：
+// 渲染后逐项测量并按 key 缓存，排序或增删后已测量的项仍然有效。
+
+const VirtualList = <T,>({
+  items, getKey, estimateSize, renderItem, className, itemClassName, overscan = 6, controlRef
+}: VirtualListProps<T>) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const sizesRef = useRef(new Map<string, number>());
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+  const [, setMeasureVersion] = useState(0);
+
+  const offsets = new Array<number>(items.length + 1);
+  offsets[0] = 0;
+  items.forEach((item, i) => {
+    offsets[i + 1] = offsets[i] + (sizesRef.current.get(getKey(item)) ?? estimateSize);
+  });
+  const totalHeight = offsets[items.length];
+
+  const visibleStart = items.length > 0 ? findIndexAt(offsets, viewport.scrollTop) : 0;
+  const visibleEnd = items.length > 0 ? findIndexAt(offsets, viewport.scrollTop + viewport.height) + 1 : 0;
+  const start = Math.max(0, visibleStart - overscan);
+  const end = Math.min(items.length, visibleEnd + overscan);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const update = () => setViewport({ scrollTop: container.scrollTop, height: container.clientHeight });
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // 每次渲染后测量已渲染的项，高度与缓存不同时再渲染一次以修正占位
+  useLayoutEffect(() => {
+    const content = contentRef.current;
+    if (!content) return;
+    let changed = false;
+    Array.from(content.children).forEach(child => {
+      const key = (child as HTMLElement).dataset.key;
+      if (!key) return;
+      const height = (child as HTMLElement).offsetHeight;
+      if (sizesRef.current.get(key) !== height) {
+        sizesRef.current.set(key, height);
+        changed = true;
+      }
+    });
+    if (changed) setMeasureVersion(v => v + 1);
+  });
+
+  if (controlRef) {
+    controlRef.current = {
+      scrollToIndex: (index: number) => {
+        const container = containerRef.current;
+        if (!container || index < 0 || index >= items.length) return;
+        const size = offsets[index + 1] - offsets[index];
+        container.scrollTo({ top: offsets[index] - (container.clientHeight - size) / 2, behavior: 'smooth' });
+      }
+    };
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className={className}
+      onScroll={(e) => setViewport({ scrollTop: e.currentTarget.scrollTop, height: e.currentTarget.clientHeight })}
+    >
+      <div
+        ref={contentRef}
+        style={{ paddingTop: offsets[start], paddingBottom: totalHeight - offsets[end] }}
+      >
+        {items.slice(start, end).map((item, i) => {
+          const key = getKey(item);
+          return (
+            <div key={key} data-key={key} className={itemClassName}>
+              {renderItem(item, start + i)}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VirtualList;
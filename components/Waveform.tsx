@@ -0,0 +1,61 @@
+import React, { useRef, useEffect, useState } from 'react';
+
+interface WaveformProps {
+  peaks: Float32Array;
+  // 可见范围在整个视频中的比例，时间轴放大后只绘制这一部分
+  startRatio?: number;
+  endRatio?: number;
+  color?: string;
+}
+
+// --- 时间轴波形 ---
+// 峰值均匀覆盖整个视频，每个像素列取对应区间内的最大峰值绘制。
+
+const Waveform: React.FC<WaveformProps> = ({ peaks, startRatio = 0, endRatio = 1, color = 'rgba(129, 140, 248, 0.35)' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || size.width === 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    const width = Math.floor(size.width * ratio);
+    const height = Math.floor(size.height * ratio);
+    canvas.width = width;
+    canvas.height = height;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, width, height);
+    ctx.fillStyle = color;
+
+    const mid = height / 2;
+    const offset = startRatio * peaks.length;
+    const perPixel = ((endRatio - startRatio) * peaks.length) / width;
+    for (let x = 0; x < width; x++) {
+      const start = Math.floor(offset + x * perPixel);
+      const end = Math.max(start + 1, Math.floor(offset + (x + 1) * perPixel));
+      let max = 0;
+      for (let i = start; i < end && i < peaks.length; i++) {
+        if (peaks[i] > max) max = peaks[i];
+      }
+      const h = Math.max(1, max * height * 0.9);
+      ctx.fillRect(x, mid - h / 2, 1, h);
+    }
+  }, [peaks, size, startRatio, endRatio, color]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />;
+};
+
+export default Waveform;
@@ -0,0 +1,170 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { MicVocal, Play, Square, X } from 'lucide-react';
+import { VideoSegment, WordTiming, formatTimeDisplay } from '../core/subtitle';
+import { getWordTimings, hasWordTimings, distributeWordTimings, splitWords, findActiveWord } from '../core/karaoke';
+
+interface WordTimingEditorProps {
+  segment: VideoSegment;
+  text: string;
+  currentTime: number;
+  // 播放中读取视频元素的实时位置，打点比 currentTime 状态更准确
+  getTime: () => number;
+  onPlayFrom: (time: number) => void;
+  onPause: () => void;
+  // words 为 null 表示恢复平均分配
+  onSave: (words: WordTiming[] | null) => void;
+  onClose: () => void;
+}
+
+// --- 逐字时间编辑 ---
+// 从分段开头播放，每个字（词）开始时按一次空格或 Enter，依次记录它们的时间。
+
+const WordTimingEditor: React.FC<WordTimingEditorProps> = ({
+  segment, text, currentTime, getTime, onPlayFrom, onPause, onSave, onClose
+}) => {
+  const length = segment.endTime - segment.startTime;
+  const [words, setWords] = useState<WordTiming[]>(() => getWordTimings(segment, text));
+  // 未打点或点了“平均分配”时保存为 null，文本修改后仍会自动重新分配
+  const [isDefault, setIsDefault] = useState(() => !hasWordTimings(segment, text));
+  // 下一个待打点的词，null 表示未在打点
+  const [tapIndex, setTapIndex] = useState<number | null>(null);
+
+  const offset = currentTime - segment.startTime;
+  const activeIndex = offset >= 0 && offset <= length ? findActiveWord(words, offset) : -1;
+
+  const startTapping = () => {
+    setTapIndex(0);
+    setIsDefault(false);
+    onPlayFrom(segment.startTime);
+  };
+
+  const stopTapping = () => {
+    setTapIndex(null);
+    onPause();
+  };
+
+  const markWord = (index: number) => {
+    const time = Math.min(Math.max(0, getTime() - segment.startTime), length);
+    setWords(prev => prev.map((word, i) => {
+      if (i < index) return word;
+      // 打点只会向后推，之后尚未打点的词不早于当前词
+      return i === index ? { ...word, offset: Math.max(time, prev[i - 1]?.offset ?? 0) } : { ...word, offset: Math.max(word.offset, time) };
+    }));
+    if (index >= words.length - 1) stopTapping();
+    else setTapIndex(index + 1);
+  };
+
+  // 打点期间拦截空格 / Enter / Esc，避免触发全局快捷键
+  const tapRef = useRef({ tapIndex, markWord, stopTapping, onClose });
+  tapRef.current = { tapIndex, markWord, stopTapping, onClose };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const { tapIndex, markWord, stopTapping, onClose } = tapRef.current;
+      if (e.code === 'Escape') {
+        e.preventDefault();
+        e.stopPropagation();
+        if (tapIndex !== null) stopTapping();
+        else onClose();
+        return;
+      }
+      if (tapIndex === null || e.repeat) return;
+      if (e.code === 'Space' || e.code === 'Enter' || e.code === 'NumpadEnter') {
+        e.preventDefault();
+        e.stopPropagation();
+        markWord(tapIndex);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, []);
+
+  const resetToEven = () => {
+    setTapIndex(null);
+    setWords(distributeWordTimings(splitWords(text), length));
+    setIsDefault(true);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-black/80 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-800 rounded-3xl p-8 max-w-2xl w-full shadow-2xl animate-in fade-in zoom-in duration-200">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold flex items-center gap-3">
+            <MicVocal className="text-indigo-500" />
+            逐字时间
+            <span className="text-xs font-mono text-slate-500">
+              {formatTimeDisplay(segment.startTime)} – {formatTimeDisplay(segment.endTime)}
+            </span>
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-full transition-colors bg-transparent text-slate-100">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          <div className="flex flex-wrap gap-2 p-4 bg-slate-950 rounded-2xl border border-slate-800">
+            {words.map((word, i) => (
+              <button
+                key={i}
+                onClick={() => onPlayFrom(segment.startTime + word.offset)}
+                className={`flex flex-col items-center px-2 py-1 rounded-lg border transition-colors ${
+                  i === tapIndex
+                    ? 'border-indigo-500 bg-indigo-600/20 text-white'
+                    : i === activeIndex
+                      ? 'border-slate-800 bg-indigo-600 text-white'
+                      : 'border-slate-800 bg-slate-900 text-slate-300 hover:text-white'
+                }`}
+                title="从这个字开始播放"
+              >
+                <span className="text-lg whitespace-pre">{word.text.trim() || word.text}</span>
+                <span className="text-[10px] font-mono text-slate-500">{word.offset.toFixed(2)}</span>
+              </button>
+            ))}
+          </div>
+
+          <p className="text-sm text-slate-400">
+            {tapIndex !== null
+              ? `正在打点：第 ${tapIndex + 1} / ${words.length} 个字开始时按空格或 Enter，Esc 停止。`
+              : isDefault
+                ? '当前为按字数平均分配的时间。点击开始打点，视频会从分段开头播放。'
+                : '时间相对于分段开始（秒）。点击任意字可从该处播放检查。'}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-3 mt-8">
+          {tapIndex === null ? (
+            <button
+              onClick={startTapping}
+              className="flex items-center gap-2 px-4 py-3 bg-slate-800 hover:bg-slate-700 rounded-xl text-sm font-medium text-white transition-colors"
+            >
+              <Play className="w-4 h-4" />
+              开始打点
+            </button>
+          ) : (
+            <button
+              onClick={stopTapping}
+              className="flex items-center gap-2 px-4 py-3 bg-slate-800 hover:bg-slate-700 rounded-xl text-sm font-medium text-white transition-colors"
+            >
+              <Square className="w-4 h-4" />
+              停止
+            </button>
+          )}
+          <button
+            onClick={resetToEven}
+            className="px-4 py-3 text-sm text-slate-400 hover:text-white transition-colors bg-transparent"
+          >
+            平均分配
+          </button>
+          <button
+            onClick={() => onSave(isDefault ? null : words)}
+            className="flex-1 py-3 bg-indigo-600 hover:bg-indigo-500 rounded-xl font-bold transition-all shadow-lg shadow-indigo-500/25 text-white"
+          >
+            保存
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WordTimingEditor;
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { parseASS, serializeASS, stripAssText, toAssColor, formatAssTime, DEFAULT_ASS_STYLE, AssExportOptions } from './ass';
+import { VideoSegment, TextBlock } from './subtitle';
+
+const blocks: TextBlock[] = [
+  { id: 'a', text: '第一行\n第二行', speakerId: 'p1' },
+  { id: 'b', text: 'a, b, c' }
+];
+
+const segments: VideoSegment[] = [
+  { id: 's1', startTime: 1, endTime: 2.5, textId: 'a' },
+  { id: 's2', startTime: 2.5, endTime: 3, textId: null },
+  { id: 's3', startTime: 3, endTime: 3661.07, textId: 'b' }
+];
+
+const options: AssExportOptions = {
+  includeEmpty: false,
+  style: DEFAULT_ASS_STYLE,
+  title: 'Test',
+  playResX: 1920,
+  playResY: 1080
+};
+
+describe('ASS 辅助函数', () => {
+  it('颜色转为 &HAABBGGRR', () => {
+    expect(toAssColor('#ff8000')).toBe('&H000080FF');
+    expect(toAssColor('not a color')).toBe('&H00FFFFFF');
+  });
+
+  it('时间格式为 h:mm:ss.cc', () => {
+    expect(formatAssTime(3661.07)).toBe('1:01:01.07');
+    expect(formatAssTime(-2)).toBe('0:00:00.00');
+  });
+
+  it('去掉覆盖标签并转换换行与硬空格', () => {
+    expect(stripAssText('{\\b1}粗体{\\b0}\\N下一行\\hA')).toBe('粗体\n下一行 A');
+  });
+});
+
+describe('serializeASS', () => {
+  it('写出样式与对话行，多行文本转为 \\N', () => {
+    const text = serializeASS(segments, blocks, options);
+    expect(text).toContain('Title: Test');
+    expect(text).toContain('PlayResX: 1920');
+    expect(text).toContain('Style: Default,Microsoft YaHei,60,');
+    expect(text).toContain('Dialogue: 0,0:00:01.00,0:00:02.50,Default,,0,0,0,,第一行\\N第二行');
+    expect(text).not.toContain('0:00:02.50,0:00:03.00');
+  });
+
+  it('转义文本中的反斜杠与花括号，解析后还原', () => {
+    const literal: TextBlock[] = [{ id: 'a', text: '{注释} C:\\N\\路径' }];
+    const single: VideoSegment[] = [{ id: 's', startTime: 0, endTime: 1, textId: 'a' }];
+    const text = serializeASS(single, literal, options);
+    expect(text).toContain(',,\\{注释\\} C:\\\\N\\\\路径\n');
+    expect(parseASS(text)).toEqual([{ startTime: 0, endTime: 1, text: '{注释} C:\\N\\路径' }]);
+  });
+
+  it('角色名写入 Name 字段并去掉逗号', () => {
+    const text = serializeASS(segments, blocks, { ...options, actors: [{ id: 'p1', name: '甲,乙', color: '#fff' }] });
+    expect(text).toContain(',Default,甲 乙,0,0,0,,第一行');
+  });
+});
+
+describe('parseASS', () => {
+  it('按 Format 行解析字段，文本中可以包含逗号', () => {
+    const text = [
+      '[Script Info]',
+      'Title: x',
+      '',
+      '[Events]',
+      'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+      'Comment: 0,0:00:00.00,0:00:01.00,Default,,0,0,0,,注释',
+      'Dialogue: 0,0:00:01.00,0:00:02.50,Default,,0,0,0,,{\\i1}你好{\\i0}，世界, again'
+    ].join('\n');
+    expect(parseASS(text)).toEqual([{ startTime: 1, endTime: 2.5, text: '你好，世界, again' }]);
+  });
+
+  it('支持字段顺序不同的 Format 行', () => {
+    const text = '[Events]\nFormat: Start, End, Text\nDialogue: 0:00:05.00,0:00:06.00,x';
+    expect(parseASS(text)).toEqual([{ startTime: 5, endTime: 6, text: 'x' }]);
+  });
+
+  it('忽略 Events 之外的行与时间无效的行', () => {
+    const text = '[V4+ Styles]\nDialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,不是事件\n[Events]\nDialogue: 0,bad,0:00:02.00,Default,,0,0,0,,x';
+    expect(parseASS(text)).toEqual([]);
+  });
+
+  it('导出后再解析得到相同的字幕', () => {
+    expect(parseASS(serializeASS(segments, blocks, options))).toEqual([
+      { startTime: 1, endTime: 2.5, text: '第一行\n第二行' },
+      { startTime: 3, endTime: 3661.07, text: 'a, b, c' }
+    ]);
+  });
+});
@@ -0,0 +1,178 @@
+import { VideoSegment, TextBlock, SubtitleCue, parseTimestamp, getSegmentText } from './subtitle';
+import { Speaker, getSegmentSpeaker } from './speakers';
+
+// --- Advanced SubStation Alpha (.ass / .ssa) ---
+
+// SSA 与 ASS 的默认事件字段，文件中没有 Format 行时使用
+const DEFAULT_EVENT_FORMAT = ['layer', 'start', 'end', 'style', 'name', 'marginl', 'marginr', 'marginv', 'effect', 'text'];
+
+// 去掉 {\b1} 等覆盖标签，并把 \N、\n、\h 转为普通字符，\{、\}、\\ 还原为字面的括号与反斜杠
+const ASS_TEXT_TOKEN = /\\[\\{}]|\\[Nn]|\\h|\{[^}]*\}/g;
+
+export const stripAssText = (text: string): string =>
+  text
+    .replace(ASS_TEXT_TOKEN, token => {
+      if (token.startsWith('{')) return '';
+      if (token === '\\h') return ' ';
+      if (token === '\\N' || token === '\\n') return '\n';
+      return token[1];
+    })
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line)
+    .join('\n');
+
+export const parseASS = (text: string): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  let section = '';
+  let format = DEFAULT_EVENT_FORMAT;
+
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    const sectionMatch = line.match(/^\[(.+)\]$/);
+    if (sectionMatch) {
+      section = sectionMatch[1].toLowerCase();
+      return;
+    }
+    if (section !== 'events') return;
+
+    const colon = line.indexOf(':');
+    if (colon === -1) return;
+    const kind = line.slice(0, colon).trim().toLowerCase();
+    const body = line.slice(colon + 1).trim();
+
+    if (kind === 'format') {
+      format = body.split(',').map(field => field.trim().toLowerCase());
+      return;
+    }
+    if (kind !== 'dialogue') return;
+
+    // Text 是最后一个字段，其中可能包含逗号
+    const fields = body.split(',');
+    const values = [...fields.slice(0, format.length - 1), fields.slice(format.length - 1).join(',')];
+    const field = (name: string) => values[format.indexOf(name)] ?? '';
+
+    const startTime = parseTimestamp(field('start'));
+    const endTime = parseTimestamp(field('end'));
+    if (startTime === null || endTime === null) return;
+
+    cues.push({ startTime, endTime, text: stripAssText(field('text')) });
+  });
+
+  return cues;
+};
+
+// --- 导出 ---
+
+// 颜色使用 #RRGGBB 保存，方便与 <input type="color"> 绑定，导出时再转为 ASS 的 &HAABBGGRR
+export interface AssStyle {
+  fontName: string;
+  fontSize: number;
+  primaryColor: string;
+  outlineColor: string;
+  backColor: string;
+  bold: boolean;
+  outline: number;
+  shadow: number;
+  // 小键盘布局：1-3 底部，4-6 中部，7-9 顶部
+  alignment: number;
+  marginL: number;
+  marginR: number;
+  marginV: number;
+}
+
+export const DEFAULT_ASS_STYLE: AssStyle = {
+  fontName: 'Microsoft YaHei',
+  fontSize: 60,
+  primaryColor: '#ffffff',
+  outlineColor: '#000000',
+  backColor: '#000000',
+  bold: false,
+  outline: 3,
+  shadow: 0,
+  alignment: 2,
+  marginL: 40,
+  marginR: 40,
+  marginV: 50
+};
+
+export interface AssExportOptions {
+  includeEmpty: boolean;
+  style: AssStyle;
+  title: string;
+  playResX: number;
+  playResY: number;
+  // 提供角色表时，角色名写入 Dialogue 的 Name 字段
+  actors?: Speaker[];
+}
+
+export const toAssColor = (hex: string): string => {
+  const match = hex.match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!match) return '&H00FFFFFF';
+  const [, r, g, b] = match;
+  return `&H00${b}${g}${r}`.toUpperCase();
+};
+
+export const formatAssTime = (seconds: number): string => {
+  const total = Math.max(0, Math.round(seconds * 100));
+  const h = Math.floor(total / 360000);
+  const m = Math.floor((total % 360000) / 6000);
+  const s = Math.floor((total % 6000) / 100);
+  const cs = total % 100;
+  return `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}.${cs.toString().padStart(2, '0')}`;
+};
+
+// 字面的 \ 与 { } 会被当作转义或覆盖标签，需要转义；多行文本转为 ASS 的硬换行 \N
+const toAssText = (text: string): string =>
+  text.replace(/[\\{}]/g, '\\$&').replace(/\r?\n/g, '\\N');
+
+export const serializeASS = (segments: VideoSegment[], blocks: TextBlock[], options: AssExportOptions): string => {
+  const { style } = options;
+  const styleLine = [
+    'Default',
+    style.fontName,
+    style.fontSize,
+    toAssColor(style.primaryColor),
+    toAssColor(style.primaryColor),
+    toAssColor(style.outlineColor),
+    toAssColor(style.backColor),
+    style.bold ? -1 : 0,
+    0, 0, 0,
+    100, 100, 0, 0,
+    1,
+    style.outline,
+    style.shadow,
+    style.alignment,
+    style.marginL,
+    style.marginR,
+    style.marginV,
+    1
+  ].join(',');
+
+  const events = segments
+    .filter(s => options.includeEmpty || s.textId)
+    .map(s => {
+      // Name 字段以逗号分隔，角色名中的逗号需要去掉
+      const actor = options.actors ? getSegmentSpeaker(s, blocks, options.actors)?.name.replace(/,/g, ' ') ?? '' : '';
+      return `Dialogue: 0,${formatAssTime(s.startTime)},${formatAssTime(s.endTime)},Default,${actor},0,0,0,,${toAssText(getSegmentText(s, blocks))}`;
+    });
+
+  return [
+    '[Script Info]',
+    `Title: ${options.title}`,
+    'ScriptType: v4.00+',
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    `PlayResX: ${options.playResX}`,
+    `PlayResY: ${options.playResY}`,
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    `Style: ${styleLine}`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events,
+    ''
+  ].join('\n');
+};
@@ -0,0 +1,37 @@
+// --- 本地音频解码 ---
+
+// 波形与静音检测都不需要高采样率，解码时直接重采样以控制内存占用
+export const ANALYSIS_SAMPLE_RATE = 8000;
+
+export interface DecodedAudio {
+  // 单声道采样
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+// decodeAudioData 需要把整个文件读入内存，超过该大小的视频不做分析
+export const MAX_DECODE_BYTES = 1024 * 1024 * 1024;
+
+// 从视频的 blob URL 读取并解码音轨，不会访问网络。文件超过 MAX_DECODE_BYTES 时返回 null
+export const decodeAudioFromUrl = async (url: string): Promise<DecodedAudio | null> => {
+  const response = await fetch(url);
+  // blob 只引用已选择的文件，读取 size 不会加载内容
+  const blob = await response.blob();
+  if (blob.size > MAX_DECODE_BYTES) return null;
+  const data = await blob.arrayBuffer();
+  const context = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+  const buffer = await context.decodeAudioData(data);
+  return { samples: mixToMono(buffer), sampleRate: buffer.sampleRate };
+};
+
+export const mixToMono = (buffer: AudioBuffer): Float32Array => {
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0).slice();
+
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const channel = buffer.getChannelData(c);
+    for (let i = 0; i < channel.length; i++) mono[i] += channel[i];
+  }
+  for (let i = 0; i < mono.length; i++) mono[i] /= buffer.numberOfChannels;
+  return mono;
+};
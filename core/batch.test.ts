@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { trimPunctuation, toHalfWidth, toFullWidth, transformBlocks, mergeBlocks, splitBlocks } from './batch';
+import { TextBlock } from './subtitle';
+
+describe('文本转换', () => {
+  it('去除首尾的逗号句号，保留问号、感叹号与省略号', () => {
+    expect(trimPunctuation('，你好。')).toBe('你好');
+    expect(trimPunctuation(' Hello, ')).toBe('Hello');
+    expect(trimPunctuation('真的吗？')).toBe('真的吗？');
+    expect(trimPunctuation('Wait...')).toBe('Wait...');
+  });
+
+  it('全角半角互转', () => {
+    expect(toHalfWidth('ＡＢＣ　１２３！')).toBe('ABC 123!');
+    expect(toFullWidth('AB 1!')).toBe('ＡＢ　１！');
+    expect(toHalfWidth(toFullWidth('Hello, world'))).toBe('Hello, world');
+  });
+
+  it('只处理范围内的行并统计修改的行数', () => {
+    const blocks: TextBlock[] = [{ id: 'a', text: '好。' }, { id: 'b', text: '好。' }, { id: 'c', text: '好' }];
+    const result = transformBlocks(blocks, new Set(['a', 'c']), 'trimPunctuation');
+    expect(result.changed).toBe(1);
+    expect(result.blocks.map(b => b.text)).toEqual(['好', '好。', '好']);
+    expect(result.blocks[2]).toBe(blocks[2]);
+  });
+});
+
+describe('合并与拆分', () => {
+  const blocks: TextBlock[] = [
+    { id: 'a', text: '第一句。', speakerId: 'p1' },
+    { id: 'b', text: '第二句。' },
+    { id: 'c', text: '第三句，还有。' }
+  ];
+
+  it('合并到第一行的位置并保留它的 id 与角色', () => {
+    const result = mergeBlocks(blocks, new Set(['c', 'a']), '');
+    expect(result.blocks).toEqual([
+      { id: 'a', text: '第一句。第三句，还有。', speakerId: 'p1' },
+      { id: 'b', text: '第二句。' }
+    ]);
+    expect(result.removedIds).toEqual(['c']);
+  });
+
+  it('少于两行时不合并', () => {
+    expect(mergeBlocks(blocks, new Set(['a']), ' ')).toEqual({ blocks, removedIds: [] });
+  });
+
+  it('按句拆分，第一句保留原来的 id，新行沿用角色', () => {
+    const merged = [{ id: 'a', text: '一。二。', speakerId: 'p1' }, blocks[1]];
+    const result = splitBlocks(merged, new Set(['a']), { splitOnComma: false, maxLength: 0 });
+    expect(result.added).toBe(1);
+    expect([...result.splitIds]).toEqual(['a']);
+    expect(result.blocks[0]).toEqual({ id: 'a', text: '一。', speakerId: 'p1' });
+    expect(result.blocks[1]).toMatchObject({ text: '二。', speakerId: 'p1' });
+    expect(result.blocks[2]).toBe(blocks[1]);
+  });
+
+  it('无法拆分时返回原数组', () => {
+    expect(splitBlocks(blocks, new Set(['b']), { splitOnComma: false, maxLength: 0 }).blocks).toBe(blocks);
+  });
+});
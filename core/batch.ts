@@ -0,0 +1,98 @@
+import { TextBlock, createTextBlocks } from './subtitle';
+import { SentenceOptions, splitIntoSentences } from './sentences';
+import { toSimplified, toTraditional } from './chinese';
+
+// --- 文本批量处理 ---
+
+// 行首行尾要去掉的标点。问号、感叹号、省略号与引号带有语气，保留
+const TRIMMABLE = '，。、；：,.;:';
+
+export const trimPunctuation = (text: string): string => {
+  let start = 0;
+  let end = text.length;
+  while (start < end && (TRIMMABLE.includes(text[start]) || /\s/.test(text[start]))) start++;
+  while (end > start && (TRIMMABLE.includes(text[end - 1]) || /\s/.test(text[end - 1]))) {
+    // 英文省略号 ... 保留
+    if (text[end - 1] === '.' && text[end - 2] === '.') break;
+    end--;
+  }
+  return text.slice(start, end);
+};
+
+// 全角字母、数字、符号（U+FF01 至 U+FF5E）与半角 ASCII 相差 0xFEE0，全角空格单独处理
+export const toHalfWidth = (text: string): string =>
+  text.replace(/[！-～　]/g, char =>
+    char === '　' ? ' ' : String.fromCharCode(char.charCodeAt(0) - 0xFEE0)
+  );
+
+export const toFullWidth = (text: string): string =>
+  text.replace(/[\x21-\x7E ]/g, char =>
+    char === ' ' ? '　' : String.fromCharCode(char.charCodeAt(0) + 0xFEE0)
+  );
+
+export type TextTransform = 'trimPunctuation' | 'toHalfWidth' | 'toFullWidth' | 'toSimplified' | 'toTraditional';
+
+export const TEXT_TRANSFORMS: Record<TextTransform, { label: string; apply: (text: string) => string }> = {
+  trimPunctuation: { label: '去除首尾标点', apply: trimPunctuation },
+  toHalfWidth: { label: '全角转半角', apply: toHalfWidth },
+  toFullWidth: { label: '半角转全角', apply: toFullWidth },
+  toSimplified: { label: '繁体转简体', apply: toSimplified },
+  toTraditional: { label: '简体转繁体', apply: toTraditional }
+};
+
+export const transformBlocks = (
+  blocks: TextBlock[],
+  scopeIds: Set<string>,
+  transform: TextTransform
+): { blocks: TextBlock[]; changed: number } => {
+  const { apply } = TEXT_TRANSFORMS[transform];
+  let changed = 0;
+  const result = blocks.map(b => {
+    if (!scopeIds.has(b.id)) return b;
+    const text = apply(b.text);
+    if (text === b.text) return b;
+    changed++;
+    return { ...b, text };
+  });
+  return { blocks: changed > 0 ? result : blocks, changed };
+};
+
+// --- 合并与拆分 ---
+
+// 选中的多行合并到第一行的位置，保留第一行的 id（以及它的分段分配与角色）。
+// 返回被合并掉的行 id，调用方需要取消它们的分配
+export const mergeBlocks = (
+  blocks: TextBlock[],
+  ids: Set<string>,
+  separator: string
+): { blocks: TextBlock[]; removedIds: string[] } => {
+  const selected = blocks.filter(b => ids.has(b.id));
+  if (selected.length < 2) return { blocks, removedIds: [] };
+  const [first, ...rest] = selected;
+  const merged = { ...first, text: selected.map(b => b.text).join(separator) };
+  return {
+    blocks: blocks.filter(b => !rest.includes(b)).map(b => b === first ? merged : b),
+    removedIds: rest.map(b => b.id)
+  };
+};
+
+// 按分句规则拆分选中的行，第一句保留原来的 id，其余作为新行插入在后面并沿用角色。
+// splitIds 为被拆分（文本已改为第一句）的行 id
+export const splitBlocks = (
+  blocks: TextBlock[],
+  ids: Set<string>,
+  options: SentenceOptions
+): { blocks: TextBlock[]; added: number; splitIds: Set<string> } => {
+  let added = 0;
+  const splitIds = new Set<string>();
+  const result = blocks.flatMap(b => {
+    if (!ids.has(b.id)) return [b];
+    const [head, ...tail] = splitIntoSentences(b.text, options);
+    if (!head || tail.length === 0) return [b];
+    added += tail.length;
+    splitIds.add(b.id);
+    const extra = createTextBlocks(tail).map(block => b.speakerId ? { ...block, speakerId: b.speakerId } : block);
+    return [{ ...b, text: head }, ...extra];
+  });
+  return { blocks: added > 0 ? result : blocks, added, splitIds };
+};
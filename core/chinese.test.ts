@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { toSimplified, toTraditional } from './chinese';
+
+describe('简繁转换', () => {
+  it('一对一的字双向转换', () => {
+    expect(toTraditional('爱国电视')).toBe('愛國電視');
+    expect(toSimplified('愛國電視')).toBe('爱国电视');
+  });
+
+  it('对应多个繁体字的简体字在简转繁中保持不变', () => {
+    expect(toTraditional('皇后')).toBe('皇后');
+    expect(toTraditional('公里')).toBe('公里');
+    expect(toTraditional('北斗')).toBe('北斗');
+    expect(toTraditional('头发')).toBe('頭发');
+    expect(toTraditional('钟表')).toBe('钟表');
+    expect(toTraditional('于是范围复杂')).toBe('于是范圍复雜');
+  });
+
+  it('繁转简时一对多的字统一收拢', () => {
+    expect(toSimplified('頭髮 發現 後來 裡面 裏面 鐘錶 鍾情')).toBe('头发 发现 后来 里面 里面 钟錶 钟情');
+    expect(toSimplified('複雜 恢復 曆法 歷史 收穫 獲得')).toBe('复杂 恢复 历法 历史 收获 获得');
+  });
+
+  it('繁转简保留在简体中同样使用的字', () => {
+    expect(toSimplified('著作')).toBe('著作');
+  });
+
+  it('不在对照表中的字原样保留', () => {
+    expect(toTraditional('abc 123，。')).toBe('abc 123，。');
+  });
+});
@@ -0,0 +1,53 @@
+// --- 简繁字形对照 ---
+// 本地的常用字对照表，逐字替换，不处理词语级别的差异（如“头发/頭髮”）。
+// 对应多个繁体字的简体字（发/發/髮、干/乾/幹、钟/鐘/鍾 等），以及本身在繁体中也通用的字（皇后、公里、北斗），
+// 都不在简转繁中转换，以免改错；繁转简时统一收拢。
+
+// 每两个字为一组：简体在前，繁体在后
+const PAIRS =
+  '爱愛罢罷备備贝貝笔筆边邊变變宾賓补補仓倉产產长長场場车車陈陳称稱惩懲迟遲齿齒处處础礎传傳疮瘡创創辞辭从從聪聰达達带帶单單担擔胆膽' +
+  '导導岛島灯燈邓鄧敌敵递遞点點电電垫墊调調叠疊东東动動冻凍独獨读讀断斷对對队隊吨噸夺奪儿兒尔爾饭飯访訪飞飛费費风風凤鳳妇婦该該盖蓋' +
+  '赶趕刚剛钢鋼纲綱个個给給巩鞏沟溝构構购購顾顧关關观觀馆館广廣归歸龟龜贵貴国國过過汉漢号號护護华華画畫话話欢歡环環还還换換唤喚会會' +
+  '绘繪货貨祸禍机機鸡雞积積级級极極纪紀记記际際继繼价價驾駕坚堅间間简簡见見剑劍将將讲講奖獎酱醬胶膠阶階节節结結洁潔紧緊进進仅僅惊驚' +
+  '经經镜鏡旧舊举舉剧劇军軍开開凯凱课課块塊宽寬亏虧扩擴来來兰蘭蓝藍栏欄烂爛劳勞乐樂类類泪淚离離礼禮丽麗厉厲励勵连連联聯恋戀脸臉练練' +
+  '粮糧两兩辆輛疗療辽遼灵靈领領刘劉龙龍楼樓录錄陆陸虑慮乱亂论論罗羅马馬吗嗎买買卖賣麦麥满滿猫貓门門们們梦夢庙廟灭滅鸣鳴亩畝难難脑腦' +
+  '闹鬧鸟鳥农農浓濃欧歐盘盤赔賠喷噴凭憑评評扑撲齐齊气氣迁遷钱錢枪槍墙牆强強桥橋亲親轻輕庆慶穷窮区區驱驅权權劝勸确確让讓热熱认認荣榮' +
+  '软軟锐銳洒灑伞傘丧喪扫掃杀殺纱紗晒曬伤傷烧燒绍紹设設摄攝审審声聲胜勝圣聖师師诗詩时時识識实實势勢视視试試饰飾释釋寿壽书書树樹帅帥' +
+  '双雙谁誰顺順说說丝絲诉訴肃肅虽雖随隨岁歲孙孫损損锁鎖态態谈談叹嘆汤湯讨討题題体體条條铁鐵听聽厅廳头頭图圖椭橢万萬网網为為韦韋伟偉' +
+  '卫衛稳穩问問务務雾霧戏戲细細虾蝦吓嚇线線乡鄉响響项項协協写寫谢謝兴興许許续續选選学學寻尋训訓压壓亚亞严嚴盐鹽验驗阳陽养養样樣药藥' +
+  '爷爺叶葉页頁业業医醫仪儀亿億忆憶艺藝议議义義阴陰银銀饮飲隐隱应應营營拥擁优優忧憂邮郵犹猶鱼魚与與语語预預誉譽园園员員圆圓远遠约約' +
+  '跃躍运運杂雜灾災载載则則择擇泽澤责責贼賊赠贈闸閘战戰张張涨漲账賬赵趙这這针針侦偵阵陣镇鎮争爭证證郑鄭执執职職纸紙质質种種众眾昼晝' +
+  '猪豬筑築专專转轉装裝壮壯状狀资資总總纵縱邹鄒组組钻鑽没沒现現觉覺请請错錯颜顏饿餓鸭鴨规規览覽计計订訂词詞译譯详詳误誤谎謊谜謎负負' +
+  '财財败敗贫貧贴貼贸貿赏賞赛賽赚賺赢贏轨軌轮輪较較辈輩输輸辑輯闪閃闭閉闯闖闲閒闻聞阅閱险險顶頂顽頑顿頓频頻额額饱飽饼餅骑騎骗騙乌烏' +
+  '侠俠侣侶侥僥侧側侨僑俭儉债債倾傾偿償储儲兽獸冈岡册冊冯馮决決况況净淨凉涼减減凑湊击擊删刪刹剎剂劑办辦劲勁勋勳卢盧却卻厂廠厌厭县縣' +
+  '叙敘启啟吴吳呐吶呜嗚哑啞啰囉围圍坏壞坝壩坟墳坠墜垒壘垦墾扬揚扰擾抚撫抛拋抢搶报報拟擬拢攏拣揀挂掛挡擋挣掙挤擠挥揮捞撈捣搗掷擲摇搖' +
+  '撑撐数數无無旷曠昙曇显顯晓曉晕暈暂暫杨楊枣棗柜櫃标標栋棟档檔检檢横橫歼殲残殘毁毀毕畢毙斃沦淪浅淺测測济濟涛濤润潤渊淵温溫湾灣湿濕' +
+  '滚滾滞滯滥濫滩灘潜潛炉爐烁爍烛燭烦煩牵牽狭狹狮獅猎獵献獻玛瑪琐瑣畅暢疯瘋痒癢瘫癱瘾癮皱皺盏盞监監睁睜矫矯矿礦码碼砖磚碍礙窃竊窝窩' +
+  '竞競笼籠纠糾红紅纯純纳納纷紛织織终終绑綁绕繞络絡绝絕统統绩績绪緒绳繩维維绵綿综綜绿綠编編缘緣缩縮罚罰胁脅脉脈脚腳脱脫艰艱茧繭莱萊' +
+  '萝蘿蚁蟻蛮蠻袜襪触觸诚誠询詢诸諸谱譜贡貢贩販贪貪贯貫赖賴轩軒轰轟辉輝迈邁违違逊遜遗遺邻鄰鉴鑑钓釣钥鑰铃鈴铜銅铺鋪销銷锅鍋锦錦键鍵' +
+  '闷悶阔闊静靜韩韓颗顆飘飄驶駛骂罵鲜鮮鹅鵝妈媽奋奮夹夾娱娛婴嬰宝寶宠寵宪憲尘塵层層届屆属屬岂豈岗崗币幣帐帳帮幫庄莊废廢异異弃棄弯彎' +
+  '弹彈彻徹径徑怀懷怜憐恼惱悦悅悬懸惧懼惨慘惯慣愤憤';
+
+// 只用于繁转简的一对多字：繁体在前，简体在后
+const TRADITIONAL_ONLY =
+  '髮发乾干幹干麵面隻只臺台颱台檯台係系繫系準准穀谷鬆松遊游徵征餘余週周裏里鍾钟複复曆历穫获糰团籤签臟脏沖冲參参蔘参嘗尝嚐尝衝冲蟲虫' +
+  '醜丑當当噹当黨党鬥斗發发範范豐丰復复後后劃划匯汇彙汇獲获薦荐傑杰盡尽儘尽據据裡里歷历煉炼麼么麽么彌弥瀰弥寧宁蘋苹僕仆樸朴簽签適适' +
+  '術术團团願愿雲云贊赞讚赞髒脏鐘钟須须鬚须侖仑崙仑別别彆别壇坛罈坛擺摆襬摆鏈链蘇苏甦苏飢饥饑饥於于惡恶噁恶';
+
+const SIMPLIFIED_TO_TRADITIONAL = new Map<string, string>();
+const TRADITIONAL_TO_SIMPLIFIED = new Map<string, string>();
+
+for (let i = 0; i < PAIRS.length; i += 2) {
+  SIMPLIFIED_TO_TRADITIONAL.set(PAIRS[i], PAIRS[i + 1]);
+  TRADITIONAL_TO_SIMPLIFIED.set(PAIRS[i + 1], PAIRS[i]);
+}
+for (let i = 0; i < TRADITIONAL_ONLY.length; i += 2) {
+  TRADITIONAL_TO_SIMPLIFIED.set(TRADITIONAL_ONLY[i], TRADITIONAL_ONLY[i + 1]);
+}
+
+const mapChars = (text: string, table: Map<string, string>): string =>
+  Array.from(text, char => table.get(char) ?? char).join('');
+
+export const toTraditional = (text: string): string => mapChars(text, SIMPLIFIED_TO_TRADITIONAL);
+
+export const toSimplified = (text: string): string => mapChars(text, TRADITIONAL_TO_SIMPLIFIED);
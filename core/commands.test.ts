@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  eventToShortcut, formatShortcut, findCommandsForShortcut, findConflicts, loadKeyBindings, saveKeyBindings,
+  DEFAULT_KEY_BINDINGS, COMMANDS
+} from './commands';
+
+const keyEvent = (code: string, modifiers: Partial<Pick<KeyboardEvent, 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>> = {}) =>
+  ({ code, ctrlKey: false, metaKey: false, altKey: false, shiftKey: false, ...modifiers }) as KeyboardEvent;
+
+describe('快捷键', () => {
+  it('按固定顺序拼接修饰键，Command 记为 Ctrl', () => {
+    expect(eventToShortcut(keyEvent('KeyZ'))).toBe('KeyZ');
+    expect(eventToShortcut(keyEvent('KeyZ', { ctrlKey: true, shiftKey: true }))).toBe('Ctrl+Shift+KeyZ');
+    expect(eventToShortcut(keyEvent('KeyZ', { metaKey: true }))).toBe('Ctrl+KeyZ');
+    expect(eventToShortcut(keyEvent('KeyK', { shiftKey: true, altKey: true }))).toBe('Alt+Shift+KeyK');
+  });
+
+  it('单独按下修饰键时不产生快捷键', () => {
+    expect(eventToShortcut(keyEvent('ShiftLeft', { shiftKey: true }))).toBeNull();
+    expect(eventToShortcut(keyEvent('MetaRight', { metaKey: true }))).toBeNull();
+    expect(eventToShortcut(keyEvent(''))).toBeNull();
+  });
+
+  it('格式化为可读的按键名称', () => {
+    expect(formatShortcut('Ctrl+Shift+KeyZ')).toBe('Ctrl + Shift + Z');
+    expect(formatShortcut('Space')).toBe('空格');
+    expect(formatShortcut('Shift+BracketLeft')).toBe('Shift + [');
+    expect(formatShortcut('Digit1')).toBe('1');
+    expect(formatShortcut('F5')).toBe('F5');
+  });
+});
+
+describe('快捷键绑定', () => {
+  it('按快捷键查找命令', () => {
+    expect(findCommandsForShortcut(DEFAULT_KEY_BINDINGS, 'Space')).toEqual(['togglePlay']);
+    expect(findCommandsForShortcut(DEFAULT_KEY_BINDINGS, 'Ctrl+KeyY')).toEqual(['redo']);
+    expect(findCommandsForShortcut(DEFAULT_KEY_BINDINGS, 'KeyQ')).toEqual([]);
+  });
+
+  it('默认快捷键没有冲突', () => {
+    expect(findConflicts(DEFAULT_KEY_BINDINGS).size).toBe(0);
+  });
+
+  it('同一快捷键绑定到多个命令时报告冲突', () => {
+    const bindings = { ...DEFAULT_KEY_BINDINGS, zoomIn: ['Space'], zoomOut: ['KeyQ'] };
+    expect([...findConflicts(bindings)]).toEqual(['Space']);
+    expect(findCommandsForShortcut(bindings, 'Space')).toEqual(['togglePlay', 'zoomIn']);
+  });
+});
+
+describe('快捷键持久化', () => {
+  beforeEach(() => {
+    const items = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => { items.set(key, value); },
+      removeItem: (key: string) => { items.delete(key); }
+    });
+  });
+
+  it('没有保存过时使用默认快捷键', async () => {
+    expect(await loadKeyBindings()).toEqual(DEFAULT_KEY_BINDINGS);
+  });
+
+  it('只保存与默认值不同的命令，读回时与默认值合并', async () => {
+    await saveKeyBindings({ ...DEFAULT_KEY_BINDINGS, togglePlay: ['KeyK'], zoomIn: ['Ctrl+Equal'] });
+    expect(JSON.parse(localStorage.getItem('lrc-video-scripter:keyBindings') ?? '')).toEqual({
+      togglePlay: ['KeyK'],
+      zoomIn: ['Ctrl+Equal']
+    });
+
+    const bindings = await loadKeyBindings();
+    expect(bindings.togglePlay).toEqual(['KeyK']);
+    expect(bindings.zoomIn).toEqual(['Ctrl+Equal']);
+    expect(Object.keys(bindings)).toHaveLength(COMMANDS.length);
+  });
+
+  it('可以清空某个命令的快捷键', async () => {
+    await saveKeyBindings({ ...DEFAULT_KEY_BINDINGS, split: [] });
+    expect((await loadKeyBindings()).split).toEqual([]);
+  });
+});
@@ -0,0 +1,163 @@
+import { storage } from './storage';
+
+// --- 命令注册表 ---
+// 所有可通过快捷键或命令面板触发的操作都在这里登记，具体实现由 App 按 id 提供。
+
+export type CommandId =
+  | 'togglePlay' | 'stepBackward' | 'stepForward' | 'frameBackward' | 'frameForward'
+  | 'prevBoundary' | 'nextBoundary' | 'slowerRate' | 'fasterRate' | 'seekStart' | 'seekEnd'
+  | 'loopSegment' | 'loopRange'
+  | 'split' | 'mergeWithNext' | 'nudgeBack' | 'nudgeForward' | 'nudgeBackLarge' | 'nudgeForwardLarge'
+  | 'assignNext' | 'distribute' | 'editWordTimings' | 'undo' | 'redo'
+  | 'toggleSyncMode' | 'syncAssign' | 'syncBlank' | 'syncUndo'
+  | 'zoomIn' | 'zoomOut' | 'toggleAutoSplit' | 'toggleValidation' | 'toggleRetime' | 'toggleOverlay'
+  | 'importSubtitles' | 'export' | 'openProjects' | 'showHistory' | 'textTools' | 'showHelp' | 'editKeyBindings' | 'commandPalette';
+
+export type CommandGroup = 'playback' | 'segment' | 'assign' | 'sync' | 'view' | 'file';
+
+export const COMMAND_GROUP_LABELS: Record<CommandGroup, string> = {
+  playback: '播放',
+  segment: '分段',
+  assign: '分配文本',
+  sync: '打轴模式',
+  view: '视图',
+  file: '文件与面板'
+};
+
+export interface CommandDefinition {
+  id: CommandId;
+  label: string;
+  group: CommandGroup;
+  defaultKeys: string[];
+}
+
+export const COMMANDS: CommandDefinition[] = [
+  { id: 'togglePlay', label: '播放 / 暂停', group: 'playback', defaultKeys: ['Space'] },
+  { id: 'stepBackward', label: '后退 0.1 秒', group: 'playback', defaultKeys: ['ArrowLeft'] },
+  { id: 'stepForward', label: '前进 0.1 秒', group: 'playback', defaultKeys: ['ArrowRight'] },
+  { id: 'frameBackward', label: '上一帧', group: 'playback', defaultKeys: ['Comma'] },
+  { id: 'frameForward', label: '下一帧', group: 'playback', defaultKeys: ['Period'] },
+  { id: 'prevBoundary', label: '跳到上一个边界', group: 'playback', defaultKeys: ['Shift+ArrowLeft'] },
+  { id: 'nextBoundary', label: '跳到下一个边界', group: 'playback', defaultKeys: ['Shift+ArrowRight'] },
+  { id: 'slowerRate', label: '降低播放速率', group: 'playback', defaultKeys: ['Minus'] },
+  { id: 'fasterRate', label: '提高播放速率', group: 'playback', defaultKeys: ['Equal'] },
+  { id: 'seekStart', label: '跳到开头', group: 'playback', defaultKeys: ['Home'] },
+  { id: 'seekEnd', label: '跳到结尾', group: 'playback', defaultKeys: ['End'] },
+  { id: 'loopSegment', label: '循环当前分段', group: 'playback', defaultKeys: ['KeyL'] },
+  { id: 'loopRange', label: '标记 A–B 循环', group: 'playback', defaultKeys: ['Shift+KeyL'] },
+
+  { id: 'split', label: '在当前位置切割', group: 'segment', defaultKeys: ['KeyM'] },
+  { id: 'mergeWithNext', label: '与下一分段合并', group: 'segment', defaultKeys: ['Shift+KeyM'] },
+  { id: 'nudgeBack', label: '最近边界前移 0.05 秒', group: 'segment', defaultKeys: ['BracketLeft'] },
+  { id: 'nudgeForward', label: '最近边界后移 0.05 秒', group: 'segment', defaultKeys: ['BracketRight'] },
+  { id: 'nudgeBackLarge', label: '最近边界前移 0.5 秒', group: 'segment', defaultKeys: ['Shift+BracketLeft'] },
+  { id: 'nudgeForwardLarge', label: '最近边界后移 0.5 秒', group: 'segment', defaultKeys: ['Shift+BracketRight'] },
+  { id: 'undo', label: '撤销', group: 'segment', defaultKeys: ['Ctrl+KeyZ'] },
+  { id: 'redo', label: '重做', group: 'segment', defaultKeys: ['Ctrl+Shift+KeyZ', 'Ctrl+KeyY'] },
+
+  { id: 'assignNext', label: '为当前分段分配下一条文本', group: 'assign', defaultKeys: ['KeyN'] },
+  { id: 'distribute', label: '顺序分配', group: 'assign', defaultKeys: [] },
+  { id: 'editWordTimings', label: '编辑当前分段的逐字时间', group: 'assign', defaultKeys: [] },
+
+  { id: 'toggleSyncMode', label: '开启 / 关闭打轴模式', group: 'sync', defaultKeys: [] },
+  { id: 'syncAssign', label: '打轴：切分并分配下一行', group: 'sync', defaultKeys: ['Enter', 'NumpadEnter'] },
+  { id: 'syncBlank', label: '打轴：标记空白分段', group: 'sync', defaultKeys: ['KeyB'] },
+  { id: 'syncUndo', label: '打轴：撤销上一次', group: 'sync', defaultKeys: ['Backspace'] },
+
+  { id: 'zoomIn', label: '放大时间轴', group: 'view', defaultKeys: [] },
+  { id: 'zoomOut', label: '缩小时间轴', group: 'view', defaultKeys: [] },
+  { id: 'toggleAutoSplit', label: '自动切分面板', group: 'view', defaultKeys: [] },
+  { id: 'toggleValidation', label: '字幕检查面板', group: 'view', defaultKeys: [] },
+  { id: 'toggleRetime', label: '时间调整面板', group: 'view', defaultKeys: [] },
+  { id: 'toggleOverlay', label: '显示 / 隐藏字幕预览', group: 'view', defaultKeys: [] },
+
+  { id: 'importSubtitles', label: '导入字幕', group: 'file', defaultKeys: [] },
+  { id: 'export', label: '导出字幕', group: 'file', defaultKeys: ['Ctrl+KeyE'] },
+  { id: 'openProjects', label: '打开项目列表', group: 'file', defaultKeys: [] },
+  { id: 'showHistory', label: '操作历史', group: 'file', defaultKeys: [] },
+  { id: 'textTools', label: '查找替换 / 批量处理文本', group: 'file', defaultKeys: ['Ctrl+KeyH'] },
+  { id: 'showHelp', label: '使用帮助', group: 'file', defaultKeys: ['Shift+Slash'] },
+  { id: 'editKeyBindings', label: '自定义快捷键', group: 'file', defaultKeys: [] },
+  { id: 'commandPalette', label: '命令面板', group: 'file', defaultKeys: ['Ctrl+KeyK'] }
+];
+
+// --- 快捷键 ---
+// 快捷键以 "Ctrl+Shift+KeyZ" 的形式保存，按键部分使用 KeyboardEvent.code，与键盘布局无关。
+// Mac 上的 Command 键同样记为 Ctrl。
+
+export type KeyBindings = Record<CommandId, string[]>;
+
+const MODIFIER_CODES = new Set([
+  'ControlLeft', 'ControlRight', 'ShiftLeft', 'ShiftRight', 'AltLeft', 'AltRight', 'MetaLeft', 'MetaRight'
+]);
+
+export const eventToShortcut = (e: KeyboardEvent): string | null => {
+  if (MODIFIER_CODES.has(e.code) || !e.code) return null;
+  const parts: string[] = [];
+  if (e.ctrlKey || e.metaKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey) parts.push('Shift');
+  parts.push(e.code);
+  return parts.join('+');
+};
+
+const KEY_LABELS: Record<string, string> = {
+  Space: '空格', ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓',
+  Comma: ',', Period: '.', Minus: '-', Equal: '=', Slash: '/', Backslash: '\\',
+  BracketLeft: '[', BracketRight: ']', Semicolon: ';', Quote: "'", Backquote: '`',
+  NumpadEnter: 'Enter(小键盘)', Escape: 'Esc'
+};
+
+const formatKey = (code: string): string => {
+  if (KEY_LABELS[code]) return KEY_LABELS[code];
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  return code;
+};
+
+export const formatShortcut = (shortcut: string): string =>
+  shortcut.split('+').map(part => (part === 'Ctrl' || part === 'Alt' || part === 'Shift' ? part : formatKey(part))).join(' + ');
+
+export const DEFAULT_KEY_BINDINGS = Object.fromEntries(
+  COMMANDS.map(command => [command.id, command.defaultKeys])
+) as KeyBindings;
+
+export const findCommandsForShortcut = (bindings: KeyBindings, shortcut: string): CommandId[] =>
+  COMMANDS.filter(command => bindings[command.id].includes(shortcut)).map(command => command.id);
+
+// 同一快捷键绑定到多个命令时返回这些快捷键
+export const findConflicts = (bindings: KeyBindings): Set<string> => {
+  const seen = new Set<string>();
+  const conflicts = new Set<string>();
+  COMMANDS.forEach(command => {
+    bindings[command.id].forEach(shortcut => {
+      if (seen.has(shortcut)) conflicts.add(shortcut);
+      seen.add(shortcut);
+    });
+  });
+  return conflicts;
+};
+
+// --- 持久化 ---
+// 只保存与默认值不同的命令，新增命令时自动获得默认快捷键
+
+const BINDINGS_KEY = 'keyBindings';
+
+export const loadKeyBindings = async (): Promise<KeyBindings> => {
+  const overrides = await storage.get<Partial<KeyBindings>>(BINDINGS_KEY);
+  const bindings = { ...DEFAULT_KEY_BINDINGS };
+  COMMANDS.forEach(command => {
+    const keys = overrides?.[command.id];
+    if (Array.isArray(keys)) bindings[command.id] = keys;
+  });
+  return bindings;
+};
+
+export const saveKeyBindings = (bindings: KeyBindings): Promise<void> => {
+  const overrides: Partial<KeyBindings> = {};
+  COMMANDS.forEach(command => {
+    const keys = bindings[command.id];
+    if (keys.join() !== command.defaultKeys.join()) overrides[command.id] = keys;
+  });
+  return storage.set(BINDINGS_KEY, overrides);
+};
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { distributeBlocks, reflowAssignments } from './distribute';
+import { VideoSegment, TextBlock } from './subtitle';
+
+const blocks: TextBlock[] = [
+  { id: 'a', text: '一' },
+  { id: 'b', text: '二' },
+  { id: 'c', text: '三' }
+];
+
+const segment = (id: string, textId: string | null, withWords = false): VideoSegment => ({
+  id,
+  startTime: 0,
+  endTime: 1,
+  textId,
+  ...(withWords ? { words: [{ text: 'x', offset: 0 }] } : {})
+});
+
+describe('distributeBlocks', () => {
+  it('已分配的分段作为锚点，空分段从下一行继续', () => {
+    const result = distributeBlocks([segment('1', null), segment('2', 'b'), segment('3', null)], blocks);
+    expect(result.map(s => s.textId)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('没有可分配的文本时返回原数组', () => {
+    const segments = [segment('1', 'a'), segment('2', 'b'), segment('3', 'c'), segment('4', null)];
+    expect(distributeBlocks(segments, blocks)).toBe(segments);
+  });
+
+  it('新分配文本的分段不保留逐字时间', () => {
+    const [result] = distributeBlocks([segment('1', null, true)], blocks);
+    expect(result).toEqual({ id: '1', startTime: 0, endTime: 1, textId: 'a' });
+  });
+});
+
+describe('reflowAssignments', () => {
+  const segments = [segment('1', 'a', true), segment('2', 'b', true), segment('3', 'c', true)];
+
+  it('向后移动时空出起点，最后一段的文本被挤出', () => {
+    expect(reflowAssignments(segments, 1, 1).map(s => s.textId)).toEqual(['a', null, 'b']);
+  });
+
+  it('向前移动时移除起点的文本，最后一段变为空白', () => {
+    expect(reflowAssignments(segments, 0, -1).map(s => s.textId)).toEqual(['b', 'c', null]);
+  });
+
+  it('文本改变的分段清除逐字时间，未改变的保留', () => {
+    const result = reflowAssignments(segments, 1, 1);
+    expect(result[0]).toBe(segments[0]);
+    expect(result.slice(1).every(s => s.words === undefined)).toBe(true);
+  });
+});
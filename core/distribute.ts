@@ -0,0 +1,50 @@
+import { VideoSegment, TextBlock } from './subtitle';
+
+// --- 顺序分配与重排 ---
+
+// 更换文本后原有的逐字时间不再对应，一并去掉
+const withTextId = (segment: VideoSegment, textId: string | null): VideoSegment => {
+  const { words: _previous, ...rest } = segment;
+  return { ...rest, textId };
+};
+
+// 按字幕库顺序为未分配的分段依次分配文本。已分配的分段作为锚点：
+// 其后的空分段从该文本块的下一行继续，已被使用的文本块会被跳过。
+export const distributeBlocks = (segments: VideoSegment[], blocks: TextBlock[]): VideoSegment[] => {
+  const blockIndex = new Map(blocks.map((b, i) => [b.id, i]));
+  const used = new Set(segments.map(s => s.textId).filter((id): id is string => id !== null));
+  let cursor = 0;
+  let changed = false;
+
+  const result = segments.map(segment => {
+    if (segment.textId) {
+      const anchor = blockIndex.get(segment.textId);
+      if (anchor !== undefined) cursor = anchor + 1;
+      return segment;
+    }
+
+    while (cursor < blocks.length && used.has(blocks[cursor].id)) cursor++;
+    if (cursor >= blocks.length) return segment;
+
+    const block = blocks[cursor++];
+    used.add(block.id);
+    changed = true;
+    return withTextId(segment, block.id);
+  });
+
+  return changed ? result : segments;
+};
+
+// 从第 fromIndex 段开始整体移动文本分配。
+// direction 为 1 时向后移一段（fromIndex 空出，用于补上插入的行，最后一段的文本被挤出）；
+// 为 -1 时向前移一段（fromIndex 的文本被移除，用于填补删掉的行，最后一段变为空白）。
+export const reflowAssignments = (segments: VideoSegment[], fromIndex: number, direction: 1 | -1): VideoSegment[] => {
+  if (fromIndex < 0 || fromIndex >= segments.length) return segments;
+
+  return segments.map((segment, i) => {
+    if (i < fromIndex) return segment;
+    const source = i - direction;
+    const textId = source >= fromIndex && source < segments.length ? segments[source].textId : null;
+    return textId === segment.textId ? segment : withTextId(segment, textId);
+  });
+};
@@ -0,0 +1,90 @@
+import { VideoSegment, TextBlock } from './subtitle';
+import { LrcMetadata, serializeLRC } from './lrc';
+import { serializeSRT } from './srt';
+import { serializeVTT } from './vtt';
+import { AssStyle, serializeASS } from './ass';
+import { Speaker, SpeakerExportMode, prefixSpeakers } from './speakers';
+
+// --- 导出格式注册表 ---
+
+export type ExportFormat = 'lrc' | 'srt' | 'vtt' | 'ass';
+
+export interface ExportOptions {
+  includeEmpty: boolean;
+  metadata: LrcMetadata;
+  // LRC 是否写出 <mm:ss.xx> 逐字时间
+  wordTimings: boolean;
+  // 双语合并导出时，LRC 把每条字幕的各行写成同一时间点的多行
+  splitLines: boolean;
+  assStyle: AssStyle;
+  title: string;
+  // 视频画面尺寸，ASS 以此作为 PlayRes
+  videoWidth: number;
+  videoHeight: number;
+  cast: Speaker[];
+  speakerMode: SpeakerExportMode;
+}
+
+interface ExportFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+  // 是否支持 SpeakerExportMode 中的 voice（格式自带的角色字段）
+  voiceTags: boolean;
+  serialize: (segments: VideoSegment[], blocks: TextBlock[], options: ExportOptions) => string;
+}
+
+// 不支持角色字段的格式在 voice 模式下退回为台词前缀
+const speakerBlocks = (blocks: TextBlock[], options: ExportOptions, voiceTags: boolean): TextBlock[] =>
+  options.speakerMode === 'prefix' || (options.speakerMode === 'voice' && !voiceTags)
+    ? prefixSpeakers(blocks, options.cast)
+    : blocks;
+
+const voiceCast = (options: ExportOptions): Speaker[] | undefined =>
+  options.speakerMode === 'voice' ? options.cast : undefined;
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  // LRC 只有开始时间，空白分段用于结束上一行，因此始终保留
+  lrc: {
+    label: '.LRC',
+    extension: 'lrc',
+    mimeType: 'text/plain',
+    voiceTags: false,
+    serialize: (segments, blocks, options) => serializeLRC(segments, speakerBlocks(blocks, options, false), {
+      metadata: options.metadata,
+      wordTimings: options.wordTimings,
+      splitLines: options.splitLines
+    })
+  },
+  srt: {
+    label: '.SRT',
+    extension: 'srt',
+    mimeType: 'application/x-subrip',
+    voiceTags: false,
+    serialize: (segments, blocks, options) => serializeSRT(segments, speakerBlocks(blocks, options, false), options)
+  },
+  vtt: {
+    label: '.VTT',
+    extension: 'vtt',
+    mimeType: 'text/vtt',
+    voiceTags: true,
+    serialize: (segments, blocks, options) => serializeVTT(segments, speakerBlocks(blocks, options, true), {
+      includeEmpty: options.includeEmpty,
+      voices: voiceCast(options)
+    })
+  },
+  ass: {
+    label: '.ASS',
+    extension: 'ass',
+    mimeType: 'text/x-ssa',
+    voiceTags: true,
+    serialize: (segments, blocks, options) => serializeASS(segments, speakerBlocks(blocks, options, true), {
+      includeEmpty: options.includeEmpty,
+      style: options.assStyle,
+      title: options.title,
+      playResX: options.videoWidth || 1920,
+      playResY: options.videoHeight || 1080,
+      actors: voiceCast(options)
+    })
+  }
+};
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { pushHistory, undoHistory, redoHistory, EMPTY_HISTORY, COALESCE_WINDOW, EditorDocument } from './history';
+
+const makeDoc = (text: string): EditorDocument => ({
+  segments: [{ id: 's1', startTime: 0, endTime: 1, textId: 'a' }],
+  textBlocks: [{ id: 'a', text }],
+  tracks: [],
+  cast: []
+});
+
+const v0 = makeDoc('0');
+const v1 = makeDoc('1');
+const v2 = makeDoc('2');
+
+describe('撤销 / 重做', () => {
+  it('撤销返回命令执行前的文档，重做返回执行后的文档', () => {
+    const history = pushHistory(pushHistory(EMPTY_HISTORY, '第一步', v0, v1), '第二步', v1, v2);
+
+    const undone = undoHistory(history);
+    expect(undone?.document).toBe(v1);
+    expect(undone?.history.future.map(e => e.label)).toEqual(['第二步']);
+
+    const undoneTwice = undoHistory(undone!.history);
+    expect(undoneTwice?.document).toBe(v0);
+    expect(undoHistory(undoneTwice!.history)).toBeNull();
+
+    const redone = redoHistory(undoneTwice!.history);
+    expect(redone?.document).toBe(v1);
+    expect(redone?.history.past.map(e => e.label)).toEqual(['第一步']);
+    expect(redone?.history.future.map(e => e.label)).toEqual(['第二步']);
+  });
+
+  it('没有记录时返回 null', () => {
+    expect(undoHistory(EMPTY_HISTORY)).toBeNull();
+    expect(redoHistory(EMPTY_HISTORY)).toBeNull();
+  });
+
+  it('新的命令清空重做记录', () => {
+    const history = pushHistory(EMPTY_HISTORY, '第一步', v0, v1);
+    const undone = undoHistory(history)!.history;
+    const next = pushHistory(undone, '另一步', v0, v2);
+    expect(next.future).toEqual([]);
+    expect(redoHistory(next)).toBeNull();
+  });
+
+  it('相同 key 且间隔很短的连续命令合并为一条记录', () => {
+    const first = pushHistory(EMPTY_HISTORY, '移动边界', v0, v1, 'boundary:0', 1000);
+    const second = pushHistory(first, '移动边界', v1, v2, 'boundary:0', 1000 + COALESCE_WINDOW - 1);
+    expect(second.past).toHaveLength(1);
+    expect(second.past[0]).toMatchObject({ before: v0, after: v2, time: 1000 + COALESCE_WINDOW - 1 });
+    expect(undoHistory(second)?.document).toBe(v0);
+  });
+
+  it('key 不同、没有 key 或间隔过长时不合并', () => {
+    const first = pushHistory(EMPTY_HISTORY, '移动边界', v0, v1, 'boundary:0', 1000);
+    expect(pushHistory(first, '移动边界', v1, v2, 'boundary:1', 1100).past).toHaveLength(2);
+    expect(pushHistory(first, '移动边界', v1, v2, undefined, 1100).past).toHaveLength(2);
+    expect(pushHistory(first, '移动边界', v1, v2, 'boundary:0', 1000 + COALESCE_WINDOW).past).toHaveLength(2);
+  });
+
+  it('最多保留 200 条记录', () => {
+    let history = EMPTY_HISTORY;
+    for (let i = 0; i < 210; i++) history = pushHistory(history, `第 ${i} 步`, v0, v1);
+    expect(history.past).toHaveLength(200);
+    expect(history.past[0].label).toBe('第 10 步');
+  });
+});
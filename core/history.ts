@@ -0,0 +1,79 @@
+import { VideoSegment, TextBlock } from './subtitle';
+import { TextTrack } from './tracks';
+import { Speaker } from './speakers';
+
+// --- 撤销 / 重做 ---
+// 每条记录保存命令执行前后的文档快照。数组都是不可变的，快照之间共享未修改的对象，开销很小。
+
+export interface EditorDocument {
+  segments: VideoSegment[];
+  textBlocks: TextBlock[];
+  // 附加的译文轨道，主轨道即 textBlocks
+  tracks: TextTrack[];
+  // 角色表，文本块通过 speakerId 引用
+  cast: Speaker[];
+}
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  before: EditorDocument;
+  after: EditorDocument;
+  time: number;
+  // 相同 key 且间隔很短的连续命令会合并为一条记录
+  coalesceKey?: string;
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+const HISTORY_LIMIT = 200;
+export const COALESCE_WINDOW = 1000;
+
+let nextEntryId = 1;
+
+export const pushHistory = (
+  history: HistoryState,
+  label: string,
+  before: EditorDocument,
+  after: EditorDocument,
+  coalesceKey?: string,
+  time: number = Date.now()
+): HistoryState => {
+  const last = history.past[history.past.length - 1];
+  if (last && coalesceKey && last.coalesceKey === coalesceKey && time - last.time < COALESCE_WINDOW) {
+    return {
+      past: [...history.past.slice(0, -1), { ...last, after, time }],
+      future: []
+    };
+  }
+
+  const entry: HistoryEntry = { id: nextEntryId++, label, before, after, time, coalesceKey };
+  return {
+    past: [...history.past, entry].slice(-HISTORY_LIMIT),
+    future: []
+  };
+};
+
+// 返回 null 表示没有可撤销的记录
+export const undoHistory = (history: HistoryState): { history: HistoryState; document: EditorDocument } | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [entry, ...history.future] },
+    document: entry.before
+  };
+};
+
+export const redoHistory = (history: HistoryState): { history: HistoryState; document: EditorDocument } | null => {
+  const entry = history.future[0];
+  if (!entry) return null;
+  return {
+    history: { past: [...history.past, entry], future: history.future.slice(1) },
+    document: entry.after
+  };
+};
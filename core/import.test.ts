@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { detectSubtitleFormat } from './import';
+
+describe('detectSubtitleFormat', () => {
+  it('按内容识别格式', () => {
+    expect(detectSubtitleFormat('﻿WEBVTT\n\n00:01.000 --> 00:02.000\nx')).toBe('vtt');
+    expect(detectSubtitleFormat('[Script Info]\nTitle: x')).toBe('ass');
+    expect(detectSubtitleFormat('1\n00:00:01,000 --> 00:00:02,000\nx')).toBe('srt');
+    expect(detectSubtitleFormat('[ti:x]\n[00:01.00]歌词')).toBe('lrc');
+  });
+
+  it('无法识别时返回 null', () => {
+    expect(detectSubtitleFormat('')).toBeNull();
+    expect(detectSubtitleFormat('只是一段普通文字')).toBeNull();
+  });
+});
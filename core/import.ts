@@ -0,0 +1,46 @@
+import { SubtitleCue } from './subtitle';
+import { parseSRT } from './srt';
+import { parseVTT } from './vtt';
+import { parseASS } from './ass';
+
+// --- 导入格式识别 ---
+
+export type ImportFormat = 'lrc' | 'srt' | 'vtt' | 'ass';
+
+// 按内容而不是扩展名判断格式，.txt 中的 SRT 也能正确导入
+export const detectSubtitleFormat = (text: string): ImportFormat | null => {
+  const content = text.replace(/^\uFEFF/, '').trimStart();
+  if (/^WEBVTT\b/.test(content)) return 'vtt';
+  if (/^\[Script Info\]/im.test(content) || /^Dialogue:/m.test(content)) return 'ass';
+  if (/^\s*[\d:]+[,.]\d{1,3}\s*-->\s*[\d:]+[,.]\d{1,3}/m.test(content)) return 'srt';
+  if (/\[\d+:\d{1,2}(?:[.:]\d{1,3})?\]/.test(content)) return 'lrc';
+  return null;
+};
+
+// --- 导入报告 ---
+
+// merged：同一时间点的条目被合并；dropped：超出视频时长被丢弃；clamped：时间被截断到视频范围内
+export type ImportNoteKind = 'merged' | 'dropped' | 'clamped';
+
+export interface ImportNote {
+  kind: ImportNoteKind;
+  time: number;
+  text: string;
+}
+
+export interface ImportReport {
+  format: ImportFormat;
+  entryCount: number;
+  segmentCount: number;
+  blockCount: number;
+  notes: ImportNote[];
+  metadata: Record<string, string>;
+  // LRC 的 [offset:] 毫秒值
+  offset: number;
+}
+
+export const CUE_PARSERS: Record<Exclude<ImportFormat, 'lrc'>, (text: string) => SubtitleCue[]> = {
+  srt: parseSRT,
+  vtt: parseVTT,
+  ass: parseASS
+};
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { splitWords, distributeWordTimings, hasWordTimings, getWordTimings, findActiveWord, setSegmentWords, clearWordsForBlocks } from './karaoke';
+import { VideoSegment } from './subtitle';
+
+describe('splitWords', () => {
+  it('中文逐字拆分，英文按单词拆分，拼接后与原文相同', () => {
+    const text = '“你好，world!” ok';
+    const words = splitWords(text);
+    expect(words).toEqual(['“你', '好，', 'world!” ', 'ok']);
+    expect(words.join('')).toBe(text);
+  });
+
+  it('只有标点时作为一个词', () => {
+    expect(splitWords('……')).toEqual(['……']);
+    expect(splitWords('')).toEqual([]);
+  });
+});
+
+describe('逐字时间', () => {
+  const segment: VideoSegment = { id: 's', startTime: 10, endTime: 12, textId: 'a' };
+
+  it('按字宽平均分配', () => {
+    expect(distributeWordTimings(['ab', '中'], 2).map(w => w.offset)).toEqual([0, 1]);
+  });
+
+  it('文本修改后不再使用保存的逐字时间', () => {
+    const words = [{ text: '你', offset: 0 }, { text: '好', offset: 1.5 }];
+    const timed = { ...segment, words };
+    expect(hasWordTimings(timed, '你好')).toBe(true);
+    expect(getWordTimings(timed, '你好')).toEqual(words);
+    expect(hasWordTimings(timed, '您好')).toBe(false);
+    expect(getWordTimings(timed, '您好').map(w => w.offset)).toEqual([0, 1]);
+  });
+
+  it('超出分段长度的时间收拢到结尾', () => {
+    const timed = { ...segment, words: [{ text: '你', offset: 0 }, { text: '好', offset: 5 }] };
+    expect(getWordTimings(timed, '你好')[1].offset).toBe(2);
+  });
+
+  it('查找当前的词', () => {
+    const words = [{ text: 'a', offset: 0.5 }, { text: 'b', offset: 1 }];
+    expect(findActiveWord(words, 0.2)).toBe(-1);
+    expect(findActiveWord(words, 0.7)).toBe(0);
+    expect(findActiveWord(words, 3)).toBe(1);
+  });
+
+  it('设置与清除逐字时间', () => {
+    const words = [{ text: 'x', offset: 0 }];
+    const [withWords] = setSegmentWords([segment], 's', words);
+    expect(withWords.words).toEqual(words);
+    const [cleared] = setSegmentWords([withWords], 's', null);
+    expect('words' in cleared).toBe(false);
+  });
+
+  it('清除引用改写过的文本块的分段上的逐字时间', () => {
+    const words = [{ text: 'x', offset: 0 }];
+    const segments = [{ ...segment, words }, { ...segment, id: 't', textId: 'b', words }];
+    const result = clearWordsForBlocks(segments, new Set(['a']));
+    expect('words' in result[0]).toBe(false);
+    expect(result[1]).toBe(segments[1]);
+  });
+});
@@ -0,0 +1,83 @@
+import { VideoSegment, WordTiming } from './subtitle';
+import { isWideChar, displayLength } from './text';
+
+// --- 逐字时间 ---
+
+const WORD_CHAR = /[\p{L}\p{N}'’]/u;
+
+// 中日韩文字逐字拆分，其他文字按单词拆分。
+// 空白和标点附在前一个词后面（句首的标点附在第一个词前面），拼接后与原文完全相同。
+export const splitWords = (text: string): string[] => {
+  const words: string[] = [];
+  let current = '';
+  let currentHasWord = false;
+  let prevWordChar = false;
+
+  for (const char of text) {
+    const isWord = WORD_CHAR.test(char);
+    const wide = isWord && isWideChar(char);
+    const startsWord = wide || (isWord && !prevWordChar);
+    if (startsWord && currentHasWord) {
+      words.push(current);
+      current = '';
+      currentHasWord = false;
+    }
+    current += char;
+    if (isWord) currentHasWord = true;
+    // 中日韩文字之后的字母也应作为新词开始
+    prevWordChar = isWord && !wide;
+  }
+
+  if (current) {
+    if (!currentHasWord && words.length > 0) words[words.length - 1] += current;
+    else words.push(current);
+  }
+  return words;
+};
+
+// 没有逐字时间时按字数平均分配，长的单词占用更长的时间
+export const distributeWordTimings = (words: string[], duration: number): WordTiming[] => {
+  const weights = words.map(word => Math.max(displayLength(word.trim()), 0.5));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let elapsed = 0;
+  return words.map((text, i) => {
+    const offset = total > 0 ? (elapsed / total) * duration : 0;
+    elapsed += weights[i];
+    return { text, offset };
+  });
+};
+
+// 已保存的逐字时间必须与当前文本一致才会使用，文本修改过或未打点时退回平均分配
+export const hasWordTimings = (segment: VideoSegment, text: string): boolean =>
+  !!segment.words && segment.words.length > 0 && segment.words.map(w => w.text).join('') === text;
+
+export const getWordTimings = (segment: VideoSegment, text: string): WordTiming[] => {
+  const length = segment.endTime - segment.startTime;
+  if (!hasWordTimings(segment, text)) return distributeWordTimings(splitWords(text), length);
+  // 分段被切短后，超出结尾的时间收拢到结尾
+  return segment.words!.map(word => ({ ...word, offset: Math.min(Math.max(0, word.offset), length) }));
+};
+
+// 返回 offset 时刻正在唱的词，尚未开始时返回 -1
+export const findActiveWord = (words: WordTiming[], offset: number): number => {
+  for (let i = words.length - 1; i >= 0; i--) {
+    if (offset >= words[i].offset) return i;
+  }
+  return -1;
+};
+
+// 文本块被改写后，清除引用它们的分段上已经不对应的逐字时间
+export const clearWordsForBlocks = (segments: VideoSegment[], blockIds: Set<string>): VideoSegment[] =>
+  segments.map(s => {
+    if (!s.words || !s.textId || !blockIds.has(s.textId)) return s;
+    const { words: _previous, ...rest } = s;
+    return rest;
+  });
+
+// words 为 null 时清除逐字时间，恢复平均分配
+export const setSegmentWords = (segments: VideoSegment[], segmentId: string, words: WordTiming[] | null): VideoSegment[] =>
+  segments.map(s => {
+    if (s.id !== segmentId) return s;
+    const { words: _previous, ...rest } = s;
+    return words ? { ...rest, words } : rest;
+  });
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import { parseLRC, serializeLRC, buildLrcImport, formatLrcTime } from './lrc';
+import { VideoSegment, TextBlock } from './subtitle';
+
+const blocks: TextBlock[] = [
+  { id: 'a', text: '第一句' },
+  { id: 'b', text: 'Second line' }
+];
+
+const segments: VideoSegment[] = [
+  { id: 's1', startTime: 0, endTime: 1.5, textId: 'a' },
+  { id: 's2', startTime: 1.5, endTime: 3.25, textId: null },
+  { id: 's3', startTime: 3.25, endTime: 6, textId: 'b' }
+];
+
+describe('parseLRC', () => {
+  it('解析各种时间标签精度', () => {
+    const { entries } = parseLRC('[00:01]a\n[00:02.5]b\n[00:03.25]c\n[00:04.125]d\n[00:05:50]e');
+    expect(entries.map(e => e.time)).toEqual([1, 2.5, 3.25, 4.125, 5.5]);
+  });
+
+  it('一行多个时间标签生成多个条目并按时间排序', () => {
+    const { entries } = parseLRC('[00:10.00][00:02.00]副歌\n[00:05.00]主歌');
+    expect(entries).toEqual([
+      { time: 2, text: '副歌' },
+      { time: 5, text: '主歌' },
+      { time: 10, text: '副歌' }
+    ]);
+  });
+
+  it('读取 ID 标签，键名转为小写', () => {
+    const { metadata } = parseLRC('[ti:Song]\n[AR:Singer]\n[al: Album ]\n[00:01.00]x');
+    expect(metadata).toEqual({ ti: 'Song', ar: 'Singer', al: 'Album' });
+  });
+
+  it('应用 offset，早于 0 秒的条目移到开头并记录', () => {
+    const result = parseLRC('[offset:500]\n[00:00.20]早\n[00:02.00]晚');
+    expect(result.offset).toBe(500);
+    expect(result.entries.map(e => e.time)).toEqual([0, 1.5]);
+    expect(result.clamped).toEqual([{ time: 0, text: '早' }]);
+    expect(result.maxTime).toBe(1.5);
+  });
+
+  it('maxTime 不计入空行结束标记', () => {
+    expect(parseLRC('[00:01.00]一\n[00:05.00]二\n[00:09.00]').maxTime).toBe(5);
+    expect(parseLRC('[00:09.00]').maxTime).toBe(0);
+  });
+
+  it('负的 offset 使歌词延后', () => {
+    const { entries } = parseLRC('[00:01.00]x\n[offset:-1000]');
+    expect(entries[0].time).toBe(2);
+  });
+
+  it('解析增强型 LRC 的逐字时间，offset 相对于行时间', () => {
+    const { entries } = parseLRC('[00:10.00]<00:10.00>Hel<00:10.50>lo <00:11.00>world<00:12.00>');
+    expect(entries).toHaveLength(1);
+    expect(entries[0].text).toBe('Hello world');
+    expect(entries[0].words).toEqual([
+      { text: 'Hel', offset: 0 },
+      { text: 'lo ', offset: 0.5 },
+      { text: 'world', offset: 1 }
+    ]);
+  });
+
+  it('忽略无法识别的行与空行', () => {
+    const { entries, metadata } = parseLRC('随便写的文字\n\n[not a tag]\n<00:01.00>\n[00:01.00]ok');
+    expect(entries).toEqual([{ time: 1, text: 'ok' }]);
+    expect(metadata).toEqual({});
+  });
+
+  it('非数字的 offset 被忽略', () => {
+    const result = parseLRC('[offset:abc]\n[00:01.00]x');
+    expect(result.offset).toBe(0);
+    expect(result.entries[0].time).toBe(1);
+  });
+
+  it('0 秒处的空行不生成条目', () => {
+    expect(parseLRC('[00:00.00]\n[00:01.00]x').entries).toEqual([{ time: 1, text: 'x' }]);
+  });
+});
+
+describe('serializeLRC', () => {
+  it('每个分段输出一行，未分配的分段输出空行', () => {
+    expect(serializeLRC(segments, blocks)).toBe('[00:00.00]第一句\n[00:01.50]\n[00:03.25]Second line');
+  });
+
+  it('写出 ID 标签但不写 offset', () => {
+    const text = serializeLRC(segments, blocks, { metadata: { ti: 'Song', offset: '200' } });
+    expect(text.split('\n')[0]).toBe('[ti:Song]');
+    expect(text).not.toContain('offset');
+  });
+
+  it('多行文本合并为一行，或拆成同一时间点的多行', () => {
+    const bilingual: TextBlock[] = [{ id: 'a', text: '你好\nHello' }];
+    const single: VideoSegment[] = [{ id: 's', startTime: 2, endTime: 4, textId: 'a' }];
+    expect(serializeLRC(single, bilingual)).toBe('[00:02.00]你好 Hello');
+    expect(serializeLRC(single, bilingual, { splitLines: true })).toBe('[00:02.00]你好\n[00:02.00]Hello');
+  });
+
+  it('写出逐字时间与行尾时间', () => {
+    const karaoke: VideoSegment[] = [{
+      id: 's', startTime: 10, endTime: 12, textId: 'b',
+      words: [{ text: 'Second ', offset: 0 }, { text: 'line', offset: 0.75 }]
+    }];
+    expect(serializeLRC(karaoke, blocks, { wordTimings: true })).toBe('[00:10.00]<00:10.00>Second <00:10.75>line<00:12.00>');
+  });
+
+  it('时间在厘秒上进位', () => {
+    expect(formatLrcTime(59.999)).toBe('[01:00.00]');
+    expect(formatLrcTime(-1)).toBe('[00:00.00]');
+  });
+});
+
+describe('LRC 往返', () => {
+  it('导出后再导入得到相同的时间与文本', () => {
+    const text = serializeLRC(segments, blocks, { metadata: { ti: 'Song', ar: 'Singer' } });
+    const parsed = parseLRC(text);
+    expect(parsed.metadata).toEqual({ ti: 'Song', ar: 'Singer' });
+
+    const imported = buildLrcImport(parsed.entries, 6, { shareRepeatedLines: false });
+    expect(imported.segments!.map(s => [s.startTime, s.endTime])).toEqual([[0, 1.5], [1.5, 3.25], [3.25, 6]]);
+    expect(imported.textBlocks.map(b => b.text)).toEqual(['第一句', 'Second line']);
+    expect(imported.segments![1].textId).toBeNull();
+  });
+
+  it('逐字时间往返保持不变', () => {
+    const karaoke: VideoSegment[] = [{
+      id: 's', startTime: 1, endTime: 3, textId: 'b',
+      words: [{ text: 'Second ', offset: 0 }, { text: 'line', offset: 1.25 }]
+    }];
+    const { entries } = parseLRC(serializeLRC(karaoke, blocks, { wordTimings: true }));
+    expect(entries[0].text).toBe('Second line');
+    expect(entries[0].words).toEqual(karaoke[0].words);
+  });
+});
+
+describe('buildLrcImport', () => {
+  it('开头不在 0 秒时补一个空白分段', () => {
+    const { segments: result } = buildLrcImport([{ time: 2, text: 'x' }], 5, { shareRepeatedLines: false });
+    expect(result!.map(s => [s.startTime, s.endTime, s.textId === null])).toEqual([[0, 2, true], [2, 5, false]]);
+  });
+
+  it('同一时间点的不同文本合并为多行并记录', () => {
+    const result = buildLrcImport([{ time: 1, text: '你好' }, { time: 1, text: 'Hello' }], 5, { shareRepeatedLines: false });
+    expect(result.textBlocks.map(b => b.text)).toEqual(['你好\nHello']);
+    expect(result.notes).toEqual([{ kind: 'merged', time: 1, text: 'Hello' }]);
+  });
+
+  it('超出视频时长的条目被丢弃并记录', () => {
+    const result = buildLrcImport([{ time: 1, text: 'a' }, { time: 9, text: 'b' }], 5, { shareRepeatedLines: false });
+    expect(result.textBlocks.map(b => b.text)).toEqual(['a']);
+    expect(result.notes).toEqual([{ kind: 'dropped', time: 9, text: 'b' }]);
+  });
+
+  it('超出视频时长的空行只是结束标记，不计入丢弃', () => {
+    const result = buildLrcImport([{ time: 1, text: 'a' }, { time: 9, text: '' }], 5, { shareRepeatedLines: false });
+    expect(result.segments!.map(s => [s.startTime, s.endTime])).toEqual([[0, 1], [1, 5]]);
+    expect(result.notes).toEqual([]);
+  });
+
+  it('共享重复的歌词行', () => {
+    const entries = [{ time: 1, text: '副歌' }, { time: 2, text: '主歌' }, { time: 3, text: '副歌' }];
+    const shared = buildLrcImport(entries, 5, { shareRepeatedLines: true });
+    expect(shared.textBlocks).toHaveLength(2);
+    // 第 1 秒之前补了一个空白分段
+    expect(shared.segments![1].textId).toBe(shared.segments![3].textId);
+    expect(buildLrcImport(entries, 5, { shareRepeatedLines: false }).textBlocks).toHaveLength(3);
+  });
+
+  it('没有视频时长时只生成文本块', () => {
+    const result = buildLrcImport([{ time: 1, text: 'a' }], 0, { shareRepeatedLines: false });
+    expect(result.segments).toBeNull();
+    expect(result.textBlocks).toHaveLength(1);
+  });
+});
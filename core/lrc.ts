@@ -0,0 +1,237 @@
+import { VideoSegment, TextBlock, WordTiming, getSegmentText, createId, MIN_SEGMENT_DURATION } from './subtitle';
+import { ImportNote } from './import';
+import { getWordTimings } from './karaoke';
+
+// --- LRC 解析与导出 ---
+
+export interface LrcEntry {
+  time: number;
+  text: string;
+  // 增强型 LRC（A2）的 <mm:ss.xx> 逐字时间，offset 相对于该行时间
+  words?: WordTiming[];
+}
+
+// ID 标签，如 ti / ar / al / by / length，键名统一小写并保持文件中的顺序
+export type LrcMetadata = Record<string, string>;
+
+export interface LrcParseResult {
+  entries: LrcEntry[];
+  // 最后一句有文本的歌词的时间，不含结尾的空行结束标记，用于判断是否超出视频长度
+  maxTime: number;
+  metadata: LrcMetadata;
+  // [offset:] 的毫秒值，已应用到 entries 中
+  offset: number;
+  // 应用 offset 后早于 0 秒、被移到开头的条目
+  clamped: LrcEntry[];
+}
+
+// 兼容 [mm:ss]、[mm:ss.x]、[mm:ss.xx]、[mm:ss.xxx] 以及 [mm:ss:xx]
+const TIME_TAG = /\[(\d+):(\d{1,2})(?:[.:](\d{1,3}))?\]/g;
+const ID_TAG = /^\[([a-zA-Z#]+):(.*)\]$/;
+const WORD_TAG = /<(\d+):(\d{1,2})(?:[.:](\d{1,3}))?>/g;
+
+const parseTimeTag = (match: RegExpMatchArray): number => {
+  const minutes = parseInt(match[1], 10);
+  const seconds = parseInt(match[2], 10);
+  const fraction = match[3] ? parseInt(match[3], 10) / Math.pow(10, match[3].length) : 0;
+  return minutes * 60 + seconds + fraction;
+};
+
+// 拆出行内的 <mm:ss.xx> 标签，返回纯文本和每个词的绝对时间；最后一个不带文字的标签只是行尾时间
+const parseWordTags = (lineText: string): { text: string; words: { text: string; time: number }[] | null } => {
+  const matches = Array.from(lineText.matchAll(WORD_TAG));
+  if (matches.length === 0) return { text: lineText, words: null };
+
+  const leading = lineText.slice(0, matches[0].index);
+  const words = matches.map((match, i) => {
+    const start = match.index! + match[0].length;
+    const end = i < matches.length - 1 ? matches[i + 1].index! : lineText.length;
+    return { text: lineText.slice(start, end), time: parseTimeTag(match) };
+  });
+  words[0].text = (leading + words[0].text).trimStart();
+  words[words.length - 1].text = words[words.length - 1].text.trimEnd();
+
+  const nonEmpty = words.filter(word => word.text.length > 0);
+  return { text: nonEmpty.map(word => word.text).join(''), words: nonEmpty.length > 0 ? nonEmpty : null };
+};
+
+export const parseLRC = (text: string): LrcParseResult => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line);
+  const entries: LrcEntry[] = [];
+  const metadata: LrcMetadata = {};
+  let offset = 0;
+
+  lines.forEach(line => {
+    const timeMatches = Array.from(line.matchAll(TIME_TAG));
+
+    if (timeMatches.length === 0) {
+      const idMatch = line.match(ID_TAG);
+      if (!idMatch) return;
+      const key = idMatch[1].toLowerCase();
+      const value = idMatch[2].trim();
+      if (key === 'offset') {
+        const ms = parseInt(value, 10);
+        if (!isNaN(ms)) offset = ms;
+      } else {
+        metadata[key] = value;
+      }
+      return;
+    }
+
+    // 移除所有时间戳，只保留纯文本
+    const { text: lineText, words } = parseWordTags(line.replace(TIME_TAG, '').trim());
+    // 同一行有多个时间标签时，逐字时间以第一个标签为基准
+    const lineTime = parseTimeTag(timeMatches[0]);
+    const wordTimings = words?.map(word => ({ text: word.text, offset: Math.max(0, word.time - lineTime) }));
+
+    timeMatches.forEach(match => {
+      const time = parseTimeTag(match);
+      if (lineText.length > 0 || time > 0) {
+        entries.push(wordTimings ? { time, text: lineText, words: wordTimings } : { time, text: lineText });
+      }
+    });
+  });
+
+  // 正的 offset 表示歌词整体提前显示，标签可能出现在任意位置，因此在全部解析后统一应用
+  const clamped: LrcEntry[] = [];
+  const shifted = entries.map(entry => {
+    const time = entry.time - offset / 1000;
+    if (time >= 0) return { ...entry, time };
+    const moved = { ...entry, time: 0 };
+    clamped.push(moved);
+    return moved;
+  });
+
+  // 只排序不去重，同一时间点的重复条目由 buildLrcImport 合并并计入报告
+  shifted.sort((a, b) => a.time - b.time);
+
+  const maxTime = shifted.reduce((max, entry) => (entry.text ? Math.max(max, entry.time) : max), 0);
+
+  return { entries: shifted, maxTime, metadata, offset, clamped };
+};
+
+// --- LRC 导入 ---
+
+export interface LrcImportOptions {
+  // 重复出现的歌词行（如副歌）共用同一个文本块，否则每个时间点各自生成文本块
+  shareRepeatedLines: boolean;
+}
+
+export interface LrcImportResult {
+  // 没有视频时长时只生成文本块
+  segments: VideoSegment[] | null;
+  textBlocks: TextBlock[];
+  notes: ImportNote[];
+}
+
+// 每个时间点生成一个分段并链接到自己的文本块，直到下一个时间点（最后一个到视频结尾）。
+// 相距不足 MIN_SEGMENT_DURATION 的条目视为同一时间点：相同文本合并为一条，不同文本（如双语歌词）合并为多行。
+export const buildLrcImport = (entries: LrcEntry[], duration: number, options: LrcImportOptions): LrcImportResult => {
+  const notes: ImportNote[] = [];
+  const groups: { time: number; texts: string[]; words?: WordTiming[] }[] = [];
+
+  entries.forEach(entry => {
+    if (duration > 0 && entry.time > duration - MIN_SEGMENT_DURATION) {
+      // 没有文本的条目只是上一行的结束标记，丢弃不影响内容，不计入报告
+      if (entry.text) notes.push({ kind: 'dropped', time: entry.time, text: entry.text });
+      return;
+    }
+    const last = groups[groups.length - 1];
+    if (!last || entry.time - last.time >= MIN_SEGMENT_DURATION) {
+      groups.push({ time: entry.time, texts: entry.text ? [entry.text] : [], words: entry.words });
+      return;
+    }
+    // 空文本只是上一句的结束标记，与同一时间点的歌词重合时直接忽略
+    if (!entry.text) return;
+    if (last.texts.length > 0) notes.push({ kind: 'merged', time: entry.time, text: entry.text });
+    else last.words = entry.words;
+    if (!last.texts.includes(entry.text)) {
+      last.texts.push(entry.text);
+      // 多行合并后逐字时间不再对应文本
+      if (last.texts.length > 1) last.words = undefined;
+    }
+  });
+
+  const textBlocks: TextBlock[] = [];
+  const blocksByText = new Map<string, TextBlock>();
+  const blockIds = groups.map(group => {
+    if (group.texts.length === 0) return null;
+    const text = group.texts.join('\n');
+    const shared = options.shareRepeatedLines ? blocksByText.get(text) : undefined;
+    if (shared) return shared.id;
+    const block = { id: createId(), text };
+    textBlocks.push(block);
+    blocksByText.set(text, block);
+    return block.id;
+  });
+
+  if (duration <= 0) return { segments: null, textBlocks, notes };
+
+  const segments: VideoSegment[] = [];
+  groups.forEach((group, i) => {
+    // 第一个时间点非常靠近开头时直接从 0 开始，否则开头补一个空白分段
+    let startTime = group.time;
+    if (i === 0 && startTime < MIN_SEGMENT_DURATION) startTime = 0;
+    else if (i === 0) segments.push({ id: createId(), startTime: 0, endTime: startTime, textId: null });
+    const endTime = i < groups.length - 1 ? groups[i + 1].time : duration;
+    const segment: VideoSegment = { id: createId(), startTime, endTime, textId: blockIds[i] };
+    segments.push(group.words ? { ...segment, words: group.words } : segment);
+  });
+  if (segments.length === 0) segments.push({ id: createId(), startTime: 0, endTime: duration, textId: null });
+
+  return { segments, textBlocks, notes };
+};
+
+const formatLrcClock = (seconds: number): string => {
+  const total = Math.max(0, Math.round(seconds * 100));
+  const m = Math.floor(total / 6000);
+  const s = Math.floor((total % 6000) / 100);
+  const cs = total % 100;
+  return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}.${cs.toString().padStart(2, '0')}`;
+};
+
+export const formatLrcTime = (seconds: number): string => `[${formatLrcClock(seconds)}]`;
+
+const flattenLines = (text: string) => text.replace(/\s*\n\s*/g, ' ');
+
+// A2 增强格式：每个词前写出 <mm:ss.xx>，行尾再写出分段结束时间
+const formatEnhancedLine = (segment: VideoSegment, text: string): string => {
+  const words = getWordTimings(segment, text)
+    .map(word => `<${formatLrcClock(segment.startTime + word.offset)}>${flattenLines(word.text)}`)
+    .join('');
+  return `${words}<${formatLrcClock(segment.endTime)}>`;
+};
+
+// 每个分段输出一行，未分配文本的分段输出空行以保留停顿。
+// 时间已是最终值，因此不再写出 [offset:]
+export interface LrcExportOptions {
+  metadata: LrcMetadata;
+  // 写出 <mm:ss.xx> 逐字时间
+  wordTimings: boolean;
+  // 多行文本拆成同一时间点的多行（双语歌词），否则合并为一行
+  splitLines: boolean;
+}
+
+export const serializeLRC = (
+  segments: VideoSegment[],
+  blocks: TextBlock[],
+  options: Partial<LrcExportOptions> = {}
+): string => {
+  const tagLines = Object.entries(options.metadata ?? {})
+    .filter(([key]) => key !== 'offset')
+    .map(([key, value]) => `[${key}:${value}]`);
+  const lyricLines = segments.flatMap(s => {
+    const text = getSegmentText(s, blocks);
+    const time = formatLrcTime(s.startTime);
+    if (options.splitLines && text.includes('\n')) {
+      // 逐字时间只对应第一行（主轨道），其余行按普通歌词输出
+      const [first, ...rest] = text.split('\n');
+      const firstBody = options.wordTimings ? formatEnhancedLine(s, first) : first;
+      return [`${time}${firstBody}`, ...rest.map(line => `${time}${line}`)];
+    }
+    // LRC 不支持多行文本，从 SRT / ASS 导入的换行合并为空格
+    const body = options.wordTimings && text ? formatEnhancedLine(s, text) : flattenLines(text);
+    return [`${time}${body}`];
+  });
+  return [...tagLines, ...lyricLines].join('\n');
+};
@@ -0,0 +1,31 @@
+// --- 波形峰值 ---
+
+// 每秒的峰值数量，足够在放大后的时间轴上保持清晰
+export const PEAKS_PER_SECOND = 100;
+
+// 把采样切成 bucketCount 个区间，每个区间取绝对值的最大值
+export const computePeaks = (samples: Float32Array, bucketCount: number): Float32Array => {
+  const peaks = new Float32Array(bucketCount);
+  if (samples.length === 0 || bucketCount === 0) return peaks;
+
+  const bucketSize = samples.length / bucketCount;
+  for (let b = 0; b < bucketCount; b++) {
+    const start = Math.floor(b * bucketSize);
+    const end = Math.min(samples.length, Math.max(start + 1, Math.floor((b + 1) * bucketSize)));
+    let max = 0;
+    for (let i = start; i < end; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > max) max = value;
+    }
+    peaks[b] = max;
+  }
+  return peaks;
+};
+
+// 以最大峰值为 1 归一化，安静的视频也能看清起伏
+export const normalizePeaks = (peaks: Float32Array): Float32Array => {
+  let max = 0;
+  for (let i = 0; i < peaks.length; i++) if (peaks[i] > max) max = peaks[i];
+  if (max === 0) return peaks;
+  return peaks.map(p => p / max);
+};
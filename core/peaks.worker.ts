@@ -0,0 +1,14 @@
+import { computePeaks, normalizePeaks } from './peaks';
+
+// --- 波形计算 Worker ---
+// 长视频的采样有数千万个，放在 Worker 中计算避免阻塞界面。
+
+interface PeaksRequest {
+  samples: Float32Array;
+  bucketCount: number;
+}
+
+self.onmessage = (e: MessageEvent<PeaksRequest>) => {
+  const peaks = normalizePeaks(computePeaks(e.data.samples, e.data.bucketCount));
+  (self as unknown as Worker).postMessage(peaks, [peaks.buffer]);
+};
@@ -0,0 +1,52 @@
+import { VideoSegment } from './subtitle';
+import { TimeRange } from './silence';
+
+// --- 播放速率与步进 ---
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+// 浏览器无法直接读取视频帧率，逐帧步进按 30fps 近似
+export const FRAME_DURATION = 1 / 30;
+export const FINE_STEP = 0.1;
+
+export const stepPlaybackRate = (rate: number, direction: 1 | -1): number => {
+  let index = PLAYBACK_RATES.findIndex(r => r >= rate);
+  if (index === -1) index = PLAYBACK_RATES.length - 1;
+  else if (PLAYBACK_RATES[index] > rate && direction === 1) index--;
+  const next = Math.max(0, Math.min(PLAYBACK_RATES.length - 1, index + direction));
+  return PLAYBACK_RATES[next];
+};
+
+// --- 边界跳转 ---
+
+// 跳转时忽略紧贴当前位置的边界，连续按键才能逐个后退
+const BOUNDARY_EPSILON = 0.01;
+
+export const findAdjacentBoundary = (segments: VideoSegment[], time: number, direction: 1 | -1): number | null => {
+  const boundaries = new Set<number>();
+  segments.forEach(seg => {
+    boundaries.add(seg.startTime);
+    boundaries.add(seg.endTime);
+  });
+  const sorted = Array.from(boundaries).sort((a, b) => a - b);
+
+  if (direction === 1) return sorted.find(t => t > time + BOUNDARY_EPSILON) ?? null;
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    if (sorted[i] < time - BOUNDARY_EPSILON) return sorted[i];
+  }
+  return null;
+};
+
+// --- 循环播放 ---
+
+// 循环当前分段时只记录分段 id，边界调整后循环区间随之更新
+export type LoopTarget = { segmentId: string } | TimeRange;
+
+export const resolveLoopRange = (loop: LoopTarget | null, segments: VideoSegment[]): TimeRange | null => {
+  if (!loop) return null;
+  if ('segmentId' in loop) {
+    const segment = segments.find(seg => seg.id === loop.segmentId);
+    return segment ? { start: segment.startTime, end: segment.endTime } : null;
+  }
+  return loop;
+};
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { saveProject, loadProject, listProjects, deleteProject, matchesVideo, formatFileSize, Project } from './project';
+import { DEFAULT_ASS_STYLE } from './ass';
+
+// 测试在 node 中运行，没有 chrome.storage，storage 退回到 localStorage
+const createMemoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); }
+  };
+};
+
+const makeProject = (id: string, updatedAt: number): Project => ({
+  id,
+  name: `项目 ${id}`,
+  updatedAt,
+  video: { fileName: 'video.mp4', size: 1024, duration: 10 },
+  segments: [{ id: 's1', startTime: 0, endTime: 10, textId: 'a' }],
+  textBlocks: [{ id: 'a', text: '第一句' }, { id: 'b', text: '第二句' }],
+  lrcMetadata: {},
+  assStyle: DEFAULT_ASS_STYLE
+});
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', createMemoryStorage());
+});
+
+describe('项目持久化', () => {
+  it('保存后可以读回完整项目', async () => {
+    const project = makeProject('p1', 1);
+    await saveProject(project);
+    expect(await loadProject('p1')).toEqual(project);
+    expect(await loadProject('missing')).toBeUndefined();
+  });
+
+  it('项目列表保存摘要并按修改时间倒序', async () => {
+    await saveProject(makeProject('p1', 1));
+    await saveProject(makeProject('p2', 3));
+    await saveProject(makeProject('p3', 2));
+    const list = await listProjects();
+    expect(list.map(p => p.id)).toEqual(['p2', 'p3', 'p1']);
+    expect(list[0]).toEqual({
+      id: 'p2',
+      name: '项目 p2',
+      updatedAt: 3,
+      video: { fileName: 'video.mp4', size: 1024, duration: 10 },
+      segmentCount: 1,
+      textBlockCount: 2
+    });
+  });
+
+  it('再次保存时更新列表中的摘要而不是重复添加', async () => {
+    await saveProject(makeProject('p1', 1));
+    await saveProject({ ...makeProject('p1', 5), name: '改名' });
+    const list = await listProjects();
+    expect(list).toHaveLength(1);
+    expect(list[0]).toMatchObject({ name: '改名', updatedAt: 5 });
+  });
+
+  it('删除项目及其摘要', async () => {
+    await saveProject(makeProject('p1', 1));
+    await saveProject(makeProject('p2', 2));
+    await deleteProject('p1');
+    expect(await loadProject('p1')).toBeUndefined();
+    expect((await listProjects()).map(p => p.id)).toEqual(['p2']);
+  });
+
+  it('没有保存过项目时列表为空', async () => {
+    expect(await listProjects()).toEqual([]);
+  });
+});
+
+describe('matchesVideo', () => {
+  it('文件名与大小都一致时视为同一个视频', () => {
+    const expected = { fileName: 'video.mp4', size: 1024, duration: 10 };
+    expect(matchesVideo(expected, { name: 'video.mp4', size: 1024 })).toBe(true);
+    expect(matchesVideo(expected, { name: 'video.mp4', size: 2048 })).toBe(false);
+    expect(matchesVideo(expected, { name: 'other.mp4', size: 1024 })).toBe(false);
+  });
+});
+
+describe('formatFileSize', () => {
+  it('按大小选择单位', () => {
+    expect(formatFileSize(512)).toBe('0.5 KB');
+    expect(formatFileSize(5 * 1024 * 1024)).toBe('5.0 MB');
+    expect(formatFileSize(3 * 1024 * 1024 * 1024)).toBe('3.00 GB');
+  });
+});
@@ -0,0 +1,83 @@
+import { VideoSegment, TextBlock, createId } from './subtitle';
+import { LrcMetadata } from './lrc';
+import { AssStyle } from './ass';
+import { TextTrack } from './tracks';
+import { Speaker } from './speakers';
+import { storage } from './storage';
+
+// --- 项目持久化 ---
+
+// 重新打开项目时用于匹配视频文件的信息，视频本身不会被保存
+export interface VideoInfo {
+  fileName: string;
+  size: number;
+  duration: number;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  updatedAt: number;
+  video: VideoInfo | null;
+  segments: VideoSegment[];
+  textBlocks: TextBlock[];
+  // 旧版本保存的项目没有附加轨道与角色表
+  tracks?: TextTrack[];
+  cast?: Speaker[];
+  lrcMetadata: LrcMetadata;
+  assStyle: AssStyle;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  video: VideoInfo | null;
+  segmentCount: number;
+  textBlockCount: number;
+}
+
+const INDEX_KEY = 'projects';
+const projectKey = (id: string) => `project:${id}`;
+
+export const createProjectId = createId;
+
+const summarize = (project: Project): ProjectSummary => ({
+  id: project.id,
+  name: project.name,
+  updatedAt: project.updatedAt,
+  video: project.video,
+  segmentCount: project.segments.length,
+  textBlockCount: project.textBlocks.length
+});
+
+// 按最近修改时间倒序
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const index = await storage.get<ProjectSummary[]>(INDEX_KEY);
+  return [...(index ?? [])].sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = (id: string): Promise<Project | undefined> =>
+  storage.get<Project>(projectKey(id));
+
+export const saveProject = async (project: Project): Promise<void> => {
+  await storage.set(projectKey(project.id), project);
+  const index = await listProjects();
+  await storage.set(INDEX_KEY, [summarize(project), ...index.filter(p => p.id !== project.id)]);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await storage.remove(projectKey(id));
+  const index = await listProjects();
+  await storage.set(INDEX_KEY, index.filter(p => p.id !== id));
+};
+
+// 文件名与大小都一致时视为同一个视频
+export const matchesVideo = (expected: VideoInfo, file: { name: string; size: number }): boolean =>
+  expected.fileName === file.name && expected.size === file.size;
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
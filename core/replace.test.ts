@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_FIND_OPTIONS, FindOptions, compileFindPattern, findMatches, replaceInBlocks, filterScope } from './replace';
+import { TextBlock } from './subtitle';
+
+const blocks: TextBlock[] = [
+  { id: 'a', text: '张三说：你好，Tom。' },
+  { id: 'b', text: 'tom and Tommy' },
+  { id: 'c', text: '价格 $5' }
+];
+const all = new Set(blocks.map(b => b.id));
+
+const run = (patch: Partial<FindOptions>) => {
+  const options = { ...DEFAULT_FIND_OPTIONS, ...patch };
+  const { pattern } = compileFindPattern(options);
+  return { options, pattern: pattern! };
+};
+
+describe('compileFindPattern', () => {
+  it('空查询不生成表达式', () => {
+    expect(compileFindPattern(DEFAULT_FIND_OPTIONS)).toEqual({ pattern: null, error: null });
+  });
+
+  it('无效的正则返回错误信息', () => {
+    const result = compileFindPattern({ ...DEFAULT_FIND_OPTIONS, query: '(ab', regex: true });
+    expect(result.pattern).toBeNull();
+    expect(result.error).toBeTruthy();
+  });
+
+  it('普通模式下特殊字符按字面匹配', () => {
+    const { pattern } = run({ query: '$5' });
+    expect(pattern.test('价格 $5')).toBe(true);
+  });
+});
+
+describe('findMatches', () => {
+  it('默认不区分大小写，记录每处匹配的位置', () => {
+    const { options, pattern } = run({ query: 'tom' });
+    const matches = findMatches(blocks, pattern, options, all);
+    expect(matches.map(m => [m.index, m.ranges])).toEqual([[0, [[7, 10]]], [1, [[0, 3], [8, 11]]]]);
+  });
+
+  it('全词匹配与区分大小写', () => {
+    const whole = run({ query: 'tom', wholeWord: true });
+    expect(findMatches(blocks, whole.pattern, whole.options, all).map(m => m.ranges.length)).toEqual([1, 1]);
+    const exact = run({ query: 'Tom', caseSensitive: true });
+    expect(findMatches(blocks, exact.pattern, exact.options, all).map(m => m.blockId)).toEqual(['a', 'b']);
+  });
+
+  it('普通模式下替换文本中的 $ 按字面处理，正则模式下可以引用分组', () => {
+    const plain = run({ query: 'Tom', replacement: '$&!', caseSensitive: true });
+    expect(findMatches(blocks, plain.pattern, plain.options, all)[0].result).toBe('张三说：你好，$&!。');
+    const regex = run({ query: '(t)om', replacement: '$1im', regex: true, caseSensitive: true });
+    expect(findMatches(blocks, regex.pattern, regex.options, all)[0].result).toBe('tim and Tommy');
+  });
+});
+
+describe('replaceInBlocks', () => {
+  it('只修改范围内的行', () => {
+    const { options, pattern } = run({ query: 'tom', replacement: 'Jerry', wholeWord: true });
+    const result = replaceInBlocks(blocks, pattern, options, new Set(['b']));
+    expect(result.changed).toBe(1);
+    expect(result.blocks.map(b => b.text)).toEqual(['张三说：你好，Tom。', 'Jerry and Tommy', '价格 $5']);
+  });
+
+  it('没有变化时返回原数组', () => {
+    const { options, pattern } = run({ query: 'zzz' });
+    expect(replaceInBlocks(blocks, pattern, options, all).blocks).toBe(blocks);
+  });
+});
+
+describe('filterScope', () => {
+  it('按勾选或分配筛选', () => {
+    expect(filterScope(blocks, 'all', new Set(), new Set()).size).toBe(3);
+    expect([...filterScope(blocks, 'selected', new Set(['c', 'x']), new Set())]).toEqual(['c']);
+    expect([...filterScope(blocks, 'assigned', new Set(), new Set(['a']))]).toEqual(['a']);
+  });
+});
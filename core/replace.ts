@@ -0,0 +1,105 @@
+import { TextBlock } from './subtitle';
+
+// --- 查找与替换 ---
+
+export interface FindOptions {
+  query: string;
+  replacement: string;
+  // 按正则表达式匹配，替换文本中可以使用 $1、$& 等引用
+  regex: boolean;
+  caseSensitive: boolean;
+  // 只匹配完整的单词，仅对字母与数字生效，中文仍按字匹配
+  wholeWord: boolean;
+}
+
+export const DEFAULT_FIND_OPTIONS: FindOptions = {
+  query: '',
+  replacement: '',
+  regex: false,
+  caseSensitive: false,
+  wholeWord: false
+};
+
+// 作用范围：全部文本、勾选的文本、已分配给分段的文本
+export type BlockScope = 'all' | 'selected' | 'assigned';
+
+export const BLOCK_SCOPE_LABELS: Record<BlockScope, string> = {
+  all: '全部文本',
+  selected: '勾选的文本',
+  assigned: '已分配的文本'
+};
+
+export const filterScope = (
+  blocks: TextBlock[],
+  scope: BlockScope,
+  selectedIds: Set<string>,
+  assignedIds: Set<string>
+): Set<string> => {
+  if (scope === 'selected') return new Set(blocks.filter(b => selectedIds.has(b.id)).map(b => b.id));
+  if (scope === 'assigned') return new Set(blocks.filter(b => assignedIds.has(b.id)).map(b => b.id));
+  return new Set(blocks.map(b => b.id));
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// 输入过程中经常出现不完整的正则，返回错误信息而不是抛出
+export const compileFindPattern = (options: FindOptions): { pattern: RegExp | null; error: string | null } => {
+  if (!options.query) return { pattern: null, error: null };
+  let source = options.regex ? options.query : escapeRegExp(options.query);
+  if (options.wholeWord) source = `(?<![A-Za-z0-9_])(?:${source})(?![A-Za-z0-9_])`;
+  try {
+    return { pattern: new RegExp(source, options.caseSensitive ? 'g' : 'gi'), error: null };
+  } catch (e) {
+    return { pattern: null, error: e instanceof Error ? e.message : '无效的正则表达式' };
+  }
+};
+
+export interface BlockMatch {
+  blockId: string;
+  // 在字幕库中的行号（从 0 开始）
+  index: number;
+  text: string;
+  result: string;
+  // 每处匹配在原文中的起止位置，用于预览高亮
+  ranges: [number, number][];
+}
+
+// 普通模式下替换文本中的 $ 按字面处理
+const replacementFor = (options: FindOptions): string =>
+  options.regex ? options.replacement : options.replacement.replace(/\$/g, '$$$$');
+
+export const findMatches = (
+  blocks: TextBlock[],
+  pattern: RegExp,
+  options: FindOptions,
+  scopeIds: Set<string>
+): BlockMatch[] => {
+  const replacement = replacementFor(options);
+  const matches: BlockMatch[] = [];
+  blocks.forEach((block, index) => {
+    if (!scopeIds.has(block.id)) return;
+    const ranges = Array.from(block.text.matchAll(pattern), (m): [number, number] => [m.index!, m.index! + m[0].length]);
+    if (ranges.length === 0) return;
+    matches.push({ blockId: block.id, index, text: block.text, result: block.text.replace(pattern, replacement), ranges });
+  });
+  return matches;
+};
+
+// 只替换结果与原文不同的行，返回新的文本列表与修改的行数
+export const replaceInBlocks = (
+  blocks: TextBlock[],
+  pattern: RegExp,
+  options: FindOptions,
+  scopeIds: Set<string>
+): { blocks: TextBlock[]; changed: number } => {
+  const results = new Map(
+    findMatches(blocks, pattern, options, scopeIds)
+      .filter(match => match.result !== match.text)
+      .map(match => [match.blockId, match.result])
+  );
+  if (results.size === 0) return { blocks, changed: 0 };
+  return {
+    blocks: blocks.map(b => results.has(b.id) ? { ...b, text: results.get(b.id)! } : b),
+    changed: results.size
+  };
+};
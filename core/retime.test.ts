@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { retimeSegments, transformFromAnchors, shiftSelectedSegments } from './retime';
+import { VideoSegment } from './subtitle';
+
+const segments: VideoSegment[] = [
+  { id: 's1', startTime: 0, endTime: 2, textId: null },
+  { id: 's2', startTime: 2, endTime: 4, textId: 'a', words: [{ text: 'x', offset: 1 }] },
+  { id: 's3', startTime: 4, endTime: 10, textId: 'b' }
+];
+
+describe('transformFromAnchors', () => {
+  it('由两个校准点得到倍率与偏移', () => {
+    expect(transformFromAnchors({ from: 10, to: 12 }, { from: 20, to: 32 })).toEqual({ scale: 2, offset: -8 });
+  });
+
+  it('校准点重合或顺序颠倒时返回 null', () => {
+    expect(transformFromAnchors({ from: 5, to: 1 }, { from: 5, to: 2 })).toBeNull();
+    expect(transformFromAnchors({ from: 1, to: 5 }, { from: 2, to: 4 })).toBeNull();
+  });
+});
+
+describe('retimeSegments', () => {
+  it('平移后裁剪到视频范围并统计截短的分段', () => {
+    const result = retimeSegments(segments, { scale: 1, offset: 1 }, 10);
+    expect(result.segments.map(s => [s.startTime, s.endTime])).toEqual([[0, 3], [3, 5], [5, 10]]);
+    expect(result.clipped).toBe(1);
+    expect(result.dropped).toBe(0);
+  });
+
+  it('逐字时间随分段一起缩放', () => {
+    const result = retimeSegments(segments, { scale: 0.5, offset: 0 }, 10);
+    const scaled = result.segments.find(s => s.id === 's2')!;
+    expect([scaled.startTime, scaled.endTime]).toEqual([1, 2]);
+    expect(scaled.words).toEqual([{ text: 'x', offset: 0.5 }]);
+    // 结尾空出的部分补空白分段
+    expect(result.segments[result.segments.length - 1]).toMatchObject({ startTime: 5, endTime: 10, textId: null });
+  });
+
+  it('完全移出视频范围的分段被删除并统计', () => {
+    const result = retimeSegments(segments, { scale: 1, offset: -5 }, 10);
+    expect(result.dropped).toBe(1);
+    expect(result.segments.some(s => s.id === 's2')).toBe(false);
+  });
+});
+
+describe('shiftSelectedSegments', () => {
+  it('只移动选中分段，相邻分段伸缩', () => {
+    const result = shiftSelectedSegments(segments, new Set(['s2']), 0.5);
+    expect(result.map(s => [s.startTime, s.endTime])).toEqual([[0, 2.5], [2.5, 4.5], [4.5, 10]]);
+  });
+
+  it('平移量不会把相邻分段压缩到最短长度以下', () => {
+    const result = shiftSelectedSegments(segments, new Set(['s2']), -5);
+    expect(result[0].endTime).toBeCloseTo(0.05);
+  });
+});
@@ -0,0 +1,111 @@
+import { VideoSegment, MIN_SEGMENT_DURATION, createId } from './subtitle';
+
+// --- 整体时间调整 ---
+
+// t' = t * scale + offset
+export interface LinearTransform {
+  scale: number;
+  offset: number;
+}
+
+export interface RetimeResult {
+  segments: VideoSegment[];
+  // 被移出视频范围而删除的已分配分段数
+  dropped: number;
+  // 超出视频范围而被截短的已分配分段数
+  clipped: number;
+}
+
+export const applyTransform = (time: number, transform: LinearTransform): number =>
+  time * transform.scale + transform.offset;
+
+// 校准点：分段原来的时间与它应当出现的时间
+export interface ResyncAnchor {
+  from: number;
+  to: number;
+}
+
+// 两个校准点确定一条直线，同时修正恒定偏移与速度漂移
+export const transformFromAnchors = (a: ResyncAnchor, b: ResyncAnchor): LinearTransform | null => {
+  if (Math.abs(b.from - a.from) < MIN_SEGMENT_DURATION) return null;
+  const scale = (b.to - a.to) / (b.from - a.from);
+  if (!isFinite(scale) || scale <= 0) return null;
+  return { scale, offset: a.to - a.from * scale };
+};
+
+// 对全部分段应用同一变换，裁剪到 [0, duration]，首尾空出的部分补空白分段
+export const retimeSegments = (segments: VideoSegment[], transform: LinearTransform, duration: number): RetimeResult => {
+  const result: VideoSegment[] = [];
+  let dropped = 0;
+  let clipped = 0;
+
+  segments.forEach(seg => {
+    const rawStart = applyTransform(seg.startTime, transform);
+    const rawEnd = applyTransform(seg.endTime, transform);
+    const startTime = Math.max(0, rawStart);
+    const endTime = Math.min(duration, rawEnd);
+    const isClipped = startTime !== rawStart || endTime !== rawEnd;
+
+    // 中间的分段即使变得很短也保留，保证相邻分段首尾相接
+    if (isClipped && endTime - startTime < MIN_SEGMENT_DURATION) {
+      if (seg.textId) dropped++;
+      return;
+    }
+    if (isClipped && seg.textId) clipped++;
+    // 逐字时间随分段一起变换
+    const words = seg.words?.map(w => ({
+      ...w,
+      offset: Math.max(0, applyTransform(seg.startTime + w.offset, transform) - startTime)
+    }));
+    result.push(words ? { ...seg, startTime, endTime, words } : { ...seg, startTime, endTime });
+  });
+
+  if (result.length === 0) {
+    return { segments: [{ id: createId(), startTime: 0, endTime: duration, textId: null }], dropped, clipped };
+  }
+
+  const first = result[0];
+  if (first.startTime > 0) {
+    if (!first.textId || first.startTime < MIN_SEGMENT_DURATION) result[0] = { ...first, startTime: 0 };
+    else result.unshift({ id: createId(), startTime: 0, endTime: first.startTime, textId: null });
+  }
+
+  const last = result[result.length - 1];
+  if (last.endTime < duration) {
+    if (!last.textId || duration - last.endTime < MIN_SEGMENT_DURATION) result[result.length - 1] = { ...last, endTime: duration };
+    else result.push({ id: createId(), startTime: last.endTime, endTime: duration, textId: null });
+  }
+
+  return { segments: result, dropped, clipped };
+};
+
+// 只平移选中的分段：与选中分段相接的边界一起移动，相邻的未选中分段伸缩以保持首尾相接。
+// 平移量会被限制在不把任何分段压缩到最短长度以下的范围内。
+export const shiftSelectedSegments = (segments: VideoSegment[], ids: Set<string>, offset: number): VideoSegment[] => {
+  // moves[k] 表示 segments[k - 1] 与 segments[k] 之间的边界是否移动
+  const moves = segments.map((seg, k) => k > 0 && (ids.has(seg.id) || ids.has(segments[k - 1].id)));
+  let applied = offset;
+
+  segments.forEach((seg, i) => {
+    const startMoves = moves[i];
+    const endMoves = i < segments.length - 1 && moves[i + 1];
+    if (startMoves === endMoves) return;
+    const room = Math.max(0, seg.endTime - seg.startTime - MIN_SEGMENT_DURATION);
+    // 只有起点移动时向后平移会让分段变短，只有终点移动时向前平移会让分段变短
+    if (startMoves && applied > 0) applied = Math.min(applied, room);
+    if (endMoves && applied < 0) applied = Math.max(applied, -room);
+  });
+
+  if (applied === 0) return segments;
+
+  return segments.map((seg, i) => {
+    const startMoves = moves[i];
+    const endMoves = i < segments.length - 1 && moves[i + 1];
+    if (!startMoves && !endMoves) return seg;
+    return {
+      ...seg,
+      startTime: startMoves ? seg.startTime + applied : seg.startTime,
+      endTime: endMoves ? seg.endTime + applied : seg.endTime
+    };
+  });
+};
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { splitIntoSentences, wrapLine, DEFAULT_SENTENCE_OPTIONS } from './sentences';
+
+const split = (text: string) => splitIntoSentences(text, DEFAULT_SENTENCE_OPTIONS);
+
+describe('splitIntoSentences', () => {
+  it('按中英文句末标点分句，闭合引号归入前一句', () => {
+    expect(split('你好。“走吧！”他说。Really?! Yes.')).toEqual(['你好。', '“走吧！”', '他说。', 'Really?!', 'Yes.']);
+  });
+
+  it('不拆开小数、网址与常见缩写', () => {
+    expect(split('Pi is 3.14. See example.com now. Mr. Smith, e.g. him.')).toEqual([
+      'Pi is 3.14.', 'See example.com now.', 'Mr. Smith, e.g. him.'
+    ]);
+  });
+
+  it('单个字母后的句点照常断开', () => {
+    expect(split('So was I. Then a. B.')).toEqual(['So was I.', 'Then a.', 'B.']);
+  });
+
+  it('省略号后没有空白或接小写字母时不断开', () => {
+    expect(split('我……不知道。')).toEqual(['我……不知道。']);
+    expect(split('Wait... what?')).toEqual(['Wait... what?']);
+  });
+
+  it('省略号后接空白与大写字母或中日韩文字时断开', () => {
+    expect(split('嗯… 好的')).toEqual(['嗯…', '好的']);
+    expect(split('Well... Maybe not.')).toEqual(['Well...', 'Maybe not.']);
+    expect(split('Well...” She left.')).toEqual(['Well...”', 'She left.']);
+  });
+
+  it('问号后的省略号归入同一句', () => {
+    expect(split('真的？…… 我不信')).toEqual(['真的？……', '我不信']);
+  });
+
+  it('按逗号断开时不拆开千位分隔符', () => {
+    expect(splitIntoSentences('共 1,000 人，都来了', { splitOnComma: true, maxLength: 0 })).toEqual(['共 1,000 人，', '都来了']);
+  });
+});
+
+describe('wrapLine', () => {
+  it('超长时优先在软断点处换行，标点不放在行首', () => {
+    expect(wrapLine('第一部分内容，第二部分内容', 8)).toEqual(['第一部分内容，', '第二部分内容']);
+  });
+
+  it('不限制长度时原样返回', () => {
+    expect(wrapLine('很长很长的一行', 0)).toEqual(['很长很长的一行']);
+  });
+});
@@ -0,0 +1,125 @@
+import { displayLength } from './text';
+
+// --- 文案分句 ---
+
+export interface SentenceOptions {
+  // 在逗号、分号处也断开
+  splitOnComma: boolean;
+  // 每行最大字宽（中文计 1，半角字符计 0.5），0 表示不限制
+  maxLength: number;
+}
+
+export const DEFAULT_SENTENCE_OPTIONS: SentenceOptions = {
+  splitOnComma: false,
+  maxLength: 0
+};
+
+const SENTENCE_END = '。！？!?';
+const CLAUSE_END = '，；,;';
+// 紧跟在句末标点后的引号与括号归入前一句
+const CLOSING = '”’」』）)】》"\'';
+// 超长时优先在这些位置换行
+const SOFT_BREAK = '，、；：,;:—';
+// 不能出现在行首的标点，折行时留在上一行
+const NO_LINE_START = '，。、；：！？…,.;:!?' + CLOSING;
+// 句点后仍属于同一句的常见缩写
+const ABBREVIATION = /(?:^|[\s(])(?:mr|mrs|ms|dr|prof|st|jr|sr|vs|etc|e\.g|i\.e|a\.m|p\.m)$/i;
+// 省略号（…、……、...）常用于句中停顿，只有其后是空白再接大写字母或中日韩文字时才断开
+const ELLIPSIS_CHARS = '….';
+const AFTER_ELLIPSIS = new RegExp(`^[${CLOSING}]*\\s+[\\p{Lu}\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}]`, 'u');
+
+// 返回从 i 开始的省略号的结尾位置，i 处不是省略号时返回 -1
+const ellipsisEnd = (text: string, i: number): number => {
+  let end = i;
+  while (end < text.length && ELLIPSIS_CHARS.includes(text[end])) end++;
+  // 单个句点不是省略号
+  return text[i] === '.' && end - i === 1 ? -1 : end;
+};
+
+const isSentenceEnd = (text: string, i: number, options: SentenceOptions): boolean => {
+  const char = text[i];
+  if (SENTENCE_END.includes(char)) return true;
+  if (options.splitOnComma && CLAUSE_END.includes(char)) {
+    // 1,000 这样的数字不断开
+    return !(char === ',' && /\d/.test(text[i - 1] ?? '') && /\d/.test(text[i + 1] ?? ''));
+  }
+  if (ELLIPSIS_CHARS.includes(char)) {
+    // 省略号由它的第一个字符判断，其余字符不单独断开
+    if (ELLIPSIS_CHARS.includes(text[i - 1] ?? '')) return false;
+    const end = ellipsisEnd(text, i);
+    if (end !== -1) return AFTER_ELLIPSIS.test(text.slice(end));
+  }
+  // 英文句点只在其后是空白或结尾时断开，避免拆开 3.14、e.g.、网址等
+  if (char === '.') {
+    const next = text[i + 1];
+    if (ABBREVIATION.test(text.slice(0, i))) return false;
+    return next === undefined || /\s/.test(next) || CLOSING.includes(next);
+  }
+  return false;
+};
+
+const splitParagraph = (paragraph: string, options: SentenceOptions): string[] => {
+  const sentences: string[] = [];
+  let start = 0;
+  let i = 0;
+
+  while (i < paragraph.length) {
+    if (isSentenceEnd(paragraph, i, options)) {
+      // 连续的句末标点（?!、?……、...）视为一个整体，再带上其后的闭合引号
+      let end = i + 1;
+      while (end < paragraph.length && (
+        isSentenceEnd(paragraph, end, options) || SENTENCE_END.includes(paragraph[end]) || ELLIPSIS_CHARS.includes(paragraph[end])
+      )) end++;
+      while (end < paragraph.length && CLOSING.includes(paragraph[end])) end++;
+      sentences.push(paragraph.slice(start, end));
+      start = end;
+      i = end;
+    } else {
+      i++;
+    }
+  }
+  sentences.push(paragraph.slice(start));
+
+  return sentences.map(s => s.trim()).filter(s => s.length > 0);
+};
+
+// 把超长的句子拆成不超过 maxLength 的多行：优先在靠后的软断点处断开，其次是空格，最后硬切
+export const wrapLine = (line: string, maxLength: number): string[] => {
+  if (maxLength <= 0 || displayLength(line) <= maxLength) return [line];
+
+  const chars = Array.from(line);
+  let width = 0;
+  let limit = 0;
+  while (limit < chars.length && width + displayLength(chars[limit]) <= maxLength) {
+    width += displayLength(chars[limit]);
+    limit++;
+  }
+  limit = Math.max(1, limit);
+
+  // 断点不能太靠前，否则会留下很短的行
+  const minBreak = Math.floor(limit / 2);
+  let breakAt = -1;
+  for (let i = limit; i > minBreak; i--) {
+    if (SOFT_BREAK.includes(chars[i - 1])) { breakAt = i; break; }
+  }
+  if (breakAt === -1) {
+    for (let i = limit; i > minBreak; i--) {
+      if (chars[i] === ' ') { breakAt = i; break; }
+    }
+  }
+  if (breakAt === -1) breakAt = limit;
+  while (breakAt < chars.length && NO_LINE_START.includes(chars[breakAt])) breakAt++;
+
+  const head = chars.slice(0, breakAt).join('').trim();
+  const rest = chars.slice(breakAt).join('').trim();
+  return rest ? [head, ...wrapLine(rest, maxLength)] : [head];
+};
+
+// 先按换行分段，再按句末标点分句，最后按最大字宽折行
+export const splitIntoSentences = (text: string, options: SentenceOptions): string[] =>
+  text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .flatMap(paragraph => splitParagraph(paragraph, options))
+    .flatMap(sentence => wrapLine(sentence, options.maxLength));
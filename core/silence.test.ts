@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { detectSilences, proposeCuts, DEFAULT_SILENCE_OPTIONS } from './silence';
+
+const SAMPLE_RATE = 1000;
+
+// 按 [秒数, 振幅] 依次拼接出一段方波信号
+const makeSamples = (parts: [number, number][]): Float32Array => {
+  const values: number[] = [];
+  parts.forEach(([seconds, amplitude]) => {
+    for (let i = 0; i < seconds * SAMPLE_RATE; i++) values.push(i % 2 === 0 ? amplitude : -amplitude);
+  });
+  return new Float32Array(values);
+};
+
+describe('detectSilences', () => {
+  it('找出持续足够长的静音区间，包括开头和结尾', () => {
+    const samples = makeSamples([[0.5, 0], [1, 0.5], [1, 0.001], [1, 0.5], [0.6, 0]]);
+    expect(detectSilences(samples, SAMPLE_RATE, DEFAULT_SILENCE_OPTIONS)).toEqual([
+      { start: 0, end: 0.5 },
+      { start: 1.5, end: 2.5 },
+      { start: 3.5, end: 4.1 }
+    ]);
+  });
+
+  it('忽略短于 minSilence 的停顿', () => {
+    const samples = makeSamples([[1, 0.5], [0.2, 0], [1, 0.5]]);
+    expect(detectSilences(samples, SAMPLE_RATE, DEFAULT_SILENCE_OPTIONS)).toEqual([]);
+  });
+
+  it('按 thresholdDb 判断静音', () => {
+    // 0.005 约为 -46 dBFS
+    const samples = makeSamples([[1, 0.5], [1, 0.005], [1, 0.5]]);
+    expect(detectSilences(samples, SAMPLE_RATE, DEFAULT_SILENCE_OPTIONS)).toEqual([{ start: 1, end: 2 }]);
+    expect(detectSilences(samples, SAMPLE_RATE, { ...DEFAULT_SILENCE_OPTIONS, thresholdDb: -50 })).toEqual([]);
+  });
+});
+
+describe('proposeCuts', () => {
+  it('在静音中点切分，跳过开头和结尾的静音', () => {
+    const silences = [{ start: 0, end: 1 }, { start: 4, end: 5 }, { start: 9, end: 10 }];
+    expect(proposeCuts(silences, [], 10, 1)).toEqual([4.5]);
+  });
+
+  it('与已有边界或已选切点过近的候选被跳过', () => {
+    const silences = [{ start: 2, end: 3 }, { start: 3.2, end: 3.6 }, { start: 6, end: 7 }];
+    expect(proposeCuts(silences, [7], 10, 1)).toEqual([2.5]);
+  });
+});
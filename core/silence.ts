@@ -0,0 +1,74 @@
+// --- 静音检测与自动切分 ---
+
+export interface SilenceOptions {
+  // 低于该音量（dBFS）视为静音
+  thresholdDb: number;
+  // 静音至少持续的秒数
+  minSilence: number;
+  // 切分后每个分段至少保留的秒数
+  minSegment: number;
+}
+
+export const DEFAULT_SILENCE_OPTIONS: SilenceOptions = {
+  thresholdDb: -40,
+  minSilence: 0.4,
+  minSegment: 1
+};
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+// 以 20ms 为一帧计算 RMS 音量
+const FRAME_SECONDS = 0.02;
+
+export const detectSilences = (samples: Float32Array, sampleRate: number, options: SilenceOptions): TimeRange[] => {
+  const frameSize = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+  const frameCount = Math.ceil(samples.length / frameSize);
+  const threshold = Math.pow(10, options.thresholdDb / 20);
+  const frameTime = (frame: number) => Math.min(samples.length, frame * frameSize) / sampleRate;
+
+  const silences: TimeRange[] = [];
+  let silenceStart = -1;
+
+  // 多走一帧，让结尾处的静音也能闭合
+  for (let f = 0; f <= frameCount; f++) {
+    let silent = false;
+    if (f < frameCount) {
+      const start = f * frameSize;
+      const end = Math.min(samples.length, start + frameSize);
+      let sum = 0;
+      for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+      silent = Math.sqrt(sum / (end - start)) < threshold;
+    }
+
+    if (silent && silenceStart === -1) {
+      silenceStart = f;
+    } else if (!silent && silenceStart !== -1) {
+      const range = { start: frameTime(silenceStart), end: frameTime(f) };
+      if (range.end - range.start >= options.minSilence) silences.push(range);
+      silenceStart = -1;
+    }
+  }
+
+  return silences;
+};
+
+// 在每段静音的中点切分。与已有边界或已选切点距离小于 minSegment 的候选会被跳过，
+// 开头和结尾的静音不产生切点。
+export const proposeCuts = (silences: TimeRange[], boundaries: number[], duration: number, minSegment: number): number[] => {
+  const taken = [0, duration, ...boundaries];
+  const cuts: number[] = [];
+
+  silences.forEach(silence => {
+    if (silence.start <= 0 || silence.end >= duration) return;
+    const cut = (silence.start + silence.end) / 2;
+    if (taken.every(t => Math.abs(t - cut) >= minSegment)) {
+      cuts.push(cut);
+      taken.push(cut);
+    }
+  });
+
+  return cuts;
+};
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { splitScript, resolveSpeakerNames, createSpeaker, prefixSpeakers, Speaker } from './speakers';
+import { DEFAULT_SENTENCE_OPTIONS } from './sentences';
+
+const split = (text: string, cast: Speaker[] = []) =>
+  splitScript(text, DEFAULT_SENTENCE_OPTIONS, true, cast).map(line => [line.speaker, line.text]);
+
+describe('splitScript', () => {
+  it('方括号前缀直接识别为角色，同一段拆出的句子属于同一角色', () => {
+    expect(split('【旁白】很久以前。有一座山。\n[Tom] Hi.')).toEqual([
+      ['旁白', '很久以前。'],
+      ['旁白', '有一座山。'],
+      ['Tom', 'Hi.']
+    ]);
+  });
+
+  it('冒号前缀在多段中重复出现时识别为角色', () => {
+    expect(split('小明：你好。\nAlice: Hi.\n小明：再见。')).toEqual([
+      ['小明', '你好。'],
+      [null, 'Alice: Hi.'],
+      ['小明', '再见。']
+    ]);
+  });
+
+  it('冒号前缀的名字在角色表中时识别为角色', () => {
+    const cast = [{ id: 'p1', name: 'Alice', color: '#fff' }];
+    expect(split('Alice: Hi.', cast)).toEqual([['Alice', 'Hi.']]);
+  });
+
+  it('只出现一次的冒号前缀不是角色', () => {
+    expect(split('Note: 注意。\nStep 1: 打开。\n他说：好的。')).toEqual([
+      [null, 'Note: 注意。'],
+      [null, 'Step 1: 打开。'],
+      [null, '他说：好的。']
+    ]);
+  });
+
+  it('网址、时间与纯数字编号不是角色前缀', () => {
+    const text = 'http://example.com\nhttp://example.org\n12:30 出发\n12:45 到达\n1: 第一\n1: 第二';
+    expect(split(text).every(([speaker]) => speaker === null)).toBe(true);
+  });
+
+  it('关闭识别时保留原文', () => {
+    expect(splitScript('【旁白】很久以前', DEFAULT_SENTENCE_OPTIONS, false)).toEqual([{ text: '【旁白】很久以前', speaker: null }]);
+  });
+});
+
+describe('角色表', () => {
+  it('按名字复用已有角色，新名字依次创建', () => {
+    const cast = [{ id: 'p1', name: '小明', color: '#f472b6' }];
+    const result = resolveSpeakerNames(cast, ['小明', null, '小红', '小红']);
+    expect(result.cast).toHaveLength(2);
+    expect(result.speakerIds[0]).toBe('p1');
+    expect(result.speakerIds[1]).toBeNull();
+    expect(result.speakerIds[2]).toBe(result.speakerIds[3]);
+    expect(result.cast[1].color).toBe('#38bdf8');
+  });
+
+  it('新角色使用尚未被占用的颜色', () => {
+    expect(createSpeaker('x', [{ id: 'a', name: 'a', color: '#f472b6' }]).color).toBe('#38bdf8');
+  });
+
+  it('导出时在台词前加角色名', () => {
+    const cast = [{ id: 'p1', name: '小明', color: '#fff' }];
+    expect(prefixSpeakers([{ id: 'a', text: '你好', speakerId: 'p1' }, { id: 'b', text: 'x' }], cast).map(b => b.text))
+      .toEqual(['小明：你好', 'x']);
+  });
+});
@@ -0,0 +1,136 @@
+import { VideoSegment, TextBlock, createId, findBlock } from './subtitle';
+import { SentenceOptions, splitIntoSentences } from './sentences';
+
+// --- 角色 ---
+// 文本块通过 speakerId 关联角色表中的角色，角色颜色用于时间轴与字幕库的区分。
+
+export interface Speaker {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export const SPEAKER_COLORS = ['#f472b6', '#38bdf8', '#facc15', '#4ade80', '#fb923c', '#a78bfa', '#f87171', '#2dd4bf'];
+
+// 新角色依次使用调色板中尚未被占用的颜色
+export const createSpeaker = (name: string, cast: Speaker[]): Speaker => {
+  const used = new Set(cast.map(s => s.color));
+  const color = SPEAKER_COLORS.find(c => !used.has(c)) ?? SPEAKER_COLORS[cast.length % SPEAKER_COLORS.length];
+  return { id: createId(), name, color };
+};
+
+export const findSpeaker = (cast: Speaker[], speakerId: string | undefined): Speaker | null =>
+  speakerId ? cast.find(s => s.id === speakerId) ?? null : null;
+
+export const getSegmentSpeaker = (segment: VideoSegment, blocks: TextBlock[], cast: Speaker[]): Speaker | null => {
+  if (!segment.textId || cast.length === 0) return null;
+  return findSpeaker(cast, findBlock(blocks, segment.textId)?.speakerId);
+};
+
+const withoutSpeaker = ({ speakerId: _removed, ...rest }: TextBlock): TextBlock => rest;
+
+export const setBlockSpeaker = (blocks: TextBlock[], blockId: string, speakerId: string | null): TextBlock[] =>
+  blocks.map(b => {
+    if (b.id !== blockId) return b;
+    return speakerId ? { ...b, speakerId } : withoutSpeaker(b);
+  });
+
+// 删除角色时同时清除所有文本块上的引用
+export const clearSpeaker = (blocks: TextBlock[], speakerId: string): TextBlock[] =>
+  blocks.some(b => b.speakerId === speakerId)
+    ? blocks.map(b => b.speakerId === speakerId ? withoutSpeaker(b) : b)
+    : blocks;
+
+// --- 批量导入时识别角色 ---
+
+// 【角色】台词 / [角色] 台词
+const BRACKET_PREFIX = /^[【\[]([^】\]]{1,20})[】\]]\s*(.+)$/;
+// 角色：台词 / Name: line。名字最长 20 字，只能包含文字、数字、空格与 . _ ' -，以免把普通句子误当作角色
+const COLON_PREFIX = /^([\p{L}\p{N}][\p{L}\p{N} ._'-]{0,19})\s*[:：]\s*(.+)$/u;
+// http://、mailto: 等网址不是角色前缀
+const URL_SCHEME = /^(?:[a-z][a-z\d+.-]*:\/\/|(?:mailto|tel):)/i;
+
+interface SpeakerPrefix {
+  name: string;
+  text: string;
+  // 【角色】形式的前缀是明确的标记；冒号前缀可能只是“Note:”“他说：”这样的普通句子
+  bracketed: boolean;
+}
+
+const matchSpeakerPrefix = (line: string): SpeakerPrefix | null => {
+  const bracket = line.match(BRACKET_PREFIX);
+  const match = bracket ?? (URL_SCHEME.test(line) ? null : line.match(COLON_PREFIX));
+  if (!match) return null;
+  const name = match[1].trim();
+  // 12:30、[00:12.34] 这样的时间与纯数字编号不是角色名
+  if (/^[\d:.]+$/.test(name)) return null;
+  return { name, text: match[2].trim(), bracketed: bracket !== null };
+};
+
+export interface ScriptLine {
+  text: string;
+  speaker: string | null;
+}
+
+// 逐段识别角色前缀后再分句，同一段拆出的多句台词属于同一个角色。
+// 冒号前缀只有在名字已在角色表中，或同一名字出现在多段开头时才视为角色
+export const splitScript = (
+  text: string,
+  options: SentenceOptions,
+  detectSpeakers: boolean,
+  cast: Speaker[] = []
+): ScriptLine[] => {
+  const paragraphs = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+  const prefixes = paragraphs.map(paragraph => detectSpeakers ? matchSpeakerPrefix(paragraph) : null);
+
+  const knownNames = new Set(cast.map(s => s.name));
+  const colonCounts = new Map<string, number>();
+  prefixes.forEach(prefix => {
+    if (prefix && !prefix.bracketed) colonCounts.set(prefix.name, (colonCounts.get(prefix.name) ?? 0) + 1);
+  });
+  const isSpeaker = (prefix: SpeakerPrefix) =>
+    prefix.bracketed || knownNames.has(prefix.name) || (colonCounts.get(prefix.name) ?? 0) > 1;
+
+  return paragraphs.flatMap((paragraph, i) => {
+    const prefix = prefixes[i];
+    const { name, text: body } = prefix && isSpeaker(prefix) ? prefix : { name: null, text: paragraph };
+    return splitIntoSentences(body, options).map(sentence => ({ text: sentence, speaker: name }));
+  });
+};
+
+// 按名字查找角色，不存在时新建。返回更新后的角色表与每一行对应的角色 id
+export const resolveSpeakerNames = (
+  cast: Speaker[],
+  names: (string | null)[]
+): { cast: Speaker[]; speakerIds: (string | null)[] } => {
+  let result = cast;
+  const speakerIds = names.map(name => {
+    if (!name) return null;
+    const existing = result.find(s => s.name === name);
+    if (existing) return existing.id;
+    const speaker = createSpeaker(name, result);
+    result = [...result, speaker];
+    return speaker.id;
+  });
+  return { cast: result, speakerIds };
+};
+
+// --- 导出 ---
+
+// omit：不输出角色；prefix：在台词前加“角色：”；voice：ASS 的 Name 字段 / VTT 的 <v> 标签
+export type SpeakerExportMode = 'omit' | 'prefix' | 'voice';
+
+export const SPEAKER_EXPORT_LABELS: Record<SpeakerExportMode, string> = {
+  omit: '不导出角色',
+  prefix: '台词前加角色名',
+  voice: '角色标签（ASS 说话人 / VTT <v>）'
+};
+
+export const prefixSpeakers = (blocks: TextBlock[], cast: Speaker[]): TextBlock[] =>
+  blocks.map(b => {
+    const speaker = findSpeaker(cast, b.speakerId);
+    return speaker ? { ...b, text: `${speaker.name}：${b.text}` } : b;
+  });
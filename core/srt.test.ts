@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { parseSRT, serializeSRT, stripCueMarkup } from './srt';
+import { VideoSegment, TextBlock } from './subtitle';
+
+const blocks: TextBlock[] = [
+  { id: 'a', text: '第一句' },
+  { id: 'b', text: '两行\n字幕' }
+];
+
+const segments: VideoSegment[] = [
+  { id: 's1', startTime: 0, endTime: 1.5, textId: 'a' },
+  { id: 's2', startTime: 1.5, endTime: 2, textId: null },
+  { id: 's3', startTime: 2, endTime: 3723.456, textId: 'b' }
+];
+
+describe('serializeSRT', () => {
+  it('按顺序编号，跳过未分配的分段', () => {
+    expect(serializeSRT(segments, blocks, { includeEmpty: false })).toBe(
+      '1\n00:00:00,000 --> 00:00:01,500\n第一句\n\n2\n00:00:02,000 --> 01:02:03,456\n两行\n字幕\n'
+    );
+  });
+
+  it('includeEmpty 时输出空白字幕', () => {
+    const text = serializeSRT(segments, blocks, { includeEmpty: true });
+    expect(text).toContain('2\n00:00:01,500 --> 00:00:02,000\n\u00A0\n\n3\n00:00:02,000');
+  });
+
+  it('空白字幕再解析得到空文本，不会吞掉下一条', () => {
+    expect(parseSRT(serializeSRT(segments, blocks, { includeEmpty: true }))).toEqual([
+      { startTime: 0, endTime: 1.5, text: '第一句' },
+      { startTime: 1.5, endTime: 2, text: '' },
+      { startTime: 2, endTime: 3723.456, text: '两行\n字幕' }
+    ]);
+  });
+});
+
+describe('parseSRT', () => {
+  it('解析多行字幕、BOM 与 CRLF', () => {
+    const text = '﻿1\r\n00:00:01,000 --> 00:00:02,500\r\n第一行\r\n第二行\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\nx\r\n';
+    expect(parseSRT(text)).toEqual([
+      { startTime: 1, endTime: 2.5, text: '第一行\n第二行' },
+      { startTime: 3, endTime: 4, text: 'x' }
+    ]);
+  });
+
+  it('去掉格式标签', () => {
+    expect(stripCueMarkup('<i>斜体</i>{\\an8}<font color="red">红</font>')).toBe('斜体红');
+  });
+
+  it('跳过时间行无效或缺失的块', () => {
+    const text = '1\n00:00:01,000 --> abc\nbad\n\n没有时间行\n\n3\n00:00:05,000 --> 00:00:06,000\nok';
+    expect(parseSRT(text)).toEqual([{ startTime: 5, endTime: 6, text: 'ok' }]);
+  });
+
+  it('空文件返回空列表', () => {
+    expect(parseSRT('')).toEqual([]);
+    expect(parseSRT('\n\n  \n')).toEqual([]);
+  });
+
+  it('导出后再解析得到相同的字幕', () => {
+    const cues = parseSRT(serializeSRT(segments, blocks, { includeEmpty: false }));
+    expect(cues).toEqual([
+      { startTime: 0, endTime: 1.5, text: '第一句' },
+      { startTime: 2, endTime: 3723.456, text: '两行\n字幕' }
+    ]);
+  });
+});
@@ -0,0 +1,59 @@
+import { VideoSegment, TextBlock, SubtitleCue, formatTimestamp, parseTimestamp, getSegmentText } from './subtitle';
+
+// --- SubRip (.srt) ---
+
+export interface CueExportOptions {
+  // 是否为未分配文本的分段输出空白字幕
+  includeEmpty: boolean;
+}
+
+// SRT 以空行结束一条字幕，空白字幕的文本行若为空会被播放器当作结束标记，改用一个不换行空格占位
+const EMPTY_CUE_TEXT = '\u00A0';
+
+export const serializeSRT = (segments: VideoSegment[], blocks: TextBlock[], options: CueExportOptions): string => {
+  const cues = segments
+    .filter(s => options.includeEmpty || s.textId)
+    .map((s, index) => [
+      `${index + 1}`,
+      `${formatTimestamp(s.startTime, ',')} --> ${formatTimestamp(s.endTime, ',')}`,
+      getSegmentText(s, blocks) || EMPTY_CUE_TEXT
+    ].join('\n'));
+
+  return cues.join('\n\n') + '\n';
+};
+
+// 去掉 <i>、<font> 等格式标签以及 ASS 风格的 {\an8} 覆盖标签
+export const stripCueMarkup = (text: string): string =>
+  text.replace(/<[^>]+>/g, '').replace(/\{\\[^}]*\}/g, '').trim();
+
+const TIMING_LINE = /^\s*([\d:.,]+)\s*-->\s*([\d:.,]+)/;
+
+// 解析一个以空行分隔的字幕块，SRT 与 VTT 共用
+export const parseCueBlock = (lines: string[]): SubtitleCue | null => {
+  const timingIndex = lines.findIndex(line => TIMING_LINE.test(line));
+  if (timingIndex === -1) return null;
+
+  const [, start, end] = lines[timingIndex].match(TIMING_LINE)!;
+  const startTime = parseTimestamp(start);
+  const endTime = parseTimestamp(end);
+  if (startTime === null || endTime === null) return null;
+
+  const text = lines
+    .slice(timingIndex + 1)
+    .map(stripCueMarkup)
+    .filter(line => line)
+    .join('\n');
+  return { startTime, endTime, text };
+};
+
+export const splitCueBlocks = (text: string): string[][] =>
+  text
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n\s*\r?\n/)
+    .map(block => block.split(/\r?\n/).filter(line => line.trim()))
+    .filter(lines => lines.length > 0);
+
+export const parseSRT = (text: string): SubtitleCue[] =>
+  splitCueBlocks(text)
+    .map(parseCueBlock)
+    .filter((cue): cue is SubtitleCue => cue !== null);
@@ -0,0 +1,48 @@
+// --- 键值存储 ---
+// 作为扩展运行时使用 chrome.storage.local，`npm run dev` 下没有 chrome 对象，退回到 localStorage。
+
+// 只声明用到的 chrome.storage.local 接口；页面不在扩展中运行时 storage 不存在
+interface ChromeStorageArea {
+  get: (key: string) => Promise<Record<string, unknown>>;
+  set: (items: Record<string, unknown>) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+}
+
+declare const chrome: { storage?: { local?: ChromeStorageArea } };
+
+export interface KeyValueStore {
+  get: <T>(key: string) => Promise<T | undefined>;
+  set: <T>(key: string, value: T) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+}
+
+const createChromeStore = (area: ChromeStorageArea): KeyValueStore => ({
+  get: async <T>(key: string) => {
+    const result = await area.get(key);
+    return result[key] as T | undefined;
+  },
+  set: async (key, value) => {
+    await area.set({ [key]: value });
+  },
+  remove: async (key) => {
+    await area.remove(key);
+  }
+});
+
+const STORAGE_PREFIX = 'lrc-video-scripter:';
+
+const localStore: KeyValueStore = {
+  get: async <T>(key: string) => {
+    const raw = localStorage.getItem(STORAGE_PREFIX + key);
+    return raw === null ? undefined : JSON.parse(raw) as T;
+  },
+  set: async (key, value) => {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+  },
+  remove: async (key) => {
+    localStorage.removeItem(STORAGE_PREFIX + key);
+  }
+};
+
+export const storage: KeyValueStore =
+  typeof chrome !== 'undefined' && chrome.storage?.local ? createChromeStore(chrome.storage.local) : localStore;
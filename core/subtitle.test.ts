@@ -0,0 +1,266 @@
+import { describe, it, expect } from 'vitest';
+import {
+  VideoSegment, TextBlock, formatTimeDisplay, formatTimestamp, parseTimestamp, splitSegmentAt, splitSegmentsAt,
+  mergeWithNext, moveBoundary, setSegmentStart, setSegmentEnd, findNearestBoundary, fitSegmentsToDuration,
+  tapSegmentAt, getNextUnassignedBlock, moveTextBlock, getSegmentText, buildSegmentsFromCues
+} from './subtitle';
+
+const segments: VideoSegment[] = [
+  { id: 's1', startTime: 0, endTime: 2, textId: 'a' },
+  { id: 's2', startTime: 2, endTime: 5, textId: null },
+  { id: 's3', startTime: 5, endTime: 8, textId: 'b' }
+];
+
+const blocks: TextBlock[] = [
+  { id: 'a', text: '第一句' },
+  { id: 'b', text: '第二句' },
+  { id: 'c', text: '第三句' }
+];
+
+const bounds = (list: VideoSegment[]) => list.map(s => [s.startTime, s.endTime]);
+
+describe('formatTimeDisplay', () => {
+  it('格式化为 mm:ss.cc', () => {
+    expect(formatTimeDisplay(0)).toBe('00:00.00');
+    expect(formatTimeDisplay(65.25)).toBe('01:05.25');
+    expect(formatTimeDisplay(600)).toBe('10:00.00');
+  });
+
+  it('厘秒向下取整，不会进位成 60 秒', () => {
+    expect(formatTimeDisplay(59.999)).toBe('00:59.99');
+    expect(formatTimeDisplay(1.005)).toBe('00:01.00');
+  });
+
+  it('浮点误差不会少算一厘秒', () => {
+    expect(formatTimeDisplay(0.1 + 0.2)).toBe('00:00.30');
+    expect(formatTimeDisplay(1.15)).toBe('00:01.15');
+  });
+
+  it('负数显示为 0', () => {
+    expect(formatTimeDisplay(-3)).toBe('00:00.00');
+  });
+});
+
+describe('formatTimestamp', () => {
+  it('按分隔符输出 hh:mm:ss,mmm', () => {
+    expect(formatTimestamp(3725.5, ',')).toBe('01:02:05,500');
+    expect(formatTimestamp(3725.5, '.')).toBe('01:02:05.500');
+  });
+
+  it('毫秒四舍五入并正确进位', () => {
+    expect(formatTimestamp(59.9996, ',')).toBe('00:01:00,000');
+    expect(formatTimestamp(-1, ',')).toBe('00:00:00,000');
+  });
+});
+
+describe('parseTimestamp', () => {
+  it('解析带或不带小时的时间码', () => {
+    expect(parseTimestamp('01:02:05,500')).toBe(3725.5);
+    expect(parseTimestamp('02:05.5')).toBe(125.5);
+    expect(parseTimestamp('1:02:05.25')).toBe(3725.25);
+    expect(parseTimestamp(' 00:03 ')).toBe(3);
+  });
+
+  it('小数部分按位数换算', () => {
+    expect(parseTimestamp('00:01.5')).toBe(1.5);
+    expect(parseTimestamp('00:01.05')).toBe(1.05);
+    expect(parseTimestamp('00:01.005')).toBe(1.005);
+  });
+
+  it('无法识别时返回 null', () => {
+    expect(parseTimestamp('')).toBeNull();
+    expect(parseTimestamp('12')).toBeNull();
+    expect(parseTimestamp('00:01.5000')).toBeNull();
+    expect(parseTimestamp('abc')).toBeNull();
+  });
+
+  it('与 formatTimestamp 互为逆运算', () => {
+    [0, 1.5, 61.25, 3725.125].forEach(time => {
+      expect(parseTimestamp(formatTimestamp(time, ','))).toBe(time);
+    });
+  });
+});
+
+describe('splitSegmentAt', () => {
+  it('在分段内部切分，前半段保留文本', () => {
+    const result = splitSegmentAt(segments, 1);
+    expect(bounds(result)).toEqual([[0, 1], [1, 2], [2, 5], [5, 8]]);
+    expect(result[0]).toEqual({ id: 's1', startTime: 0, endTime: 1, textId: 'a' });
+    expect(result[1].textId).toBeNull();
+    expect(result[1].id).not.toBe('s1');
+  });
+
+  it('落在边界或视频范围之外时不做修改', () => {
+    expect(splitSegmentAt(segments, 2)).toBe(segments);
+    expect(splitSegmentAt(segments, 0)).toBe(segments);
+    expect(splitSegmentAt(segments, 8)).toBe(segments);
+    expect(splitSegmentAt(segments, 10)).toBe(segments);
+  });
+
+  it('不修改原数组', () => {
+    splitSegmentAt(segments, 1);
+    expect(segments).toHaveLength(3);
+  });
+
+  it('依次在多个时间点切分', () => {
+    expect(bounds(splitSegmentsAt(segments, [1, 3, 6]))).toEqual([[0, 1], [1, 2], [2, 3], [3, 5], [5, 6], [6, 8]]);
+  });
+});
+
+describe('mergeWithNext', () => {
+  it('合并相邻分段并保留前一段的文本', () => {
+    const result = mergeWithNext(segments, 0);
+    expect(result).toEqual([
+      { id: 's1', startTime: 0, endTime: 5, textId: 'a' },
+      segments[2]
+    ]);
+  });
+
+  it('前一段没有文本时使用后一段的文本', () => {
+    const result = mergeWithNext(segments, 1);
+    expect(result[1]).toEqual({ id: 's2', startTime: 2, endTime: 8, textId: 'b' });
+  });
+
+  it('合并译文轨道，前一段优先', () => {
+    const tracked: VideoSegment[] = [
+      { id: 'x', startTime: 0, endTime: 1, textId: null, trackTexts: { en: 'e1' } },
+      { id: 'y', startTime: 1, endTime: 2, textId: null, trackTexts: { en: 'e2', ja: 'j2' } }
+    ];
+    expect(mergeWithNext(tracked, 0)[0].trackTexts).toEqual({ en: 'e1', ja: 'j2' });
+    expect(mergeWithNext(segments, 0)[0]).not.toHaveProperty('trackTexts');
+  });
+
+  it('最后一段或无效下标不做修改', () => {
+    expect(mergeWithNext(segments, 2)).toBe(segments);
+    expect(mergeWithNext(segments, -1)).toBe(segments);
+  });
+});
+
+describe('moveBoundary', () => {
+  it('同时修改前一段的结束与后一段的开始', () => {
+    expect(bounds(moveBoundary(segments, 0, 3))).toEqual([[0, 3], [3, 5], [5, 8]]);
+  });
+
+  it('不允许越过相邻分段', () => {
+    expect(bounds(moveBoundary(segments, 0, 10))).toEqual([[0, 4.95], [4.95, 5], [5, 8]]);
+    expect(bounds(moveBoundary(segments, 1, 0))).toEqual([[0, 2], [2, 2.05], [2.05, 8]]);
+  });
+
+  it('边界未变化或下标无效时返回原数组', () => {
+    expect(moveBoundary(segments, 0, 2)).toBe(segments);
+    expect(moveBoundary(segments, 2, 7)).toBe(segments);
+    expect(moveBoundary(segments, -1, 1)).toBe(segments);
+  });
+
+  it('平移后一段的逐字时间，使每个字的实际时间不变', () => {
+    const timed: VideoSegment[] = [
+      { id: 'x', startTime: 0, endTime: 2, textId: null },
+      { id: 'y', startTime: 2, endTime: 4, textId: 'a', words: [{ text: '第', offset: 0 }, { text: '一', offset: 1 }] }
+    ];
+    expect(moveBoundary(timed, 0, 1.5)[1].words).toEqual([{ text: '第', offset: 0.5 }, { text: '一', offset: 1.5 }]);
+    expect(moveBoundary(timed, 0, 2.5)[1].words).toEqual([{ text: '第', offset: 0 }, { text: '一', offset: 0.5 }]);
+  });
+
+  it('按分段设置开始与结束时间', () => {
+    expect(bounds(setSegmentStart(segments, 1, 1))).toEqual([[0, 1], [1, 5], [5, 8]]);
+    expect(bounds(setSegmentEnd(segments, 1, 6))).toEqual([[0, 2], [2, 6], [6, 8]]);
+    expect(setSegmentStart(segments, 0, 1)).toBe(segments);
+    expect(setSegmentEnd(segments, 2, 7)).toBe(segments);
+  });
+});
+
+describe('findNearestBoundary', () => {
+  it('返回距离最近的内部边界', () => {
+    expect(findNearestBoundary(segments, 0.5)).toBe(0);
+    expect(findNearestBoundary(segments, 4)).toBe(1);
+    expect(findNearestBoundary(segments, 8)).toBe(1);
+  });
+
+  it('只有一个分段时返回 -1', () => {
+    expect(findNearestBoundary([segments[0]], 1)).toBe(-1);
+  });
+});
+
+describe('fitSegmentsToDuration', () => {
+  it('丢弃超出的分段并截断最后一段', () => {
+    expect(bounds(fitSegmentsToDuration(segments, 4))).toEqual([[0, 2], [2, 4]]);
+  });
+
+  it('时长变长时延伸最后一段', () => {
+    expect(bounds(fitSegmentsToDuration(segments, 10))).toEqual([[0, 2], [2, 5], [5, 10]]);
+    expect(fitSegmentsToDuration(segments, 8)).toEqual(segments);
+  });
+});
+
+describe('tapSegmentAt', () => {
+  it('在当前位置切分并把后半段分配给文本', () => {
+    const result = tapSegmentAt(segments, 3, 'c');
+    expect(bounds(result)).toEqual([[0, 2], [2, 3], [3, 5], [5, 8]]);
+    expect(result.map(s => s.textId)).toEqual(['a', null, 'c', 'b']);
+  });
+
+  it('恰好落在分段开始时只修改文本', () => {
+    const result = tapSegmentAt(segments, 5, null);
+    expect(bounds(result)).toEqual(bounds(segments));
+    expect(result[2].textId).toBeNull();
+  });
+
+  it('超出视频范围时不做修改', () => {
+    expect(tapSegmentAt(segments, 8, 'c')).toBe(segments);
+  });
+});
+
+describe('文本块', () => {
+  it('返回第一个未分配的文本块', () => {
+    expect(getNextUnassignedBlock(segments, blocks)?.id).toBe('c');
+    expect(getNextUnassignedBlock(segments, blocks.slice(0, 2))).toBeNull();
+  });
+
+  it('移动文本块位置', () => {
+    expect(moveTextBlock(blocks, 0, 2).map(b => b.id)).toEqual(['b', 'c', 'a']);
+    expect(moveTextBlock(blocks, 1, 1)).toBe(blocks);
+  });
+
+  it('按 textId 取分段文本', () => {
+    expect(getSegmentText(segments[2], blocks)).toBe('第二句');
+    expect(getSegmentText(segments[1], blocks)).toBe('');
+  });
+});
+
+describe('buildSegmentsFromCues', () => {
+  it('空隙生成空白分段，使分段覆盖整个视频', () => {
+    const { segments: built, textBlocks } = buildSegmentsFromCues([
+      { startTime: 1, endTime: 2, text: '一' },
+      { startTime: 3, endTime: 4, text: '二' }
+    ], 6);
+    expect(bounds(built)).toEqual([[0, 1], [1, 2], [2, 3], [3, 4], [4, 6]]);
+    expect(textBlocks.map(b => b.text)).toEqual(['一', '二']);
+    expect(built.map(s => s.textId)).toEqual([null, textBlocks[0].id, null, textBlocks[1].id, null]);
+  });
+
+  it('按开始时间排序，重叠的条目从上一条结束处开始', () => {
+    const { segments: built, textBlocks } = buildSegmentsFromCues([
+      { startTime: 2, endTime: 4, text: '二' },
+      { startTime: 0, endTime: 3, text: '一' }
+    ], 4);
+    expect(bounds(built)).toEqual([[0, 3], [3, 4]]);
+    expect(textBlocks.map(b => b.text)).toEqual(['一', '二']);
+  });
+
+  it('裁掉超出视频的部分，丢弃无效条目', () => {
+    const { segments: built, textBlocks } = buildSegmentsFromCues([
+      { startTime: 1, endTime: 1, text: '零长度' },
+      { startTime: 2, endTime: 9, text: '超出' },
+      { startTime: 6, endTime: 7, text: '之后' }
+    ], 5);
+    expect(bounds(built)).toEqual([[0, 2], [2, 5]]);
+    expect(textBlocks.map(b => b.text)).toEqual(['超出']);
+  });
+
+  it('空文本条目生成未分配的分段', () => {
+    const { segments: built, textBlocks } = buildSegmentsFromCues([{ startTime: 0, endTime: 2, text: '' }], 2);
+    expect(built).toHaveLength(1);
+    expect(built[0].textId).toBeNull();
+    expect(textBlocks).toEqual([]);
+  });
+});
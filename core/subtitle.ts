@@ -0,0 +1,279 @@
+// --- 字幕数据模型 ---
+// 与 React 无关的纯函数：所有操作都接收旧数组并返回新数组，方便在任何地方调用。
+
+export interface TextBlock {
+  id: string;
+  text: string;
+  // 角色表中的角色，见 speakers.ts
+  speakerId?: string;
+}
+
+// 逐字时间：offset 为相对分段开始的秒数，所有 text 依次拼接应等于分段文本
+export interface WordTiming {
+  text: string;
+  offset: number;
+}
+
+export interface VideoSegment {
+  id: string;
+  startTime: number;
+  endTime: number;
+  textId: string | null;
+  // 卡拉 OK 逐字时间，缺省或与文本不一致时按字数平均分配
+  words?: WordTiming[];
+  // 附加文本轨道（译文）的分配：轨道 id → 该轨道字幕库中的文本块 id
+  trackTexts?: Record<string, string>;
+}
+
+export const createId = (): string => crypto.randomUUID();
+
+// --- 时间格式化 ---
+
+// 以整数厘秒计算，避免 59.999 被格式化成 "00:60.00"
+export const formatTimeDisplay = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds * 100 + 1e-6));
+  const m = Math.floor(total / 6000);
+  const s = Math.floor((total % 6000) / 100);
+  const cs = total % 100;
+  return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}.${cs.toString().padStart(2, '0')}`;
+};
+
+// SRT / VTT 等格式使用的 hh:mm:ss,mmm 时间码，separator 为秒与毫秒之间的分隔符
+export const formatTimestamp = (seconds: number, separator: ',' | '.'): string => {
+  const total = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(total / 3600000);
+  const m = Math.floor((total % 3600000) / 60000);
+  const s = Math.floor((total % 60000) / 1000);
+  const ms = total % 1000;
+  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}${separator}${ms.toString().padStart(3, '0')}`;
+};
+
+// 解析 hh:mm:ss,mmm、mm:ss.mmm、h:mm:ss.cc 等时间码，无法识别时返回 null
+export const parseTimestamp = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+  const hours = match[1] ? parseInt(match[1], 10) : 0;
+  const minutes = parseInt(match[2], 10);
+  const seconds = parseInt(match[3], 10);
+  const fraction = match[4] ? parseInt(match[4], 10) / Math.pow(10, match[4].length) : 0;
+  return hours * 3600 + minutes * 60 + seconds + fraction;
+};
+
+// --- 分段操作 ---
+
+// 覆盖整个视频的初始分段
+export const createInitialSegments = (duration: number): VideoSegment[] => [{
+  id: createId(),
+  startTime: 0,
+  endTime: duration,
+  textId: null
+}];
+
+export const findSegmentIndexAt = (segments: VideoSegment[], time: number): number =>
+  segments.findIndex(s => time >= s.startTime && time < s.endTime);
+
+// 在 time 处把所在分段一分为二，前半段保留原文本；time 恰好落在边界上时不做任何修改
+export const splitSegmentAt = (segments: VideoSegment[], time: number): VideoSegment[] => {
+  const index = segments.findIndex(s => time > s.startTime && time < s.endTime);
+  if (index === -1) return segments;
+
+  const target = segments[index];
+  const segA: VideoSegment = { ...target, endTime: time };
+  const segB: VideoSegment = {
+    id: createId(),
+    startTime: time,
+    endTime: target.endTime,
+    textId: null
+  };
+
+  const result = [...segments];
+  result.splice(index, 1, segA, segB);
+  return result;
+};
+
+// 依次在多个时间点切分
+export const splitSegmentsAt = (segments: VideoSegment[], times: number[]): VideoSegment[] =>
+  times.reduce((result, time) => splitSegmentAt(result, time), segments);
+
+// 合并第 index 段与其后一段，优先保留前一段的文本
+export const mergeWithNext = (segments: VideoSegment[], index: number): VideoSegment[] => {
+  if (index < 0 || index >= segments.length - 1) return segments;
+
+  const current = segments[index];
+  const next = segments[index + 1];
+  const result = [...segments];
+  const trackTexts = { ...next.trackTexts, ...current.trackTexts };
+  result.splice(index, 2, {
+    ...current,
+    endTime: next.endTime,
+    textId: current.textId || next.textId,
+    ...(Object.keys(trackTexts).length > 0 ? { trackTexts } : {})
+  });
+  return result;
+};
+
+// --- 边界调整 ---
+// 分段始终首尾相接，移动一个边界会同时改变前一段的结束与后一段的开始。
+
+export const MIN_SEGMENT_DURATION = 0.05;
+
+// 逐字时间相对于分段开始，开始时间改变时同步平移，使每个字的实际时间保持不变
+const withStartTime = (segment: VideoSegment, startTime: number): VideoSegment => {
+  if (!segment.words) return { ...segment, startTime };
+  const delta = segment.startTime - startTime;
+  return { ...segment, startTime, words: segment.words.map(w => ({ ...w, offset: Math.max(0, w.offset + delta) })) };
+};
+
+// 移动第 index 段与第 index + 1 段之间的边界，不允许越过相邻分段
+export const moveBoundary = (segments: VideoSegment[], index: number, time: number): VideoSegment[] => {
+  if (index < 0 || index >= segments.length - 1) return segments;
+
+  const left = segments[index];
+  const right = segments[index + 1];
+  const min = left.startTime + MIN_SEGMENT_DURATION;
+  const max = right.endTime - MIN_SEGMENT_DURATION;
+  if (min > max) return segments;
+
+  const clamped = Math.min(max, Math.max(min, time));
+  if (clamped === left.endTime) return segments;
+
+  const result = [...segments];
+  result[index] = { ...left, endTime: clamped };
+  result[index + 1] = withStartTime(right, clamped);
+  return result;
+};
+
+// 第一段的开始与最后一段的结束固定为视频首尾
+export const setSegmentStart = (segments: VideoSegment[], index: number, time: number): VideoSegment[] =>
+  moveBoundary(segments, index - 1, time);
+
+export const setSegmentEnd = (segments: VideoSegment[], index: number, time: number): VideoSegment[] =>
+  moveBoundary(segments, index, time);
+
+// 返回距离 time 最近的内部边界（即第 i 段的结尾），没有边界时返回 -1
+export const findNearestBoundary = (segments: VideoSegment[], time: number): number => {
+  let nearest = -1;
+  let best = Infinity;
+  for (let i = 0; i < segments.length - 1; i++) {
+    const distance = Math.abs(segments[i].endTime - time);
+    if (distance < best) {
+      best = distance;
+      nearest = i;
+    }
+  }
+  return nearest;
+};
+
+// 视频时长变化后调整分段：丢弃完全超出的分段，最后一段延伸或截断到新的结尾
+export const fitSegmentsToDuration = (segments: VideoSegment[], duration: number): VideoSegment[] => {
+  const kept = segments.filter(s => s.startTime < duration);
+  if (kept.length === 0) return createInitialSegments(duration);
+  const last = kept[kept.length - 1];
+  if (last.endTime === duration) return kept;
+  return [...kept.slice(0, -1), { ...last, endTime: duration }];
+};
+
+export const assignText = (segments: VideoSegment[], segmentId: string, textId: string | null): VideoSegment[] =>
+  segments.map(s => s.id === segmentId ? { ...s, textId } : s);
+
+// 取消所有引用该文本块的分配
+export const unassignText = (segments: VideoSegment[], textId: string): VideoSegment[] =>
+  segments.map(s => s.textId === textId ? { ...s, textId: null } : s);
+
+// 打轴：在 time 处切分，并把从 time 开始的分段分配给 textId（null 表示空白/间奏）。
+// time 恰好是已有分段的开始时不再切分，只修改该分段的文本。
+export const tapSegmentAt = (segments: VideoSegment[], time: number, textId: string | null): VideoSegment[] => {
+  const split = splitSegmentAt(segments, time);
+  const index = findSegmentIndexAt(split, time);
+  if (index === -1) return segments;
+  return split.map((s, i) => i === index ? { ...s, textId } : s);
+};
+
+// --- 文本块操作 ---
+
+export const createTextBlocks = (lines: string[]): TextBlock[] =>
+  lines.map(text => ({ id: createId(), text }));
+
+export const moveTextBlock = (blocks: TextBlock[], from: number, to: number): TextBlock[] => {
+  if (from === to || from < 0 || from >= blocks.length) return blocks;
+  const result = [...blocks];
+  const [removed] = result.splice(from, 1);
+  result.splice(to, 0, removed);
+  return result;
+};
+
+// 按字幕库顺序返回第一个尚未分配给任何分段的文本块
+export const getNextUnassignedBlock = (segments: VideoSegment[], blocks: TextBlock[]): TextBlock | null => {
+  const assigned = new Set(segments.map(s => s.textId));
+  return blocks.find(b => !assigned.has(b.id)) ?? null;
+};
+
+// --- 文本块索引 ---
+// 数组不可变，同一个数组对应的 id 索引只需建立一次，之后按 id 查找都是 O(1)
+
+const blockIndexCache = new WeakMap<TextBlock[], Map<string, TextBlock>>();
+
+export const getBlockIndex = (blocks: TextBlock[]): Map<string, TextBlock> => {
+  let index = blockIndexCache.get(blocks);
+  if (!index) {
+    index = new Map(blocks.map(b => [b.id, b]));
+    blockIndexCache.set(blocks, index);
+  }
+  return index;
+};
+
+export const findBlock = (blocks: TextBlock[], id: string | null | undefined): TextBlock | undefined =>
+  id ? getBlockIndex(blocks).get(id) : undefined;
+
+export const getSegmentText = (segment: VideoSegment, blocks: TextBlock[]): string =>
+  findBlock(blocks, segment.textId)?.text ?? '';
+
+// --- 由带起止时间的字幕条目构建分段 ---
+
+export interface SubtitleCue {
+  startTime: number;
+  endTime: number;
+  text: string;
+}
+
+export interface CueImportResult {
+  segments: VideoSegment[];
+  textBlocks: TextBlock[];
+}
+
+// 按开始时间排列字幕条目，条目之间的空隙生成空白分段，使分段连续覆盖 [0, duration]。
+// 重叠的条目从上一条的结束处开始，超出视频的部分被裁掉。
+export const buildSegmentsFromCues = (cues: SubtitleCue[], duration: number): CueImportResult => {
+  const sorted = [...cues]
+    .filter(c => c.endTime > c.startTime)
+    .sort((a, b) => a.startTime - b.startTime);
+  const segments: VideoSegment[] = [];
+  const textBlocks: TextBlock[] = [];
+  let cursor = 0;
+
+  const pushGap = (until: number) => {
+    if (until - cursor > 0.001) {
+      segments.push({ id: createId(), startTime: cursor, endTime: until, textId: null });
+      cursor = until;
+    }
+  };
+
+  sorted.forEach(cue => {
+    const startTime = Math.max(cue.startTime, cursor);
+    const endTime = Math.min(cue.endTime, duration);
+    if (endTime - startTime <= 0.001) return;
+
+    pushGap(startTime);
+    let textId: string | null = null;
+    if (cue.text) {
+      const block = { id: createId(), text: cue.text };
+      textBlocks.push(block);
+      textId = block.id;
+    }
+    segments.push({ id: createId(), startTime, endTime, textId });
+    cursor = endTime;
+  });
+
+  pushGap(duration);
+  return { segments, textBlocks };
+};
@@ -0,0 +1,15 @@
+// --- 文本度量 ---
+
+// 中日韩文字、全角符号占一个字宽，其余（字母、数字、半角标点）按半个字宽计算
+const WIDE_CHAR = /[ᄀ-ᅟ⺀-꓏가-힣豈-﫿︰-﹏＀-｠￠-￦]/;
+
+export const isWideChar = (char: string): boolean => WIDE_CHAR.test(char);
+
+export const displayLength = (text: string): number => {
+  let length = 0;
+  for (const char of text) {
+    if (/\s/.test(char) && char !== '　') length += 0.5;
+    else length += isWideChar(char) ? 1 : 0.5;
+  }
+  return length;
+};
@@ -0,0 +1,24 @@
+// --- 时间轴缩放与刻度 ---
+
+export const MIN_ZOOM = 1;
+// 最大放大到可视范围约 5 秒
+export const MIN_VISIBLE_SECONDS = 5;
+export const ZOOM_STEP = 1.5;
+
+export const getMaxZoom = (duration: number): number => Math.max(MIN_ZOOM, duration / MIN_VISIBLE_SECONDS);
+
+export const clampZoom = (zoom: number, duration: number): number =>
+  Math.min(getMaxZoom(duration), Math.max(MIN_ZOOM, zoom));
+
+const TICK_INTERVALS = [0.1, 0.2, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 1200, 1800, 3600];
+
+// 选择使相邻刻度至少相距 minSpacing 像素的最小间隔
+export const chooseTickInterval = (pixelsPerSecond: number, minSpacing: number = 80): number =>
+  TICK_INTERVALS.find(interval => interval * pixelsPerSecond >= minSpacing) ?? TICK_INTERVALS[TICK_INTERVALS.length - 1];
+
+export const formatRulerLabel = (seconds: number, interval: number): string => {
+  const m = Math.floor(seconds / 60);
+  const s = seconds - m * 60;
+  const sText = interval < 1 ? s.toFixed(1).padStart(4, '0') : Math.round(s).toString().padStart(2, '0');
+  return `${m}:${sText}`;
+};
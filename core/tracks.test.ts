@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getTrackName, getSegmentTrackText, getAssignedTextIds, assignTrackText, unassignTrackText, removeTrack,
+  alignTrackToPrimary, projectTrack, combineTracks, resolveTrackExports, EXPORT_EACH_TRACK, EXPORT_COMBINED,
+  PRIMARY_TRACK_NAME
+} from './tracks';
+import { EditorDocument } from './history';
+
+const doc: EditorDocument = {
+  segments: [
+    { id: 's1', startTime: 0, endTime: 2, textId: 'a', trackTexts: { en: 'e1' } },
+    { id: 's2', startTime: 2, endTime: 4, textId: null },
+    { id: 's3', startTime: 4, endTime: 6, textId: 'b' }
+  ],
+  textBlocks: [
+    { id: 'a', text: '你好', speakerId: 'host' },
+    { id: 'b', text: '再见' }
+  ],
+  tracks: [{ id: 'en', name: 'English', blocks: [{ id: 'e1', text: 'Hello' }, { id: 'e2', text: 'Bye' }] }],
+  cast: []
+};
+
+describe('轨道分配', () => {
+  it('按轨道读取分段文本与已分配的文本块', () => {
+    expect(getTrackName(doc.tracks, null)).toBe(PRIMARY_TRACK_NAME);
+    expect(getTrackName(doc.tracks, 'en')).toBe('English');
+    expect(getSegmentTrackText(doc.segments[0], doc, 'en')).toBe('Hello');
+    expect(getSegmentTrackText(doc.segments[2], doc, 'en')).toBe('');
+    expect([...getAssignedTextIds(doc.segments, null)]).toEqual(['a', 'b']);
+    expect([...getAssignedTextIds(doc.segments, 'en')]).toEqual(['e1']);
+  });
+
+  it('分配与取消译文，不影响主轨道', () => {
+    const assigned = assignTrackText(doc.segments, 's3', 'en', 'e2');
+    expect(assigned[2]).toEqual({ id: 's3', startTime: 4, endTime: 6, textId: 'b', trackTexts: { en: 'e2' } });
+
+    const cleared = unassignTrackText(assigned, 'en', 'e2');
+    expect(cleared[2]).toEqual(doc.segments[2]);
+    expect(cleared[2]).not.toHaveProperty('trackTexts');
+  });
+
+  it('主轨道沿用 textId', () => {
+    expect(assignTrackText(doc.segments, 's2', null, 'b')[1].textId).toBe('b');
+    expect(unassignTrackText(doc.segments, null, 'a')[0].textId).toBeNull();
+  });
+
+  it('删除轨道时清除分段上的分配', () => {
+    const result = removeTrack(doc, 'en');
+    expect(result.tracks).toEqual([]);
+    expect(result.segments[0]).not.toHaveProperty('trackTexts');
+  });
+
+  it('按主轨道行号对齐译文', () => {
+    const segments = alignTrackToPrimary(doc, 'en');
+    expect(segments.map(s => s.trackTexts?.en)).toEqual(['e1', undefined, 'e2']);
+  });
+});
+
+describe('轨道导出', () => {
+  it('把译文轨道投影成主轨道的形式', () => {
+    const { segments, blocks } = projectTrack(doc, 'en');
+    expect(segments.map(s => s.textId)).toEqual(['e1', null, null]);
+    expect(blocks).toBe(doc.tracks[0].blocks);
+    expect(projectTrack(doc, null).segments).toBe(doc.segments);
+  });
+
+  it('双语合并按轨道顺序换行拼接，角色沿用主轨道', () => {
+    const { segments, blocks } = combineTracks(doc, [null, 'en']);
+    expect(blocks.map(b => b.text)).toEqual(['你好\nHello', '再见']);
+    expect(blocks[0].speakerId).toBe('host');
+    expect(segments.map(s => s.textId)).toEqual([blocks[0].id, null, blocks[1].id]);
+  });
+
+  it('按导出目标生成一个或多个文件', () => {
+    expect(resolveTrackExports(doc, '').map(e => e.suffix)).toEqual([null]);
+    expect(resolveTrackExports(doc, EXPORT_EACH_TRACK).map(e => e.suffix)).toEqual([PRIMARY_TRACK_NAME, 'English']);
+    expect(resolveTrackExports(doc, EXPORT_COMBINED)).toHaveLength(1);
+    expect(resolveTrackExports(doc, 'en')[0].blocks).toBe(doc.tracks[0].blocks);
+  });
+
+  it('选中的轨道已被删除时导出主轨道', () => {
+    expect(resolveTrackExports(doc, 'deleted')[0].blocks).toBe(doc.textBlocks);
+  });
+});
@@ -0,0 +1,143 @@
+import { VideoSegment, TextBlock, createId, assignText, unassignText, findBlock } from './subtitle';
+import { EditorDocument } from './history';
+
+// --- 多语言文本轨道 ---
+// 主轨道沿用 textBlocks 与分段的 textId；其他语言（译文）作为附加轨道，
+// 各自拥有独立的字幕库，与主轨道共用同一组分段边界，分配记录在分段的 trackTexts 中。
+
+export interface TextTrack {
+  id: string;
+  name: string;
+  blocks: TextBlock[];
+}
+
+// null 表示主轨道
+export type TrackId = string | null;
+
+export const PRIMARY_TRACK_NAME = '原文';
+
+export const createTrack = (name: string): TextTrack => ({ id: createId(), name, blocks: [] });
+
+export const getTrackName = (tracks: TextTrack[], trackId: TrackId): string =>
+  trackId === null ? PRIMARY_TRACK_NAME : tracks.find(t => t.id === trackId)?.name ?? '';
+
+export const getTrackBlocks = (doc: EditorDocument, trackId: TrackId): TextBlock[] =>
+  trackId === null ? doc.textBlocks : doc.tracks.find(t => t.id === trackId)?.blocks ?? [];
+
+export const setTrackBlocks = (doc: EditorDocument, trackId: TrackId, blocks: TextBlock[]): EditorDocument =>
+  trackId === null
+    ? { ...doc, textBlocks: blocks }
+    : { ...doc, tracks: doc.tracks.map(t => t.id === trackId ? { ...t, blocks } : t) };
+
+export const getSegmentTrackTextId = (segment: VideoSegment, trackId: TrackId): string | null =>
+  trackId === null ? segment.textId : segment.trackTexts?.[trackId] ?? null;
+
+export const getSegmentTrackText = (segment: VideoSegment, doc: EditorDocument, trackId: TrackId): string => {
+  const textId = getSegmentTrackTextId(segment, trackId);
+  return findBlock(getTrackBlocks(doc, trackId), textId)?.text ?? '';
+};
+
+// 某条轨道上已分配给分段的文本块 id
+export const getAssignedTextIds = (segments: VideoSegment[], trackId: TrackId): Set<string> => {
+  const ids = new Set<string>();
+  segments.forEach(s => {
+    const textId = getSegmentTrackTextId(s, trackId);
+    if (textId) ids.add(textId);
+  });
+  return ids;
+};
+
+const withTrackText = (segment: VideoSegment, trackId: string, textId: string | null): VideoSegment => {
+  const { [trackId]: _previous, ...rest } = segment.trackTexts ?? {};
+  const trackTexts = textId ? { ...rest, [trackId]: textId } : rest;
+  if (Object.keys(trackTexts).length > 0) return { ...segment, trackTexts };
+  const { trackTexts: _empty, ...plain } = segment;
+  return plain;
+};
+
+export const assignTrackText = (
+  segments: VideoSegment[],
+  segmentId: string,
+  trackId: TrackId,
+  textId: string | null
+): VideoSegment[] =>
+  trackId === null
+    ? assignText(segments, segmentId, textId)
+    : segments.map(s => s.id === segmentId ? withTrackText(s, trackId, textId) : s);
+
+export const unassignTrackText = (segments: VideoSegment[], trackId: TrackId, textId: string): VideoSegment[] =>
+  trackId === null
+    ? unassignText(segments, textId)
+    : segments.map(s => s.trackTexts?.[trackId] === textId ? withTrackText(s, trackId, null) : s);
+
+export const removeTrack = (doc: EditorDocument, trackId: string): EditorDocument => ({
+  ...doc,
+  tracks: doc.tracks.filter(t => t.id !== trackId),
+  segments: doc.segments.map(s => s.trackTexts?.[trackId] ? withTrackText(s, trackId, null) : s)
+});
+
+export const renameTrack = (doc: EditorDocument, trackId: string, name: string): EditorDocument => ({
+  ...doc,
+  tracks: doc.tracks.map(t => t.id === trackId ? { ...t, name } : t)
+});
+
+// 译文与原文逐行对应时，按主轨道字幕库中的行号为每个已分配原文的分段分配同一行号的译文
+export const alignTrackToPrimary = (doc: EditorDocument, trackId: string): VideoSegment[] => {
+  const primaryIndex = new Map(doc.textBlocks.map((b, i) => [b.id, i]));
+  const blocks = getTrackBlocks(doc, trackId);
+  return doc.segments.map(s => {
+    const index = s.textId ? primaryIndex.get(s.textId) : undefined;
+    const block = index !== undefined ? blocks[index] : undefined;
+    return block ? withTrackText(s, trackId, block.id) : s;
+  });
+};
+
+// --- 导出 ---
+
+// 把任意轨道投影成主轨道的形式，现有的导出格式无需修改即可使用
+export const projectTrack = (doc: EditorDocument, trackId: TrackId): { segments: VideoSegment[]; blocks: TextBlock[] } => {
+  if (trackId === null) return { segments: doc.segments, blocks: doc.textBlocks };
+  return {
+    segments: doc.segments.map(s => ({ ...s, textId: getSegmentTrackTextId(s, trackId) })),
+    blocks: getTrackBlocks(doc, trackId)
+  };
+};
+
+// 双语合并：每个分段的各轨道文本按顺序换行拼接为一条字幕，主轨道在第一行，角色沿用主轨道
+export const combineTracks = (doc: EditorDocument, trackIds: TrackId[]): { segments: VideoSegment[]; blocks: TextBlock[] } => {
+  const blocks: TextBlock[] = [];
+  const segments = doc.segments.map(s => {
+    const text = trackIds
+      .map(trackId => getSegmentTrackText(s, doc, trackId))
+      .filter(line => line.length > 0)
+      .join('\n');
+    if (!text) return { ...s, textId: null };
+    const speakerId = findBlock(doc.textBlocks, s.textId)?.speakerId;
+    const block: TextBlock = speakerId ? { id: createId(), text, speakerId } : { id: createId(), text };
+    blocks.push(block);
+    return { ...s, textId: block.id };
+  });
+  return { segments, blocks };
+};
+
+export const EXPORT_EACH_TRACK = 'each';
+export const EXPORT_COMBINED = 'combined';
+
+export interface TrackExport {
+  // 多个文件时附加在文件名后的轨道名，单个文件时为 null
+  suffix: string | null;
+  segments: VideoSegment[];
+  blocks: TextBlock[];
+}
+
+// target 为空字符串时导出主轨道，否则为轨道 id、EXPORT_EACH_TRACK 或 EXPORT_COMBINED
+export const resolveTrackExports = (doc: EditorDocument, target: string): TrackExport[] => {
+  const allTracks: TrackId[] = [null, ...doc.tracks.map(t => t.id)];
+  if (target === EXPORT_EACH_TRACK) {
+    return allTracks.map(trackId => ({ suffix: getTrackName(doc.tracks, trackId), ...projectTrack(doc, trackId) }));
+  }
+  if (target === EXPORT_COMBINED) return [{ suffix: null, ...combineTracks(doc, allTracks) }];
+  // 选中的轨道已被删除时退回主轨道
+  const trackId = doc.tracks.some(t => t.id === target) ? target : null;
+  return [{ suffix: null, ...projectTrack(doc, trackId) }];
+};
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { validateSubtitles, DEFAULT_VALIDATION_OPTIONS, ValidationIssue } from './validation';
+import { VideoSegment, TextBlock } from './subtitle';
+
+const options = DEFAULT_VALIDATION_OPTIONS;
+
+const kinds = (issues: ValidationIssue[]) => issues.map(issue => issue.id);
+
+describe('validateSubtitles', () => {
+  it('没有问题时返回空数组', () => {
+    const blocks: TextBlock[] = [{ id: 'a', text: '第一句' }];
+    const segments: VideoSegment[] = [{ id: 's1', startTime: 0, endTime: 2, textId: 'a' }];
+    expect(validateSubtitles(segments, blocks, options)).toEqual([]);
+  });
+
+  it('检查时长过短与过长', () => {
+    const blocks: TextBlock[] = [{ id: 'a', text: '短' }, { id: 'b', text: '长' }];
+    const segments: VideoSegment[] = [
+      { id: 's1', startTime: 0, endTime: 0.5, textId: 'a' },
+      { id: 's2', startTime: 0.5, endTime: 10, textId: 'b' }
+    ];
+    const issues = validateSubtitles(segments, blocks, options);
+    expect(kinds(issues)).toEqual(['tooShort:s1', 'tooLong:s2']);
+    expect(issues[0]).toMatchObject({ severity: 'warning', time: 0, message: '分段 1 仅 0.5 秒，短于 0.7 秒' });
+    expect(issues[1].message).toBe('分段 2 长达 9.5 秒，超过 7 秒');
+  });
+
+  it('空白分段不检查时长', () => {
+    const blocks: TextBlock[] = [{ id: 'a', text: '第一句' }];
+    const segments: VideoSegment[] = [
+      { id: 's1', startTime: 0, endTime: 0.2, textId: null },
+      { id: 's2', startTime: 0.2, endTime: 2, textId: 'a' },
+      { id: 's3', startTime: 2, endTime: 30, textId: null }
+    ];
+    expect(kinds(validateSubtitles(segments, blocks, options))).toEqual(['unassigned:s1', 'unassigned:s3']);
+  });
+
+  it('按显示宽度检查每秒字数，忽略空白', () => {
+    const blocks: TextBlock[] = [
+      { id: 'a', text: '一二三四五六七八九十' },
+      { id: 'b', text: 'abcd efgh ijkl mnop qrst' }
+    ];
+    const segments: VideoSegment[] = [
+      { id: 's1', startTime: 0, endTime: 1, textId: 'a' },
+      { id: 's2', startTime: 1, endTime: 3, textId: 'b' }
+    ];
+    const issues = validateSubtitles(segments, blocks, options);
+    expect(kinds(issues)).toEqual(['charsPerSecond:s1']);
+    expect(issues[0].message).toBe('分段 1 每秒 10 字，超过 9 字');
+  });
+
+  it('多行文本按最长的一行检查行长', () => {
+    const blocks: TextBlock[] = [{ id: 'a', text: '短行\n' + '长'.repeat(21) }];
+    const segments: VideoSegment[] = [{ id: 's1', startTime: 0, endTime: 5, textId: 'a' }];
+    expect(kinds(validateSubtitles(segments, blocks, options))).toEqual(['lineLength:s1']);
+  });
+
+  it('未分配的分段与未使用的文本块为提示', () => {
+    const blocks: TextBlock[] = [{ id: 'a', text: '第一句' }, { id: 'b', text: '第二句' }];
+    const segments: VideoSegment[] = [
+      { id: 's1', startTime: 0, endTime: 2, textId: 'a' },
+      { id: 's2', startTime: 2, endTime: 4, textId: null },
+      { id: 's3', startTime: 4, endTime: 6, textId: 'missing' }
+    ];
+    const issues = validateSubtitles(segments, blocks, options);
+    expect(kinds(issues)).toEqual(['unassigned:s2', 'unassigned:s3', 'unusedBlock:b']);
+    expect(issues.every(issue => issue.severity === 'info')).toBe(true);
+    expect(issues[2]).toMatchObject({ blockId: 'b', message: '第 2 行未被使用：第二句' });
+  });
+
+  it('内容相同的文本块提示重复，比较时合并空白', () => {
+    const blocks: TextBlock[] = [
+      { id: 'a', text: '副歌 一' },
+      { id: 'b', text: '主歌' },
+      { id: 'c', text: ' 副歌  一 ' },
+      { id: 'd', text: '' },
+      { id: 'e', text: '' }
+    ];
+    const segments: VideoSegment[] = blocks.map((b, i) => ({ id: `s${i}`, startTime: i * 2, endTime: i * 2 + 2, textId: b.id }));
+    const issues = validateSubtitles(segments, blocks, options);
+    expect(kinds(issues)).toEqual(['duplicateBlock:c']);
+    expect(issues[0].message).toBe('第 3 行与第 1 行内容重复');
+  });
+});
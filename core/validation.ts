@@ -0,0 +1,116 @@
+import { VideoSegment, TextBlock } from './subtitle';
+import { displayLength } from './text';
+
+// --- 字幕检查 ---
+// 字数按 displayLength 计算：中日韩文字计 1，字母数字计 0.5。
+
+export interface ValidationOptions {
+  // 每秒最多字数
+  maxCharsPerSecond: number;
+  // 每行最多字数
+  maxLineLength: number;
+  minDuration: number;
+  maxDuration: number;
+}
+
+export const DEFAULT_VALIDATION_OPTIONS: ValidationOptions = {
+  maxCharsPerSecond: 9,
+  maxLineLength: 20,
+  minDuration: 0.7,
+  maxDuration: 7
+};
+
+export type ValidationIssueKind =
+  | 'charsPerSecond' | 'lineLength' | 'tooShort' | 'tooLong' | 'unassigned' | 'unusedBlock' | 'duplicateBlock';
+
+// warning 通常需要修改；info 可能是有意为之（如空白分段、重复的副歌）
+export type ValidationSeverity = 'warning' | 'info';
+
+export interface ValidationIssue {
+  id: string;
+  kind: ValidationIssueKind;
+  severity: ValidationSeverity;
+  message: string;
+  // 关联的分段起始时间，点击后跳转
+  time?: number;
+  blockId?: string;
+}
+
+const SEVERITY: Record<ValidationIssueKind, ValidationSeverity> = {
+  charsPerSecond: 'warning',
+  lineLength: 'warning',
+  tooShort: 'warning',
+  tooLong: 'warning',
+  unassigned: 'info',
+  unusedBlock: 'info',
+  duplicateBlock: 'info'
+};
+
+const formatNumber = (value: number) => Number(value.toFixed(1)).toString();
+
+const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+export const validateSubtitles = (
+  segments: VideoSegment[],
+  blocks: TextBlock[],
+  options: ValidationOptions
+): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const add = (kind: ValidationIssueKind, key: string, message: string, extra: Partial<ValidationIssue> = {}) => {
+    issues.push({ id: `${kind}:${key}`, kind, severity: SEVERITY[kind], message, ...extra });
+  };
+
+  const blockIndex = new Map(blocks.map((b, i) => [b.id, i]));
+  const used = new Set<string>();
+
+  segments.forEach((seg, index) => {
+    const label = `分段 ${index + 1}`;
+    const length = seg.endTime - seg.startTime;
+    const time = seg.startTime;
+    const blockPosition = seg.textId ? blockIndex.get(seg.textId) : undefined;
+    const block = blockPosition !== undefined ? blocks[blockPosition] : undefined;
+
+    // 空白分段（间奏、停顿）的长短不影响阅读，只检查已分配文本的分段
+    if (!block) {
+      add('unassigned', seg.id, `${label} 未分配文本`, { time });
+      return;
+    }
+    used.add(block.id);
+
+    if (length < options.minDuration) {
+      add('tooShort', seg.id, `${label} 仅 ${formatNumber(length)} 秒，短于 ${options.minDuration} 秒`, { time });
+    }
+    if (length > options.maxDuration) {
+      add('tooLong', seg.id, `${label} 长达 ${formatNumber(length)} 秒，超过 ${options.maxDuration} 秒`, { time });
+    }
+
+    const chars = displayLength(block.text.replace(/\s+/g, ''));
+    const cps = length > 0 ? chars / length : Infinity;
+    if (cps > options.maxCharsPerSecond) {
+      add('charsPerSecond', seg.id, `${label} 每秒 ${formatNumber(cps)} 字，超过 ${options.maxCharsPerSecond} 字`, { time });
+    }
+
+    const longest = Math.max(...block.text.split('\n').map(line => displayLength(line.trim())));
+    if (longest > options.maxLineLength) {
+      add('lineLength', seg.id, `${label} 单行 ${formatNumber(longest)} 字，超过 ${options.maxLineLength} 字`, { time });
+    }
+  });
+
+  const firstByText = new Map<string, number>();
+  blocks.forEach((block, index) => {
+    if (!used.has(block.id)) {
+      add('unusedBlock', block.id, `第 ${index + 1} 行未被使用：${block.text}`, { blockId: block.id });
+    }
+
+    const text = normalizeText(block.text);
+    if (!text) return;
+    const first = firstByText.get(text);
+    if (first === undefined) {
+      firstByText.set(text, index);
+    } else {
+      add('duplicateBlock', block.id, `第 ${index + 1} 行与第 ${first + 1} 行内容重复`, { blockId: block.id });
+    }
+  });
+
+  return issues;
+};
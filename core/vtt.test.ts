@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { parseVTT, serializeVTT } from './vtt';
+import { VideoSegment, TextBlock } from './subtitle';
+
+const blocks: TextBlock[] = [
+  { id: 'a', text: '你好', speakerId: 'p1' },
+  { id: 'b', text: 'Hello' }
+];
+
+const segments: VideoSegment[] = [
+  { id: 's1', startTime: 0.5, endTime: 1.25, textId: 'a' },
+  { id: 's2', startTime: 1.25, endTime: 2, textId: null },
+  { id: 's3', startTime: 2, endTime: 3, textId: 'b' }
+];
+
+describe('serializeVTT', () => {
+  it('写出头部与以点分隔毫秒的时间码', () => {
+    expect(serializeVTT(segments, blocks, { includeEmpty: false })).toBe(
+      'WEBVTT\n\n00:00:00.500 --> 00:00:01.250\n你好\n\n00:00:02.000 --> 00:00:03.000\nHello\n'
+    );
+  });
+
+  it('提供角色表时写出 <v> 标签', () => {
+    const text = serializeVTT(segments, blocks, { includeEmpty: false, voices: [{ id: 'p1', name: '小明', color: '#fff' }] });
+    expect(text).toContain('<v 小明>你好');
+    expect(text).toContain('\nHello\n');
+  });
+});
+
+describe('VTT 转义', () => {
+  it('导出时转义 & 与 <，解析时还原', () => {
+    const special: TextBlock[] = [{ id: 'a', text: 'Tom & Jerry <3 a&lt;b' }];
+    const single: VideoSegment[] = [{ id: 's', startTime: 0, endTime: 1, textId: 'a' }];
+    const text = serializeVTT(single, special, { includeEmpty: false });
+    expect(text).toContain('Tom &amp; Jerry &lt;3 a&amp;lt;b');
+    expect(parseVTT(text)[0].text).toBe('Tom & Jerry <3 a&lt;b');
+  });
+
+  it('解析时还原 &gt;', () => {
+    expect(parseVTT('WEBVTT\n\n00:00.000 --> 00:01.000\n1 &gt; 0')[0].text).toBe('1 > 0');
+  });
+});
+
+describe('parseVTT', () => {
+  it('忽略头部、NOTE 与 STYLE 块以及 cue 设置', () => {
+    const text = [
+      'WEBVTT - 标题',
+      '',
+      'NOTE 这是注释',
+      '',
+      'STYLE',
+      '::cue { color: red }',
+      '',
+      'intro',
+      '00:01.000 --> 00:02.000 align:start line:0',
+      '<v 小明>开场白',
+      '',
+      '00:00:03.000 --> 00:00:04.500',
+      '<b>第二</b>句'
+    ].join('\n');
+    expect(parseVTT(text)).toEqual([
+      { startTime: 1, endTime: 2, text: '开场白' },
+      { startTime: 3, endTime: 4.5, text: '第二句' }
+    ]);
+  });
+
+  it('跳过时间码无效的块', () => {
+    expect(parseVTT('WEBVTT\n\n00:00:xx.000 --> 00:00:01.000\nbad')).toEqual([]);
+  });
+
+  it('导出后再解析得到相同的字幕', () => {
+    expect(parseVTT(serializeVTT(segments, blocks, { includeEmpty: false }))).toEqual([
+      { startTime: 0.5, endTime: 1.25, text: '你好' },
+      { startTime: 2, endTime: 3, text: 'Hello' }
+    ]);
+  });
+});
@@ -0,0 +1,39 @@
+import { VideoSegment, TextBlock, SubtitleCue, formatTimestamp, getSegmentText } from './subtitle';
+import { CueExportOptions, parseCueBlock, splitCueBlocks } from './srt';
+import { Speaker, getSegmentSpeaker } from './speakers';
+
+// --- WebVTT (.vtt) ---
+
+export interface VttExportOptions extends CueExportOptions {
+  // 提供角色表时，有角色的字幕写成 <v 角色>台词
+  voices?: Speaker[];
+}
+
+// 文本中的 & 与 < 会被当作实体或标签，需要转义；解析时还原，&gt; 也一并处理
+const escapeVttText = (text: string): string => text.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+
+const unescapeVttText = (text: string): string =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+
+export const serializeVTT = (segments: VideoSegment[], blocks: TextBlock[], options: VttExportOptions): string => {
+  const cues = segments
+    .filter(s => options.includeEmpty || s.textId)
+    .map(s => {
+      const text = escapeVttText(getSegmentText(s, blocks));
+      const speaker = options.voices ? getSegmentSpeaker(s, blocks, options.voices) : null;
+      return [
+        `${formatTimestamp(s.startTime, '.')} --> ${formatTimestamp(s.endTime, '.')}`,
+        speaker && text ? `<v ${escapeVttText(speaker.name)}>${text}` : text
+      ].join('\n');
+    });
+
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+};
+
+// 头部、NOTE、STYLE 与 REGION 块不包含字幕；时间行之后的 cue settings（align:、line: 等）被忽略
+export const parseVTT = (text: string): SubtitleCue[] =>
+  splitCueBlocks(text)
+    .filter(lines => !/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0]))
+    .map(parseCueBlock)
+    .filter((cue): cue is SubtitleCue => cue !== null)
+    .map(cue => ({ ...cue, text: unescapeVttText(cue.text) }));
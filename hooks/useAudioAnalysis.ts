@@ -0,0 +1,73 @@
+import { useState, useEffect } from 'react';
+import { DecodedAudio, decodeAudioFromUrl } from '../core/audio';
+import { PEAKS_PER_SECOND } from '../core/peaks';
+
+// tooLarge 表示视频文件过大，跳过了解码
+export type AudioAnalysisStatus = 'idle' | 'loading' | 'ready' | 'error' | 'tooLarge';
+
+const createPeaksWorker = () => new Worker(new URL('../core/peaks.worker.ts', import.meta.url), { type: 'module' });
+
+// 在 Worker 中计算峰值；worker 传回的数组所有权随消息转移
+const computePeaksInWorker = (worker: Worker, samples: Float32Array, bucketCount: number): Promise<Float32Array> =>
+  new Promise((resolve, reject) => {
+    worker.onmessage = (e: MessageEvent<Float32Array>) => {
+      resolve(e.data);
+      worker.terminate();
+    };
+    worker.onerror = (e) => {
+      reject(e);
+      worker.terminate();
+    };
+    // 复制一份再转移，保留原始采样供静音检测等功能使用
+    const copy = samples.slice();
+    worker.postMessage({ samples: copy, bucketCount }, [copy.buffer]);
+  });
+
+// 视频加载后在本地解码音轨并生成波形峰值
+export const useAudioAnalysis = (videoUrl: string | null) => {
+  const [status, setStatus] = useState<AudioAnalysisStatus>('idle');
+  const [audio, setAudio] = useState<DecodedAudio | null>(null);
+  const [peaks, setPeaks] = useState<Float32Array | null>(null);
+
+  useEffect(() => {
+    setAudio(null);
+    setPeaks(null);
+    if (!videoUrl) {
+      setStatus('idle');
+      return;
+    }
+
+    let cancelled = false;
+    // 切换视频或卸载时终止仍在计算的 Worker
+    let worker: Worker | null = null;
+    setStatus('loading');
+
+    decodeAudioFromUrl(videoUrl)
+      .then(async decoded => {
+        if (cancelled) return;
+        if (!decoded) {
+          setStatus('tooLarge');
+          return;
+        }
+        setAudio(decoded);
+        const seconds = decoded.samples.length / decoded.sampleRate;
+        worker = createPeaksWorker();
+        const result = await computePeaksInWorker(worker, decoded.samples, Math.max(1, Math.ceil(seconds * PEAKS_PER_SECOND)));
+        if (cancelled) return;
+        setPeaks(result);
+        setStatus('ready');
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('音频解码失败:', error);
+        setStatus('error');
+      });
+
+    return () => {
+      cancelled = true;
+      worker?.terminate();
+    };
+  }, [videoUrl]);
+
+  return { status, audio, peaks };
+};
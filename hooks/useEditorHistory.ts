@@ -0,0 +1,74 @@
+import { useState, useCallback } from 'react';
+import {
+  EditorDocument, HistoryState, EMPTY_HISTORY, pushHistory, undoHistory, redoHistory
+} from '../core/history';
+
+interface EditorState {
+  document: EditorDocument;
+  history: HistoryState;
+}
+
+const EMPTY_DOCUMENT: EditorDocument = { segments: [], textBlocks: [], tracks: [], cast: [] };
+
+// 分段与文本块的唯一数据源，所有修改都通过 commit 进入撤销栈
+export const useEditorHistory = () => {
+  const [state, setState] = useState<EditorState>({ document: EMPTY_DOCUMENT, history: EMPTY_HISTORY });
+
+  const commit = useCallback((label: string, update: (doc: EditorDocument) => EditorDocument, coalesceKey?: string) => {
+    setState(prev => {
+      const next = update(prev.document);
+      if (
+        next.segments === prev.document.segments &&
+        next.textBlocks === prev.document.textBlocks &&
+        next.tracks === prev.document.tracks &&
+        next.cast === prev.document.cast
+      ) return prev;
+      return {
+        document: next,
+        history: pushHistory(prev.history, label, prev.document, next, coalesceKey)
+      };
+    });
+  }, []);
+
+  // 加载视频或打开项目时整体替换文档，并清空历史
+  const reset = useCallback((update: (doc: EditorDocument) => EditorDocument) => {
+    setState(prev => ({ document: update(prev.document), history: EMPTY_HISTORY }));
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(prev => {
+      const result = undoHistory(prev.history);
+      return result ? result : prev;
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(prev => {
+      const result = redoHistory(prev.history);
+      return result ? result : prev;
+    });
+  }, []);
+
+  // 连续撤销或重做，直到第 steps 条记录（负数为撤销）
+  const travel = useCallback((steps: number) => {
+    setState(prev => {
+      let current = prev;
+      for (let i = 0; i < Math.abs(steps); i++) {
+        const result = steps < 0 ? undoHistory(current.history) : redoHistory(current.history);
+        if (!result) break;
+        current = result;
+      }
+      return current;
+    });
+  }, []);
+
+  return {
+    document: state.document,
+    history: state.history,
+    commit,
+    reset,
+    undo,
+    redo,
+    travel
+  };
+};
@@ -0,0 +1,24 @@
+import { useRef, useState } from 'react';
+
+type Callback = (...args: never[]) => unknown;
+
+export type StableCallbacks<T extends Record<string, Callback>> = { [K in keyof T]: T[K] };
+
+// 返回一组引用永远不变的函数，调用时转发到最近一次渲染传入的实现。
+// 用于传给 React.memo 的列表行：行组件不会因为父组件重新创建回调而重新渲染。
+export const useStableCallbacks = <T extends Record<string, Callback>>(callbacks: T): StableCallbacks<T> => {
+  const latestRef = useRef(callbacks);
+  latestRef.current = callbacks;
+
+  const [stable] = useState(() => {
+    // 转发函数的参数与返回值都取自 T[K]，但 TypeScript 无法据此推断出 T[K] 本身
+    const forward = <K extends keyof T>(name: K) =>
+      ((...args: Parameters<T[K]>) => latestRef.current[name](...args)) as T[K];
+
+    const result: StableCallbacks<T> = { ...callbacks };
+    for (const name in result) result[name] = forward(name);
+    return result;
+  });
+
+  return stable;
+};
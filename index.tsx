@@ -1,27 +1,93 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useLayoutEffect, useCallback, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
 import { 
   Play, Pause, Plus, Trash2, Download, Upload, Scissors, 
-  Edit3, Save, X, RotateCcw, Type, GripVertical, HelpCircle, Info
+  Edit3, Save, X, Wand2, Music, ListOrdered,
+  Captions, Settings2, ZoomIn, ZoomOut, Type, GripVertical, HelpCircle, Info, Palette, FolderOpen,
+  Undo2, Redo2, History, Repeat, SkipBack, SkipForward, Command, Keyboard, ShieldCheck, Clock, Languages, Users, Replace
 } from 'lucide-react';
 import './index.css';
+import {
+  createInitialSegments, splitSegmentAt, mergeWithNext,
+  assignText, createTextBlocks, moveTextBlock, formatTimeDisplay, buildSegmentsFromCues,
+  fitSegmentsToDuration, moveBoundary, setSegmentStart, setSegmentEnd, findNearestBoundary, splitSegmentsAt,
+  tapSegmentAt, getNextUnassignedBlock, getSegmentText, findSegmentIndexAt, findBlock, MIN_SEGMENT_DURATION, VideoSegment, WordTiming
+} from './core/subtitle';
+import { setSegmentWords, clearWordsForBlocks } from './core/karaoke';
+import { distributeBlocks, reflowAssignments } from './core/distribute';
+import { ZOOM_STEP, clampZoom } from './core/timeline';
+import {
+  PLAYBACK_RATES, FRAME_DURATION, FINE_STEP, LoopTarget, stepPlaybackRate, findAdjacentBoundary, resolveLoopRange
+} from './core/playback';
+import {
+  COMMANDS, COMMAND_GROUP_LABELS, CommandGroup, CommandId, KeyBindings, DEFAULT_KEY_BINDINGS,
+  eventToShortcut, formatShortcut, findCommandsForShortcut, loadKeyBindings, saveKeyBindings
+} from './core/commands';
+import { SilenceOptions, DEFAULT_SILENCE_OPTIONS, detectSilences, proposeCuts } from './core/silence';
+import { LinearTransform, RetimeResult, retimeSegments, shiftSelectedSegments } from './core/retime';
+import { ValidationOptions, ValidationIssue, DEFAULT_VALIDATION_OPTIONS, validateSubtitles } from './core/validation';
+import { LrcMetadata, parseLRC, buildLrcImport } from './core/lrc';
+import { ExportFormat, EXPORT_FORMATS } from './core/export';
+import { FindOptions, compileFindPattern, replaceInBlocks } from './core/replace';
+import { TextTransform, TEXT_TRANSFORMS, transformBlocks, mergeBlocks, splitBlocks } from './core/batch';
+import { SentenceOptions } from './core/sentences';
+import { CUE_PARSERS, ImportNote, ImportReport, detectSubtitleFormat } from './core/import';
+import { AssStyle, DEFAULT_ASS_STYLE } from './core/ass';
+import {
+  TrackId, PRIMARY_TRACK_NAME, EXPORT_EACH_TRACK, EXPORT_COMBINED, createTrack, getTrackName, getTrackBlocks, setTrackBlocks,
+  getAssignedTextIds, assignTrackText, unassignTrackText, removeTrack, renameTrack, alignTrackToPrimary,
+  resolveTrackExports
+} from './core/tracks';
+import {
+  Speaker, SpeakerExportMode, SPEAKER_EXPORT_LABELS, ScriptLine, createSpeaker, findSpeaker, getSegmentSpeaker, setBlockSpeaker,
+  clearSpeaker, resolveSpeakerNames
+} from './core/speakers';
+import {
+  VideoInfo, ProjectSummary, createProjectId, listProjects, loadProject, saveProject, deleteProject,
+  matchesVideo, formatFileSize
+} from './core/project';
+import { useEditorHistory } from './hooks/useEditorHistory';
+import { useAudioAnalysis } from './hooks/useAudioAnalysis';
+import { useStableCallbacks } from './hooks/useStableCallbacks';
+import AssStyleDialog from './components/AssStyleDialog';
+import ProjectListDialog from './components/ProjectListDialog';
+import HistoryPanel from './components/HistoryPanel';
+import Waveform from './components/Waveform';
+import AutoSplitPanel from './components/AutoSplitPanel';
+import SyncModeBar from './components/SyncModeBar';
+import BulkImportPanel from './components/BulkImportPanel';
+import SubtitleOverlay, { OverlaySettings, DEFAULT_OVERLAY_SETTINGS } from './components/SubtitleOverlay';
+import OverlaySettingsPanel from './components/OverlaySettingsPanel';
+import TimeRuler from './components/TimeRuler';
+import TimelineMinimap from './components/TimelineMinimap';
+import CommandPalette from './components/CommandPalette';
+import KeyBindingsDialog from './components/KeyBindingsDialog';
+import ValidationPanel from './components/ValidationPanel';
+import ImportReportDialog from './components/ImportReportDialog';
+import RetimePanel from './components/RetimePanel';
+import CastDialog from './components/CastDialog';
+import WordTimingEditor from './components/WordTimingEditor';
+import VirtualList, { VirtualListHandle } from './components/VirtualList';
+import SegmentRow from './components/SegmentRow';
+import TextToolsDialog from './components/TextToolsDialog';
+import TimelineSegment from './components/TimelineSegment';
+import LibraryRow from './components/LibraryRow';
 
-// --- 类型定义 ---
+// --- 主应用组件 ---
 
-interface TextBlock {
-  id: string;
-  text: string;
-}
+// chrome.storage.local 超出配额时的错误信息为英文，换成可操作的提示
+const describeSaveError = (error: unknown): string => {
+  const message = error instanceof Error ? error.message : String(error);
+  return /quota/i.test(message) ? '存储空间已满，请在项目列表中删除不需要的项目' : message;
+};
 
-interface VideoSegment {
-  id: string;
-  startTime: number;
-  endTime: number;
-  textId: string | null;
+interface BoundaryDrag {
+  index: number;
+  time: number;
+  startX: number;
+  moved: boolean;
 }
 
-// --- 主应用组件 ---
-
 const App: React.FC = () => {
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [videoFileName, setVideoFileName] = useState<string>('字幕导出');
@@ -29,34 +95,115 @@ const App: React.FC = () => {
   const [currentTime, setCurrentTime] = useState<number>(0);
   const [isPlaying, setIsPlaying] = useState<boolean>(false);
   
-  const [textBlocks, setTextBlocks] = useState<TextBlock[]>([]);
-  const [segments, setSegments] = useState<VideoSegment[]>([]);
+  const { document: editorDocument, history, commit, reset, undo, redo, travel } = useEditorHistory();
+  const { segments, textBlocks, tracks, cast } = editorDocument;
   const [editingBlockId, setEditingBlockId] = useState<string | null>(null);
+  // 字幕库当前显示的轨道，null 为主轨道
+  const [activeTrackId, setActiveTrackId] = useState<TrackId>(null);
+  const [showCast, setShowCast] = useState(false);
+  const [showTextTools, setShowTextTools] = useState(false);
+  // 字幕库中勾选的文本行，用于查找替换的范围与合并拆分
+  const [selectedBlockIds, setSelectedBlockIds] = useState<Set<string>>(() => new Set());
   const [showHelp, setShowHelp] = useState(false);
   const [dragOverSegmentId, setDragOverSegmentId] = useState<string | null>(null);
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const timelineRef = useRef<HTMLDivElement>(null);
+  const timelineViewportRef = useRef<HTMLDivElement>(null);
 
   const [hoveredSegmentId, setHoveredSegmentId] = useState<string | null>(null);
   const [hoverPosition, setHoverPosition] = useState<{x: number, y: number} | null>(null);
 
   const [importingLrc, setImportingLrc] = useState(false);
   const [lrcDuration, setLrcDuration] = useState<number>(0);
+  const [lrcMetadata, setLrcMetadata] = useState<LrcMetadata>({});
+
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('lrc');
+  const [exportIncludeEmpty, setExportIncludeEmpty] = useState(false);
+  const [exportWordTimings, setExportWordTimings] = useState(false);
+  // 空字符串为主轨道，否则为轨道 id 或“每轨一个文件”“双语合并”
+  const [exportTrack, setExportTrack] = useState('');
+  const [speakerMode, setSpeakerMode] = useState<SpeakerExportMode>('prefix');
+  const [assStyle, setAssStyle] = useState<AssStyle>(DEFAULT_ASS_STYLE);
+  const [showAssStyle, setShowAssStyle] = useState(false);
+
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [videoInfo, setVideoInfo] = useState<VideoInfo | null>(null);
+  // 打开项目后等待重新选择的视频
+  const [relinkTarget, setRelinkTarget] = useState<VideoInfo | null>(null);
+  const relinkingRef = useRef(false);
+  const [showProjects, setShowProjects] = useState(false);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  // 最近一次自动保存失败的原因，保存成功后清除
+  const [saveError, setSaveError] = useState<string | null>(null);
+  // 刚打开的项目与存储中的内容相同，跳过随之触发的一次自动保存
+  const skipAutosaveRef = useRef(false);
+  // 尚未执行的自动保存，切换项目前需要先写入
+  const pendingSaveRef = useRef<(() => Promise<boolean>) | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const { status: audioStatus, audio, peaks } = useAudioAnalysis(videoUrl);
+  const [showAutoSplit, setShowAutoSplit] = useState(false);
+  const [silenceOptions, setSilenceOptions] = useState<SilenceOptions>(DEFAULT_SILENCE_OPTIONS);
+  const [syncMode, setSyncMode] = useState(false);
+  const [overlaySettings, setOverlaySettings] = useState<OverlaySettings>(DEFAULT_OVERLAY_SETTINGS);
+  const [showOverlaySettings, setShowOverlaySettings] = useState(false);
+
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [loop, setLoop] = useState<LoopTarget | null>(null);
+  // A–B 循环已标记的起点，等待标记终点
+  const [loopMark, setLoopMark] = useState<number | null>(null);
+
+  const [keyBindings, setKeyBindings] = useState<KeyBindings>(DEFAULT_KEY_BINDINGS);
+  const keyBindingsLoadedRef = useRef(false);
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
+
+  const [showValidation, setShowValidation] = useState(false);
+  const [validationOptions, setValidationOptions] = useState<ValidationOptions>(DEFAULT_VALIDATION_OPTIONS);
+
+  const [selectedSegmentIds, setSelectedSegmentIds] = useState<Set<string>>(() => new Set());
+  const [showRetime, setShowRetime] = useState(false);
+  // 字幕时长超出视频时裁剪超出部分，而不是拒绝导入
+  const [clampImports, setClampImports] = useState(false);
+  const [shareRepeatedLines, setShareRepeatedLines] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [wordTimingSegmentId, setWordTimingSegmentId] = useState<string | null>(null);
+  const [showKeyBindings, setShowKeyBindings] = useState(false);
+
+  const [zoom, setZoom] = useState(1);
+  const [timelineView, setTimelineView] = useState({ scrollLeft: 0, clientWidth: 0, scrollWidth: 0 });
+  // 缩放前记录锚点（占整条时间轴的比例及其在视口中的像素位置），缩放后据此恢复滚动位置
+  const zoomAnchorRef = useRef<{ ratio: number; offsetX: number } | null>(null);
+  // 正在拖拽的边界（第 index 段的结尾），松开鼠标前只做预览
+  const [boundaryDrag, setBoundaryDrag] = useState<BoundaryDrag | null>(null);
+  // 拖拽的最新状态，窗口事件在整个拖拽过程中只订阅一次，从这里读取
+  const boundaryDragRef = useRef<BoundaryDrag | null>(null);
 
   // --- 视频处理 ---
 
   const handleVideoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
+      // 重新关联项目视频：文件名与大小不一致时需要确认
+      const relinking = relinkTarget !== null && (
+        matchesVideo(relinkTarget, file) ||
+        confirm(`所选视频与项目记录不一致：\n项目: ${relinkTarget.fileName} (${formatFileSize(relinkTarget.size)})\n所选: ${file.name} (${formatFileSize(file.size)})\n\n仍然关联到当前项目吗？选择“取消”将以此视频新建项目。`)
+      );
+      relinkingRef.current = relinking;
+
       const url = URL.createObjectURL(file);
       setVideoUrl(url);
+      setVideoInfo({ fileName: file.name, size: file.size, duration: 0 });
             
       // 提取不带后缀的文件名
       const nameWithoutExt = file.name.replace(/\.[^/.]+$/, "");
       setVideoFileName(nameWithoutExt);
       
-      setSegments([]); 
+      if (!relinking) {
+        setRelinkTarget(null);
+        setProjectId(createProjectId());
+        reset(doc => ({ ...doc, segments: [] }));
+      }
       if (videoRef.current) {
         videoRef.current.src = url;
       }
@@ -67,15 +214,121 @@ const App: React.FC = () => {
     if (videoRef.current) {
       const d = videoRef.current.duration;
       setDuration(d);
-      setSegments([{
-        id: crypto.randomUUID(),
-        startTime: 0,
-        endTime: d,
-        textId: null
-      }]);
+      setVideoInfo(prev => prev && { ...prev, duration: d });
+
+      if (relinkingRef.current) {
+        relinkingRef.current = false;
+        if (relinkTarget && Math.abs(relinkTarget.duration - d) > 0.5) {
+          alert(`视频时长与项目记录不一致\n项目: ${formatTimeDisplay(relinkTarget.duration)}\n视频: ${formatTimeDisplay(d)}\n超出视频的分段已被调整`);
+        }
+        setRelinkTarget(null);
+        reset(doc => ({ ...doc, segments: fitSegmentsToDuration(doc.segments, d) }));
+      } else {
+        reset(doc => ({ ...doc, segments: createInitialSegments(d) }));
+      }
+    }
+  };
+
+  // --- 项目管理 ---
+
+  const openProjectList = async () => {
+    setProjects(await listProjects());
+    setShowProjects(true);
+  };
+
+  const openProject = async (id: string) => {
+    const pendingSave = pendingSaveRef.current;
+    if (pendingSave && !(await pendingSave()) && !confirm('当前项目保存失败，打开其他项目会丢失最近的修改。是否继续？')) return;
+
+    const project = await loadProject(id);
+    if (!project) {
+      alert('项目不存在或已被删除');
+      return;
     }
+
+    if (videoUrl) URL.revokeObjectURL(videoUrl);
+    setVideoUrl(null);
+    setIsPlaying(false);
+    setCurrentTime(0);
+
+    skipAutosaveRef.current = true;
+    setProjectId(project.id);
+    setVideoFileName(project.name);
+    setVideoInfo(project.video);
+    setRelinkTarget(project.video);
+    setDuration(project.video?.duration ?? 0);
+    reset(() => ({ segments: project.segments, textBlocks: project.textBlocks, tracks: project.tracks ?? [], cast: project.cast ?? [] }));
+    setActiveTrackId(null);
+    setLrcMetadata(project.lrcMetadata);
+    setAssStyle(project.assStyle);
+    setLastSavedAt(project.updatedAt);
+    setSaveError(null);
+    setShowProjects(false);
+  };
+
+  const removeProject = async (id: string) => {
+    if (!confirm('确定删除该项目吗？此操作无法撤销。')) return;
+    await deleteProject(id);
+    if (id === projectId) setProjectId(null);
+    setProjects(await listProjects());
   };
 
+  // 任何修改都会在短暂停顿后写入存储
+  useEffect(() => {
+    if (!projectId) return;
+    if (skipAutosaveRef.current) {
+      skipAutosaveRef.current = false;
+      return;
+    }
+    const save = () => {
+      pendingSaveRef.current = null;
+      clearTimeout(timer);
+      const updatedAt = Date.now();
+      return saveProject({
+        id: projectId,
+        name: videoFileName,
+        updatedAt,
+        video: videoInfo,
+        segments,
+        textBlocks,
+        tracks,
+        cast,
+        lrcMetadata,
+        assStyle
+      })
+        .then(() => {
+          setLastSavedAt(updatedAt);
+          setSaveError(null);
+          return true;
+        })
+        .catch(error => {
+          console.error('项目保存失败:', error);
+          setSaveError(describeSaveError(error));
+          return false;
+        });
+    };
+    const timer = setTimeout(save, 800);
+    pendingSaveRef.current = save;
+    return () => {
+      clearTimeout(timer);
+      pendingSaveRef.current = null;
+    };
+  }, [projectId, videoFileName, videoInfo, segments, textBlocks, tracks, cast, lrcMetadata, assStyle]);
+
+  // --- 快捷键设置 ---
+
+  useEffect(() => {
+    loadKeyBindings()
+      .then(setKeyBindings)
+      .catch(error => console.error('快捷键设置读取失败:', error))
+      .finally(() => { keyBindingsLoadedRef.current = true; });
+  }, []);
+
+  useEffect(() => {
+    if (!keyBindingsLoadedRef.current) return;
+    saveKeyBindings(keyBindings).catch(error => console.error('快捷键设置保存失败:', error));
+  }, [keyBindings]);
+
   const togglePlay = () => {
     if (videoRef.current) {
       if (isPlaying) videoRef.current.pause();
@@ -98,71 +351,497 @@ const App: React.FC = () => {
     }
   };
 
+  // --- 播放控制 ---
+
+  // 播放中 currentTime 状态只在 timeupdate 时刷新，步进以视频元素的实时位置为准
+  const getPlayheadTime = useCallback(() => videoRef.current?.currentTime ?? currentTime, [currentTime]);
+
+  const stepBy = useCallback((delta: number) => {
+    seek(getPlayheadTime() + delta);
+  }, [seek, getPlayheadTime]);
+
+  const stepFrame = useCallback((direction: 1 | -1) => {
+    if (videoRef.current && isPlaying) {
+      videoRef.current.pause();
+      setIsPlaying(false);
+    }
+    stepBy(direction * FRAME_DURATION);
+  }, [isPlaying, stepBy]);
+
+  const jumpToBoundary = useCallback((direction: 1 | -1) => {
+    const target = findAdjacentBoundary(segments, getPlayheadTime(), direction);
+    if (target !== null) seek(target);
+  }, [segments, getPlayheadTime, seek]);
+
+  const changePlaybackRate = useCallback((direction: 1 | -1) => {
+    setPlaybackRate(rate => stepPlaybackRate(rate, direction));
+  }, []);
+
+  const playFrom = useCallback((time: number) => {
+    if (!videoRef.current) return;
+    seek(time);
+    videoRef.current.play();
+    setIsPlaying(true);
+  }, [seek]);
+
+  const pausePlayback = useCallback(() => {
+    if (!videoRef.current) return;
+    videoRef.current.pause();
+    setIsPlaying(false);
+  }, []);
+
+  const toggleSegmentLoop = useCallback(() => {
+    setLoopMark(null);
+    if (loop) {
+      setLoop(null);
+      return;
+    }
+    const index = findSegmentIndexAt(segments, getPlayheadTime());
+    if (index !== -1) setLoop({ segmentId: segments[index].id });
+  }, [loop, segments, getPlayheadTime]);
+
+  // 第一次标记起点 A，第二次标记终点 B 并开始循环，循环中再次触发则取消
+  const toggleRangeLoop = useCallback(() => {
+    const time = getPlayheadTime();
+    if (loop) {
+      setLoop(null);
+      setLoopMark(null);
+    } else if (loopMark === null) {
+      setLoopMark(time);
+    } else {
+      const start = Math.min(loopMark, time);
+      const end = Math.max(loopMark, time);
+      setLoopMark(null);
+      if (end - start >= MIN_SEGMENT_DURATION) setLoop({ start, end });
+    }
+  }, [loop, loopMark, getPlayheadTime]);
+
+  const loopRange = useMemo(() => resolveLoopRange(loop, segments), [loop, segments]);
+
+  useEffect(() => {
+    if (!videoRef.current) return;
+    videoRef.current.defaultPlaybackRate = playbackRate;
+    videoRef.current.playbackRate = playbackRate;
+  }, [playbackRate, videoUrl]);
+
+  useEffect(() => {
+    setLoop(null);
+    setLoopMark(null);
+  }, [videoUrl]);
+
+  // timeupdate 触发间隔约 250ms，循环判断改用逐帧检查以免越过终点太多
+  useEffect(() => {
+    if (!isPlaying || !loopRange) return;
+    let frame = 0;
+    const tick = () => {
+      const video = videoRef.current;
+      if (video && video.currentTime >= loopRange.end) {
+        video.currentTime = loopRange.start;
+        setCurrentTime(loopRange.start);
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, loopRange]);
+
+  const handleEnded = () => {
+    if (videoRef.current && loopRange) {
+      videoRef.current.currentTime = loopRange.start;
+      videoRef.current.play();
+      return;
+    }
+    setIsPlaying(false);
+  };
+
   // --- 段落逻辑 ---
 
   const splitSegment = useCallback(() => {
     const time = currentTime;
-    setSegments(prev => {
-      const index = prev.findIndex(s => time > s.startTime && time < s.endTime);
-      if (index === -1) return prev;
-
-      const target = prev[index];
-      const newSegments = [...prev];
-      
-      const segA: VideoSegment = { ...target, endTime: time };
-      const segB: VideoSegment = { 
-        id: crypto.randomUUID(), 
-        startTime: time, 
-        endTime: target.endTime, 
-        textId: null 
-      };
-
-      newSegments.splice(index, 1, segA, segB);
-      return newSegments;
-    });
-  }, [currentTime]);
+    commit('切割分段', doc => ({ ...doc, segments: splitSegmentAt(doc.segments, time) }));
+  }, [currentTime, commit]);
 
   const mergeSegments = (segmentIndex: number) => {
-    if (segmentIndex >= segments.length - 1) return;
-    setSegments(prev => {
-      const newSegments = [...prev];
-      const current = newSegments[segmentIndex];
-      const next = newSegments[segmentIndex + 1];
-      
-      newSegments.splice(segmentIndex, 2, {
-        ...current,
-        endTime: next.endTime,
-        textId: current.textId || next.textId 
+    commit('合并分段', doc => ({ ...doc, segments: mergeWithNext(doc.segments, segmentIndex) }));
+  };
+
+  // --- 边界调整 ---
+
+  const timeFromClientX = (clientX: number) => {
+    if (!timelineRef.current) return 0;
+    const rect = timelineRef.current.getBoundingClientRect();
+    return Math.max(0, Math.min(duration, ((clientX - rect.left) / rect.width) * duration));
+  };
+
+  const updateSegmentStart = (index: number, time: number) => {
+    commit('调整开始时间', doc => ({ ...doc, segments: setSegmentStart(doc.segments, index, time) }));
+  };
+
+  const updateSegmentEnd = (index: number, time: number) => {
+    commit('调整结束时间', doc => ({ ...doc, segments: setSegmentEnd(doc.segments, index, time) }));
+  };
+
+  // 微调距离播放头最近的边界，连续微调合并为一条历史记录
+  const nudgeBoundary = useCallback((delta: number) => {
+    const index = findNearestBoundary(segments, getPlayheadTime());
+    if (index === -1) return;
+    const boundaryId = segments[index].id;
+    commit('微调边界', doc => {
+      const i = doc.segments.findIndex(s => s.id === boundaryId);
+      if (i === -1) return doc;
+      return { ...doc, segments: moveBoundary(doc.segments, i, doc.segments[i].endTime + delta) };
+    }, `nudge:${boundaryId}`);
+  }, [segments, getPlayheadTime, commit]);
+
+  const updateBoundaryDrag = (drag: BoundaryDrag | null) => {
+    boundaryDragRef.current = drag;
+    setBoundaryDrag(drag);
+  };
+
+  const isDraggingBoundary = boundaryDrag !== null;
+
+  useEffect(() => {
+    if (!isDraggingBoundary) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const prev = boundaryDragRef.current;
+      if (!prev) return;
+      updateBoundaryDrag({
+        ...prev,
+        time: timeFromClientX(e.clientX),
+        moved: prev.moved || Math.abs(e.clientX - prev.startX) > 3
       });
-      return newSegments;
+    };
+
+    // 没有拖动时视为点击合并手柄
+    const handleMouseUp = () => {
+      const drag = boundaryDragRef.current;
+      updateBoundaryDrag(null);
+      if (!drag) return;
+      const { index, time, moved } = drag;
+      if (moved) {
+        commit('拖动边界', doc => ({ ...doc, segments: moveBoundary(doc.segments, index, time) }));
+      } else {
+        mergeSegments(index);
+      }
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [isDraggingBoundary]);
+
+  const timelineSegments = useMemo(
+    () => (boundaryDrag?.moved ? moveBoundary(segments, boundaryDrag.index, boundaryDrag.time) : segments),
+    [segments, boundaryDrag]
+  );
+
+  // --- 时间轴缩放与滚动 ---
+
+  const syncTimelineView = useCallback(() => {
+    const viewport = timelineViewportRef.current;
+    if (!viewport) return;
+    setTimelineView({ scrollLeft: viewport.scrollLeft, clientWidth: viewport.clientWidth, scrollWidth: viewport.scrollWidth });
+  }, []);
+
+  // 以播放头为中心缩放；播放头不在可视范围内时以视口中心为准
+  const zoomTimeline = useCallback((factor: number) => {
+    const viewport = timelineViewportRef.current;
+    if (!viewport || duration <= 0) return;
+
+    let ratio = currentTime / duration;
+    let offsetX = ratio * viewport.scrollWidth - viewport.scrollLeft;
+    if (offsetX < 0 || offsetX > viewport.clientWidth) {
+      offsetX = viewport.clientWidth / 2;
+      ratio = (viewport.scrollLeft + offsetX) / viewport.scrollWidth;
+    }
+    zoomAnchorRef.current = { ratio, offsetX };
+    setZoom(prev => clampZoom(prev * factor, duration));
+  }, [currentTime, duration]);
+
+  useLayoutEffect(() => {
+    const viewport = timelineViewportRef.current;
+    const anchor = zoomAnchorRef.current;
+    if (viewport && anchor) {
+      viewport.scrollLeft = anchor.ratio * viewport.scrollWidth - anchor.offsetX;
+      zoomAnchorRef.current = null;
+    }
+    syncTimelineView();
+  }, [zoom, syncTimelineView]);
+
+  useEffect(() => {
+    setZoom(1);
+  }, [duration]);
+
+  // Ctrl + 滚轮缩放；React 的 wheel 事件是被动监听，无法阻止浏览器页面缩放
+  useEffect(() => {
+    const viewport = timelineViewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      zoomTimeline(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP);
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [zoomTimeline]);
+
+  useEffect(() => {
+    const viewport = timelineViewportRef.current;
+    if (!viewport) return;
+    const observer = new ResizeObserver(syncTimelineView);
+    observer.observe(viewport);
+    return () => observer.disconnect();
+  }, [syncTimelineView]);
+
+  // 播放时播放头移出可视范围则翻页跟随
+  useEffect(() => {
+    const viewport = timelineViewportRef.current;
+    if (!viewport || !isPlaying || zoom <= 1 || duration <= 0) return;
+    const x = (currentTime / duration) * viewport.scrollWidth;
+    if (x < viewport.scrollLeft || x > viewport.scrollLeft + viewport.clientWidth * 0.9) {
+      viewport.scrollLeft = x - viewport.clientWidth * 0.1;
+    }
+  }, [currentTime, isPlaying, zoom, duration]);
+
+  const scrollTimelineTo = (time: number) => {
+    const viewport = timelineViewportRef.current;
+    if (!viewport || duration <= 0) return;
+    viewport.scrollLeft = (time / duration) * viewport.scrollWidth - viewport.clientWidth / 2;
+  };
+
+  const visibleStart = timelineView.scrollWidth ? (timelineView.scrollLeft / timelineView.scrollWidth) * duration : 0;
+  const visibleEnd = timelineView.scrollWidth
+    ? ((timelineView.scrollLeft + timelineView.clientWidth) / timelineView.scrollWidth) * duration
+    : duration;
+
+  // --- 静音自动切分 ---
+
+  const silences = useMemo(
+    () => (showAutoSplit && audio ? detectSilences(audio.samples, audio.sampleRate, silenceOptions) : []),
+    [showAutoSplit, audio, silenceOptions]
+  );
+
+  const proposedCuts = useMemo(
+    () => proposeCuts(silences, segments.slice(1).map(s => s.startTime), duration, silenceOptions.minSegment),
+    [silences, segments, duration, silenceOptions.minSegment]
+  );
+
+  const applyAutoSplit = () => {
+    commit('自动切分', doc => ({ ...doc, segments: splitSegmentsAt(doc.segments, proposedCuts) }));
+    setShowAutoSplit(false);
+  };
+
+  // --- 打轴模式 ---
+
+  // 播放时 currentTime 每秒更新数次，以下结果只依赖文档与当前分段的下标，避免每次都遍历全部分段
+  const nextBlock = useMemo(() => getNextUnassignedBlock(segments, textBlocks), [segments, textBlocks]);
+  const activeSegmentIndex = findSegmentIndexAt(segments, currentTime);
+  const activeText = useMemo(
+    () => (activeSegmentIndex === -1 ? '' : getSegmentText(segments[activeSegmentIndex], textBlocks)),
+    [segments, textBlocks, activeSegmentIndex]
+  );
+  const upcomingText = useMemo(() => {
+    for (let i = activeSegmentIndex + 1; i < segments.length; i++) {
+      if (segments[i].textId) return getSegmentText(segments[i], textBlocks);
+    }
+    return null;
+  }, [segments, textBlocks, activeSegmentIndex]);
+  const hasAssignedSegments = useMemo(() => segments.some(s => s.textId), [segments]);
+  const hasUnassignedSegments = useMemo(() => segments.some(s => !s.textId), [segments]);
+
+  // 每次按键都是一条历史记录，撤销上一次打轴即撤销最近一条
+  const tapSync = useCallback((assignNext: boolean) => {
+    // 直接读取视频时间，timeupdate 事件有最多约 250ms 的延迟
+    const time = videoRef.current?.currentTime ?? currentTime;
+    commit(assignNext ? '打轴' : '标记空白', doc => {
+      const block = assignNext ? getNextUnassignedBlock(doc.segments, doc.textBlocks) : null;
+      if (assignNext && !block) return doc;
+      return { ...doc, segments: tapSegmentAt(doc.segments, time, block?.id ?? null) };
     });
+  }, [currentTime, commit]);
+
+  // --- 顺序分配 ---
+
+  const distributeText = () => {
+    commit('顺序分配文本', doc => ({ ...doc, segments: distributeBlocks(doc.segments, doc.textBlocks) }));
+  };
+
+  const reflowFrom = (index: number, direction: 1 | -1) => {
+    commit(direction === 1 ? '分配后移' : '分配前移', doc => ({ ...doc, segments: reflowAssignments(doc.segments, index, direction) }));
   };
 
   const updateSegmentText = (segmentId: string, textId: string | null) => {
-    setSegments(prev => prev.map(s => s.id === segmentId ? { ...s, textId } : s));
+    commit(textId ? '分配文本' : '取消分配', doc => ({ ...doc, segments: assignText(doc.segments, segmentId, textId) }));
+  };
+
+  const assignNextToActive = () => {
+    const index = findSegmentIndexAt(segments, getPlayheadTime());
+    if (index !== -1 && nextBlock) updateSegmentText(segments[index].id, nextBlock.id);
+  };
+
+  // --- 逐字时间 ---
+
+  const wordTimingSegment = useMemo(
+    () => (wordTimingSegmentId ? segments.find(s => s.id === wordTimingSegmentId && s.textId) ?? null : null),
+    [segments, wordTimingSegmentId]
+  );
+
+  const editWordTimingsAtPlayhead = () => {
+    const index = findSegmentIndexAt(segments, getPlayheadTime());
+    if (index !== -1 && segments[index].textId) setWordTimingSegmentId(segments[index].id);
+  };
+
+  const saveWordTimings = (words: WordTiming[] | null) => {
+    if (!wordTimingSegment) return;
+    commit('编辑逐字时间', doc => ({ ...doc, segments: setSegmentWords(doc.segments, wordTimingSegment.id, words) }));
+    setWordTimingSegmentId(null);
+  };
+
+  // --- 时间调整 ---
+
+  const selectedSegmentCount = useMemo(
+    () => segments.filter(s => selectedSegmentIds.has(s.id)).length,
+    [segments, selectedSegmentIds]
+  );
+
+  const toggleSegmentSelection = (id: string) => {
+    setSelectedSegmentIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const retimeAll = (transform: LinearTransform, label: string): RetimeResult => {
+    const result = retimeSegments(segments, transform, duration);
+    commit(label, doc => ({ ...doc, segments: result.segments }));
+    return result;
+  };
+
+  const shiftTimings = (offset: number, selectedOnly: boolean): RetimeResult => {
+    if (!selectedOnly) return retimeAll({ scale: 1, offset }, '整体平移时间');
+    const shifted = shiftSelectedSegments(segments, selectedSegmentIds, offset);
+    commit('平移选中分段', doc => ({ ...doc, segments: shifted }));
+    return { segments: shifted, dropped: 0, clipped: 0 };
+  };
+
+  // --- 字幕检查 ---
+
+  const validationIssues = useMemo(
+    () => validateSubtitles(segments, textBlocks, validationOptions),
+    [segments, textBlocks, validationOptions]
+  );
+  const validationWarningCount = validationIssues.filter(issue => issue.severity === 'warning').length;
+
+  // 文本行已分配时跳到对应分段，否则滚动字幕库到该行
+  const selectIssue = (issue: ValidationIssue) => {
+    if (issue.time !== undefined) {
+      seek(issue.time);
+      return;
+    }
+    const segment = segments.find(s => s.textId === issue.blockId);
+    if (segment) {
+      seek(segment.startTime);
+      return;
+    }
+    // 检查只针对主轨道，先切回主轨道的字幕库再定位
+    setActiveTrackId(null);
+    requestAnimationFrame(() => {
+      libraryListRef.current?.scrollToIndex(textBlocks.findIndex(b => b.id === issue.blockId));
+    });
+  };
+
+  // --- 文本轨道 ---
+
+  // 轨道被删除或撤销后退回主轨道
+  const libraryTrackId = activeTrackId !== null && tracks.some(t => t.id === activeTrackId) ? activeTrackId : null;
+  const libraryBlocks = getTrackBlocks(editorDocument, libraryTrackId);
+  const libraryListRef = useRef<VirtualListHandle | null>(null);
+
+  // 各轨道已分配的文本块，主轨道的键为空字符串
+  const assignedIds = useMemo(() => {
+    const result: Record<string, Set<string>> = { '': getAssignedTextIds(segments, null) };
+    tracks.forEach(t => { result[t.id] = getAssignedTextIds(segments, t.id); });
+    return result;
+  }, [segments, tracks]);
+  const libraryAssignedIds = assignedIds[libraryTrackId ?? ''] ?? assignedIds[''];
+  const unassignedBlockCount = useMemo(
+    () => textBlocks.filter(b => !assignedIds[''].has(b.id)).length,
+    [textBlocks, assignedIds]
+  );
+
+  const addTrack = () => {
+    const name = window.prompt('新轨道名称（如 English）', 'English')?.trim();
+    if (!name) return;
+    const track = createTrack(name);
+    commit('添加文本轨道', doc => ({ ...doc, tracks: [...doc.tracks, track] }));
+    setActiveTrackId(track.id);
+  };
+
+  const renameActiveTrack = () => {
+    if (libraryTrackId === null) return;
+    const current = tracks.find(t => t.id === libraryTrackId)?.name ?? '';
+    const name = window.prompt('轨道名称', current)?.trim();
+    if (!name || name === current) return;
+    commit('重命名文本轨道', doc => renameTrack(doc, libraryTrackId, name));
+  };
+
+  const deleteActiveTrack = () => {
+    if (libraryTrackId === null) return;
+    const track = tracks.find(t => t.id === libraryTrackId);
+    if (!track || !confirm(`确定删除轨道“${track.name}”及其 ${track.blocks.length} 行文本吗？`)) return;
+    commit('删除文本轨道', doc => removeTrack(doc, libraryTrackId));
+    setActiveTrackId(null);
+  };
+
+  const alignActiveTrack = () => {
+    if (libraryTrackId === null) return;
+    commit('按原文对齐译文', doc => ({ ...doc, segments: alignTrackToPrimary(doc, libraryTrackId) }));
+  };
+
+  const updateSegmentTrackText = (segmentId: string, trackId: TrackId, textId: string | null) => {
+    if (trackId === null) {
+      updateSegmentText(segmentId, textId);
+      return;
+    }
+    commit(textId ? '分配译文' : '取消分配译文', doc => ({ ...doc, segments: assignTrackText(doc.segments, segmentId, trackId, textId) }));
   };
 
   // --- 文本块逻辑 ---
+  // 以下操作都作用于字幕库当前显示的轨道
 
   const addTextBlock = (text: string = "") => {
-    const newBlock = { id: crypto.randomUUID(), text: text || "新文本行..." };
-    setTextBlocks(prev => [...prev, newBlock]);
+    const [newBlock] = createTextBlocks([text || "新文本行..."]);
+    commit('添加文本行', doc => setTrackBlocks(doc, libraryTrackId, [...getTrackBlocks(doc, libraryTrackId), newBlock]));
     setEditingBlockId(newBlock.id);
   };
 
   const deleteTextBlock = (id: string) => {
-    setTextBlocks(prev => prev.filter(b => b.id !== id));
-    setSegments(prev => prev.map(s => s.textId === id ? { ...s, textId: null } : s));
+    commit('删除文本行', doc => ({
+      ...setTrackBlocks(doc, libraryTrackId, getTrackBlocks(doc, libraryTrackId).filter(b => b.id !== id)),
+      segments: unassignTrackText(doc.segments, libraryTrackId, id)
+    }));
   };
 
   const updateTextBlock = (id: string, text: string) => {
-    setTextBlocks(prev => prev.map(b => b.id === id ? { ...b, text } : b));
+    commit('编辑文本', doc => {
+      const blocks = getTrackBlocks(doc, libraryTrackId);
+      const target = findBlock(blocks, id);
+      if (!target || target.text === text) return doc;
+      return setTrackBlocks(doc, libraryTrackId, blocks.map(b => b.id === id ? { ...b, text } : b));
+    }, `text:${id}`);
     setEditingBlockId(null);
   };
 
   // 拖拽排序逻辑
   const handleTextBlockDragStart = (e: React.DragEvent, blockId: string, index: number) => {
     e.dataTransfer.setData('textBlockId', blockId);
+    e.dataTransfer.setData('trackId', libraryTrackId ?? '');
     e.dataTransfer.setData('sourceIndex', index.toString());
   };
 
@@ -178,12 +857,7 @@ const App: React.FC = () => {
     const sourceIndex = parseInt(sourceIndexStr, 10);
     if (sourceIndex === targetIndex) return;
 
-    setTextBlocks(prev => {
-      const result = [...prev];
-      const [removed] = result.splice(sourceIndex, 1);
-      result.splice(targetIndex, 0, removed);
-      return result;
-    });
+    commit('调整字幕顺序', doc => setTrackBlocks(doc, libraryTrackId, moveTextBlock(getTrackBlocks(doc, libraryTrackId), sourceIndex, targetIndex)));
   };
 
   const handleSegmentDragOver = (e: React.DragEvent, segmentId: string) => {
@@ -196,172 +870,409 @@ const App: React.FC = () => {
     setDragOverSegmentId(null);
     const textBlockId = e.dataTransfer.getData('textBlockId');
     if (textBlockId) {
-      updateSegmentText(segmentId, textBlockId);
+      updateSegmentTrackText(segmentId, e.dataTransfer.getData('trackId') || null, textBlockId);
     }
   };
 
-  const handleBulkImport = (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    const formData = new FormData(e.currentTarget);
-    const text = formData.get('rawText') as string;
-    if (!text.trim()) return;
+  // 传给分段列表与时间轴的回调保持引用不变，使未变化的行跳过重新渲染
+  const segmentRowActions = useStableCallbacks({
+    toggleSelection: toggleSegmentSelection,
+    setStart: updateSegmentStart,
+    setEnd: updateSegmentEnd,
+    assign: updateSegmentTrackText,
+    reflow: reflowFrom,
+    editWords: (segmentId: string) => setWordTimingSegmentId(segmentId),
+    seek,
+    dragOver: handleSegmentDragOver,
+    dragLeave: () => setDragOverSegmentId(null),
+    drop: handleSegmentDrop
+  });
+
+  const retimeActions = useStableCallbacks({
+    shift: shiftTimings,
+    transform: retimeAll,
+    getPlayheadTime,
+    close: () => setShowRetime(false)
+  });
+
+  const timelineSegmentActions = useStableCallbacks({
+    hover: (segmentId: string | null, position: { x: number; y: number } | null) => {
+      setHoveredSegmentId(segmentId);
+      setHoverPosition(position);
+    },
+    startBoundaryDrag: (index: number, time: number, clientX: number) => {
+      updateBoundaryDrag({ index, time, startX: clientX, moved: false });
+    }
+  });
+
+  // 时间轴上的分段元素只在文档、悬停、拖动或当前分段变化时重建，播放时不必每次都遍历全部分段
+  const timelineActiveIndex = findSegmentIndexAt(timelineSegments, currentTime);
+  const draggingBoundaryIndex = boundaryDrag?.index ?? -1;
+  const timelineSegmentElements = useMemo(() => timelineSegments.map((seg, idx) => (
+    <TimelineSegment
+      key={seg.id}
+      segment={seg}
+      index={idx}
+      isLast={idx === timelineSegments.length - 1}
+      duration={duration}
+      isActive={idx === timelineActiveIndex}
+      isHovered={hoveredSegmentId === seg.id}
+      isDragging={draggingBoundaryIndex === idx}
+      text={findBlock(textBlocks, seg.textId)?.text ?? null}
+      speaker={getSegmentSpeaker(seg, textBlocks, cast)}
+      actions={timelineSegmentActions}
+    />
+  )), [timelineSegments, duration, timelineActiveIndex, hoveredSegmentId, draggingBoundaryIndex, textBlocks, cast, timelineSegmentActions]);
 
-    const lines = text.split('\n').map(l => l.trim()).filter(l => l.length > 0);
-    const newBlocks = lines.map(line => ({ id: crypto.randomUUID(), text: line }));
-    setTextBlocks(prev => [...prev, ...newBlocks]);
-    e.currentTarget.reset();
+  // --- 查找替换与批量处理 ---
+  // 与字幕库的其他操作一样作用于当前显示的轨道
+
+  const selectedBlockCount = useMemo(
+    () => libraryBlocks.filter(b => selectedBlockIds.has(b.id)).length,
+    [libraryBlocks, selectedBlockIds]
+  );
+
+  const toggleBlockSelection = (id: string) => {
+    setSelectedBlockIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
   };
 
-  // --- 导入 LRC 文件逻辑 ---
-  const parseLRCFile = (text: string) => {
-    const lines = text.split('\n').filter(line => line.trim());
-    const entries: Array<{time: number, text: string}> = [];
-    let maxTime = 0;
-    
-    lines.forEach(line => {
-      // 增强鲁棒性，匹配 [mm:ss.xx] 或 [mm:ss:xx] 格式
-      const timeMatches = Array.from(line.matchAll(/\[(\d+):(\d+(\.\d+)?)\]/g));
-      
-      if (timeMatches.length > 0) {
-        timeMatches.forEach(match => {
-          const minutes = parseInt(match[1]);
-          const seconds = parseFloat(match[2]);
-          const timeInSeconds = minutes * 60 + seconds;
-          
-          // 移除所有时间戳和标签，只保留纯文本
-          const text = line.replace(/\[\d+:\d+(\.\d+)?\]/g, '').trim();
-          
-          if (text.length > 0 || timeInSeconds > 0) {
-            entries.push({ time: timeInSeconds, text });
-            maxTime = Math.max(maxTime, timeInSeconds);
-          }
-        });
-      }
+  const replaceText = (options: FindOptions, scopeIds: Set<string>): number => {
+    const { pattern } = compileFindPattern(options);
+    if (!pattern) return 0;
+    const result = replaceInBlocks(libraryBlocks, pattern, options, scopeIds);
+    if (result.changed > 0) commit('查找替换', doc => setTrackBlocks(doc, libraryTrackId, result.blocks));
+    return result.changed;
+  };
+
+  const transformText = (transform: TextTransform, scopeIds: Set<string>): number => {
+    const result = transformBlocks(libraryBlocks, scopeIds, transform);
+    if (result.changed > 0) commit(TEXT_TRANSFORMS[transform].label, doc => setTrackBlocks(doc, libraryTrackId, result.blocks));
+    return result.changed;
+  };
+
+  // 逐字时间对应主轨道的文本，主轨道的行被改写后清除
+  const clearRewrittenWords = (segments: VideoSegment[], blockIds: Set<string>): VideoSegment[] =>
+    libraryTrackId === null ? clearWordsForBlocks(segments, blockIds) : segments;
+
+  // 被合并掉的行原有的分配一并清除
+  const mergeSelectedBlocks = (separator: string): number => {
+    const result = mergeBlocks(libraryBlocks, selectedBlockIds, separator);
+    if (result.removedIds.length === 0) return 0;
+    commit('合并文本行', doc => ({
+      ...setTrackBlocks(doc, libraryTrackId, result.blocks),
+      segments: result.removedIds.reduce(
+        (segs, id) => unassignTrackText(segs, libraryTrackId, id),
+        clearRewrittenWords(doc.segments, selectedBlockIds)
+      )
+    }));
+    setSelectedBlockIds(new Set());
+    return result.removedIds.length;
+  };
+
+  const splitSelectedBlocks = (options: SentenceOptions): number => {
+    const result = splitBlocks(libraryBlocks, selectedBlockIds, options);
+    if (result.added > 0) {
+      commit('拆分文本行', doc => ({
+        ...setTrackBlocks(doc, libraryTrackId, result.blocks),
+        segments: clearRewrittenWords(doc.segments, result.splitIds)
+      }));
+    }
+    return result.added;
+  };
+
+  // 识别出的角色按名字并入角色表，新名字自动创建角色
+  const handleBulkImport = (lines: ScriptLine[]) => {
+    commit('批量导入文本', doc => {
+      const { cast: nextCast, speakerIds } = resolveSpeakerNames(doc.cast, lines.map(line => line.speaker));
+      const blocks = createTextBlocks(lines.map(line => line.text))
+        .map((block, i) => speakerIds[i] ? { ...block, speakerId: speakerIds[i]! } : block);
+      return { ...setTrackBlocks(doc, libraryTrackId, [...getTrackBlocks(doc, libraryTrackId), ...blocks]), cast: nextCast };
     });
+  };
+
+  // --- 角色 ---
+
+  const speakerLineCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    [textBlocks, ...tracks.map(t => t.blocks)].flat().forEach(b => {
+      if (b.speakerId) counts[b.speakerId] = (counts[b.speakerId] ?? 0) + 1;
+    });
+    return counts;
+  }, [textBlocks, tracks]);
+
+  const addSpeaker = (name: string) => {
+    commit('添加角色', doc => ({ ...doc, cast: [...doc.cast, createSpeaker(name, doc.cast)] }));
+  };
+
+  const updateSpeaker = (speaker: Speaker) => {
+    commit('编辑角色', doc => ({ ...doc, cast: doc.cast.map(s => s.id === speaker.id ? speaker : s) }), `speaker:${speaker.id}`);
+  };
+
+  const removeSpeaker = (id: string) => {
+    commit('删除角色', doc => ({
+      ...doc,
+      cast: doc.cast.filter(s => s.id !== id),
+      textBlocks: clearSpeaker(doc.textBlocks, id),
+      tracks: doc.tracks.map(t => {
+        const blocks = clearSpeaker(t.blocks, id);
+        return blocks === t.blocks ? t : { ...t, blocks };
+      })
+    }));
+  };
+
+  const updateBlockSpeaker = (blockId: string, speakerId: string | null) => {
+    commit('设置角色', doc => setTrackBlocks(doc, libraryTrackId, setBlockSpeaker(getTrackBlocks(doc, libraryTrackId), blockId, speakerId)));
+  };
+
+  // 字幕库的行内操作，与分段列表一样保持引用不变
+  const libraryRowActions = useStableCallbacks({
+    dragStart: handleTextBlockDragStart,
+    dragOver: handleTextBlockDragOver,
+    drop: handleTextBlockDrop,
+    edit: setEditingBlockId,
+    update: updateTextBlock,
+    remove: deleteTextBlock,
+    toggleSelection: toggleBlockSelection,
+    setSpeaker: updateBlockSpeaker
+  });
+
+  // --- 导入字幕文件逻辑 ---
+
+  const importLrc = (text: string) => {
+    const { entries, maxTime, metadata, offset, clamped } = parseLRC(text);
     
-    // 去重和排序
-    const uniqueEntries = Array.from(new Map(
-      entries.map(entry => [`${entry.time}-${entry.text}`, entry])
-    ).values());
+    if (entries.length === 0) {
+      alert('未找到有效的字幕条目');
+      return;
+    }
     
-    uniqueEntries.sort((a, b) => a.time - b.time);
+    // 时长检查
+    if (duration > 0 && duration < maxTime && !clampImports) {
+      alert(`LRC文件时长超出视频长度\nLRC: ${formatTimeDisplay(maxTime)}\n视频: ${formatTimeDisplay(duration)}\n可勾选“裁剪超出视频时长的部分”后重新导入`);
+      return;
+    }
+
+    const result = buildLrcImport(entries, duration, { shareRepeatedLines });
+    if (result.textBlocks.length === 0 && !result.segments?.some(s => s.textId)) {
+      alert('所有字幕条目都超出了视频时长');
+      return;
+    }
     
-    return {
-      entries: uniqueEntries,
-      maxTime
-    };
+    setLrcDuration(maxTime);
+    setLrcMetadata(metadata);
+    commit('导入 LRC', doc => ({ ...doc, segments: result.segments ?? doc.segments, textBlocks: result.textBlocks }));
+    setImportingLrc(false);
+
+    setImportReport({
+      format: 'lrc',
+      entryCount: entries.length,
+      segmentCount: result.segments?.length ?? 0,
+      blockCount: result.textBlocks.length,
+      notes: [...clamped.map(entry => ({ kind: 'clamped' as const, time: entry.time, text: entry.text })), ...result.notes],
+      metadata,
+      offset
+    });
+  };
+
+  // SRT / VTT / ASS 自带结束时间，直接按条目生成分段
+  const importCues = (text: string, format: keyof typeof CUE_PARSERS) => {
+    const cues = CUE_PARSERS[format](text);
+    if (cues.length === 0) {
+      alert('未找到有效的字幕条目');
+      return;
+    }
+
+    const maxTime = Math.max(...cues.map(c => c.startTime));
+    if (duration > 0 && duration < maxTime && !clampImports) {
+      alert(`字幕文件时长超出视频长度\n字幕: ${formatTimeDisplay(maxTime)}\n视频: ${formatTimeDisplay(duration)}\n可勾选“裁剪超出视频时长的部分”后重新导入`);
+      return;
+    }
+
+    // buildSegmentsFromCues 会截短越过视频结尾的条目并丢弃完全超出的条目
+    const notes: ImportNote[] = duration > 0
+      ? cues
+        .filter(c => c.endTime > duration)
+        .map(c => ({ kind: c.startTime >= duration ? 'dropped' as const : 'clamped' as const, time: c.startTime, text: c.text }))
+      : [];
+    const result = buildSegmentsFromCues(cues, duration);
+    setLrcDuration(maxTime);
+    setLrcMetadata({});
+    commit(`导入 ${format.toUpperCase()}`, doc => ({ ...doc, ...result }));
+    setImportingLrc(false);
+
+    setImportReport({
+      format,
+      entryCount: cues.length,
+      segmentCount: result.segments.length,
+      blockCount: result.textBlocks.length,
+      notes,
+      metadata: {},
+      offset: 0
+    });
   };
 
-  const handleLrcImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleSubtitleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
-    
+
     try {
       const text = await file.text();
-      const { entries, maxTime } = parseLRCFile(text);
-      
-      if (entries.length === 0) {
-        alert('未找到有效的字幕条目');
-        return;
-      }
-      
-      // 时长检查
-      if (duration > 0 && duration < maxTime) {
-        alert(`LRC文件时长超出视频长度\nLRC: ${formatTimeDisplay(maxTime)}\n视频: ${formatTimeDisplay(duration)}`);
+      const format = detectSubtitleFormat(text);
+      if (!format) {
+        alert('无法识别的字幕格式');
         return;
       }
-      
-      setLrcDuration(maxTime);
-      
-      // 创建文本块和分段
-      const newTextBlocks: TextBlock[] = entries
-        .filter(entry => entry.text.length > 0)
-        .map((entry, index) => ({
-          id: crypto.randomUUID(),
-          text: entry.text
-        }));
-      
-      // 如果有视频，创建分段
-      if (duration > 0) {
-        const newSegments: VideoSegment[] = [];
-        const timePoints = entries.map(e => e.time);
-        
-        // 确保包含视频开始和结束
-        const allTimes = [0, ...timePoints.filter(t => t > 0 && t < duration), duration];
-        
-        for (let i = 0; i < allTimes.length - 1; i++) {
-          const startTime = allTimes[i];
-          const endTime = allTimes[i + 1];
-          
-          // 找到该时间段对应的字幕
-          const entry = entries.find(e => Math.abs(e.time - startTime) < 0.01);
-          
-          newSegments.push({
-            id: crypto.randomUUID(),
-            startTime,
-            endTime,
-            textId: entry?.text 
-              ? newTextBlocks.find(b => b.text === entry.text)?.id || null 
-              : null
-          });
-        }
-        
-        setSegments(newSegments);
-      }
-      
-      setTextBlocks(newTextBlocks);
-      setImportingLrc(false);
-      
-      alert(`导入成功！\n${entries.length} 个时间点\n${newTextBlocks.length} 条字幕`);
-      
+      if (format === 'lrc') importLrc(text);
+      else importCues(text, format);
     } catch (error) {
-      console.error('LRC导入错误:', error);
+      console.error('字幕导入错误:', error);
       alert('文件解析失败');
+    } finally {
+      e.target.value = '';
     }
   };
 
   // --- 导出逻辑，支持无字幕段落 ---
 
-  const exportLRC = () => {
-    const lrcLines = segments
-      .map(s => {
-        const block = s.textId ? textBlocks.find(b => b.id === s.textId) : null;
-        
-        const formatLrcTime = (seconds: number) => {
-          const m = Math.floor(seconds / 60);
-          const sRem = (seconds % 60).toFixed(2);
-          return `[${m.toString().padStart(2, '0')}:${sRem.padStart(5, '0')}]`;
-        };
-        
-        const blockText = block?.text || '';
-        return `${formatLrcTime(s.startTime)}${blockText}`;
-      });
+  const exportSubtitles = () => {
+    if (validationWarningCount > 0 && !window.confirm(`字幕检查发现 ${validationWarningCount} 个警告，仍要导出吗？\n选择“取消”可在检查面板中查看详情。`)) {
+      setShowValidation(true);
+      return;
+    }
+    const format = EXPORT_FORMATS[exportFormat];
+    const options = {
+      includeEmpty: exportIncludeEmpty,
+      metadata: lrcMetadata,
+      wordTimings: exportWordTimings,
+      splitLines: exportTrack === EXPORT_COMBINED,
+      assStyle,
+      title: lrcMetadata.ti || videoFileName,
+      videoWidth: videoRef.current?.videoWidth || 0,
+      videoHeight: videoRef.current?.videoHeight || 0,
+      cast,
+      speakerMode
+    };
+    // 每个轨道单独导出时依次下载多个文件，文件名附加轨道名
+    resolveTrackExports(editorDocument, exportTrack).forEach(file => {
+      const content = format.serialize(file.segments, file.blocks, options);
+      const blob = new Blob([content], { type: format.mimeType });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = file.suffix ? `${videoFileName}.${file.suffix}.${format.extension}` : `${videoFileName}.${format.extension}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    });
+  };
+
+  // --- 命令与快捷键 ---
 
-    const blob = new Blob([lrcLines.join('\n')], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${videoFileName}.lrc`;
-    a.click();
-    URL.revokeObjectURL(url);
+  const commandHandlers: Record<CommandId, () => void> = {
+    togglePlay,
+    stepBackward: () => stepBy(-FINE_STEP),
+    stepForward: () => stepBy(FINE_STEP),
+    frameBackward: () => stepFrame(-1),
+    frameForward: () => stepFrame(1),
+    prevBoundary: () => jumpToBoundary(-1),
+    nextBoundary: () => jumpToBoundary(1),
+    slowerRate: () => changePlaybackRate(-1),
+    fasterRate: () => changePlaybackRate(1),
+    seekStart: () => seek(0),
+    seekEnd: () => seek(duration),
+    loopSegment: toggleSegmentLoop,
+    loopRange: toggleRangeLoop,
+    split: splitSegment,
+    mergeWithNext: () => {
+      const index = findSegmentIndexAt(segments, getPlayheadTime());
+      if (index !== -1 && index < segments.length - 1) mergeSegments(index);
+    },
+    nudgeBack: () => nudgeBoundary(-0.05),
+    nudgeForward: () => nudgeBoundary(0.05),
+    nudgeBackLarge: () => nudgeBoundary(-0.5),
+    nudgeForwardLarge: () => nudgeBoundary(0.5),
+    assignNext: assignNextToActive,
+    editWordTimings: editWordTimingsAtPlayhead,
+    distribute: distributeText,
+    undo,
+    redo,
+    toggleSyncMode: () => setSyncMode(v => !v),
+    syncAssign: () => tapSync(true),
+    syncBlank: () => tapSync(false),
+    syncUndo: undo,
+    zoomIn: () => zoomTimeline(ZOOM_STEP),
+    zoomOut: () => zoomTimeline(1 / ZOOM_STEP),
+    toggleAutoSplit: () => setShowAutoSplit(v => !v),
+    toggleValidation: () => setShowValidation(v => !v),
+    toggleRetime: () => setShowRetime(v => !v),
+    toggleOverlay: () => setOverlaySettings(prev => ({ ...prev, enabled: !prev.enabled })),
+    importSubtitles: () => setImportingLrc(true),
+    export: exportSubtitles,
+    openProjects: openProjectList,
+    showHistory: () => setShowHistory(v => !v),
+    textTools: () => setShowTextTools(true),
+    showHelp: () => setShowHelp(true),
+    editKeyBindings: () => setShowKeyBindings(true),
+    commandPalette: () => setShowCommandPalette(true)
   };
 
-  const formatTimeDisplay = (seconds: number) => {
-    const m = Math.floor(seconds / 60);
-    const s = Math.floor(seconds % 60);
-    const ms = Math.floor((seconds % 1) * 100);
-    return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}.${ms.toString().padStart(2, '0')}`;
+  // 当前状态下无法执行的命令不会拦截按键，也不出现在命令面板中
+  const isCommandAvailable = (id: CommandId): boolean => {
+    switch (id) {
+      case 'syncAssign':
+      case 'syncBlank':
+      case 'syncUndo':
+        return syncMode;
+      case 'undo':
+        return history.past.length > 0;
+      case 'redo':
+        return history.future.length > 0;
+      case 'assignNext':
+      case 'distribute':
+        return !!nextBlock;
+      case 'editWordTimings':
+        return hasAssignedSegments;
+      case 'export':
+        return hasAssignedSegments;
+      case 'importSubtitles':
+      case 'zoomIn':
+      case 'zoomOut':
+      case 'toggleSyncMode':
+      case 'toggleAutoSplit':
+      case 'toggleRetime':
+        return duration > 0;
+      default:
+        return true;
+    }
   };
 
+  // 监听只注册一次，通过 ref 读取最新的处理函数与快捷键
+  const commandsRef = useRef({ handlers: commandHandlers, isAvailable: isCommandAvailable, bindings: keyBindings });
+  commandsRef.current = { handlers: commandHandlers, isAvailable: isCommandAvailable, bindings: keyBindings };
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (document.activeElement?.tagName === 'INPUT' || document.activeElement?.tagName === 'TEXTAREA') return;
-      if (e.code === 'Space') { e.preventDefault(); togglePlay(); }
-      if (e.code === 'KeyM') { e.preventDefault(); splitSegment(); }
+      const shortcut = eventToShortcut(e);
+      if (!shortcut) return;
+      const { handlers, isAvailable, bindings } = commandsRef.current;
+      const id = findCommandsForShortcut(bindings, shortcut).find(isAvailable);
+      if (!id) return;
+      e.preventDefault();
+      handlers[id]();
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isPlaying, currentTime, splitSegment]);
+  }, []);
+
+  const shortcutHint = (id: CommandId) => {
+    const [shortcut] = keyBindings[id];
+    return shortcut ? formatShortcut(shortcut) : '未设置';
+  };
 
   return (
     <div className="h-screen flex flex-col bg-slate-950 text-slate-100">
@@ -377,6 +1288,38 @@ const App: React.FC = () => {
         </div>
         
         <div className="flex items-center gap-3">
+          <div className="flex items-center gap-1">
+            <button
+              onClick={undo}
+              disabled={history.past.length === 0}
+              className="p-1.5 text-slate-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors bg-transparent"
+              title={history.past.length ? `撤销：${history.past[history.past.length - 1].label} (${shortcutHint('undo')})` : `撤销 (${shortcutHint('undo')})`}
+            >
+              <Undo2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={redo}
+              disabled={history.future.length === 0}
+              className="p-1.5 text-slate-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors bg-transparent"
+              title={history.future.length ? `重做：${history.future[0].label} (${shortcutHint('redo')})` : `重做 (${shortcutHint('redo')})`}
+            >
+              <Redo2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setShowHistory(v => !v)}
+              className={`p-1.5 hover:text-white transition-colors bg-transparent ${showHistory ? 'text-indigo-400' : 'text-slate-400'}`}
+              title="编辑历史"
+            >
+              <History className="w-4 h-4" />
+            </button>
+          </div>
+          <button
+            onClick={() => setShowCommandPalette(true)}
+            className="p-1.5 text-slate-400 hover:text-white transition-colors bg-transparent"
+            title={`命令面板 (${shortcutHint('commandPalette')})`}
+          >
+            <Command className="w-4 h-4" />
+          </button>
           <button 
             onClick={() => setShowHelp(true)}
             className="flex items-center gap-2 px-3 py-1.5 text-slate-400 hover:text-white transition-colors bg-transparent"
@@ -384,6 +1327,13 @@ const App: React.FC = () => {
             <HelpCircle className="w-4 h-4" />
             <span className="text-sm">使用帮助</span>
           </button>
+          <button 
+            onClick={openProjectList}
+            className="flex items-center gap-2 px-3 py-1.5 text-slate-400 hover:text-white transition-colors bg-transparent"
+          >
+            <FolderOpen className="w-4 h-4" />
+            <span className="text-sm">项目</span>
+          </button>
           <label className="flex items-center gap-2 px-4 py-1.5 bg-slate-800 hover:bg-slate-700 rounded-lg cursor-pointer transition-all border border-slate-700 text-sm font-medium">
             <Upload className="w-4 h-4" />
             导入视频
@@ -395,15 +1345,83 @@ const App: React.FC = () => {
             className="flex items-center gap-2 px-4 py-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-all shadow-lg shadow-indigo-500/25 text-sm font-medium text-white"
           >
             <Upload className="w-4 h-4" />
-            导入 .LRC
+            导入字幕
           </button>
+          <select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+            className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-xs text-slate-300 outline-none focus:border-indigo-500"
+            title="导出格式"
+          >
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(key => (
+              <option key={key} value={key}>{EXPORT_FORMATS[key].label}</option>
+            ))}
+          </select>
+          {tracks.length > 0 && (
+            <select
+              value={exportTrack}
+              onChange={(e) => setExportTrack(e.target.value)}
+              className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-xs text-slate-300 outline-none focus:border-indigo-500"
+              title="导出的文本轨道"
+            >
+              <option value="">{PRIMARY_TRACK_NAME}</option>
+              {tracks.map(track => (
+                <option key={track.id} value={track.id}>{track.name}</option>
+              ))}
+              <option value={EXPORT_EACH_TRACK}>每个轨道单独导出</option>
+              <option value={EXPORT_COMBINED}>双语合并（译文在第二行）</option>
+            </select>
+          )}
+          {cast.length > 0 && (
+            <select
+              value={speakerMode}
+              onChange={(e) => setSpeakerMode(e.target.value as SpeakerExportMode)}
+              className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-xs text-slate-300 outline-none focus:border-indigo-500"
+              title="导出时如何处理角色"
+            >
+              {(Object.keys(SPEAKER_EXPORT_LABELS) as SpeakerExportMode[]).map(mode => (
+                <option key={mode} value={mode} disabled={mode === 'voice' && !EXPORT_FORMATS[exportFormat].voiceTags}>
+                  {SPEAKER_EXPORT_LABELS[mode]}
+                </option>
+              ))}
+            </select>
+          )}
+          {exportFormat !== 'lrc' && (
+            <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer" title="为未分配文本的分段输出空白字幕">
+              <input
+                type="checkbox"
+                checked={exportIncludeEmpty}
+                onChange={(e) => setExportIncludeEmpty(e.target.checked)}
+              />
+              保留空白分段
+            </label>
+          )}
+          {exportFormat === 'lrc' && (
+            <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer" title="写出增强型 LRC 的 <mm:ss.xx> 逐字时间，未打点的行按字数平均分配">
+              <input
+                type="checkbox"
+                checked={exportWordTimings}
+                onChange={(e) => setExportWordTimings(e.target.checked)}
+              />
+              逐字时间 (A2)
+            </label>
+          )}
+          {exportFormat === 'ass' && (
+            <button
+              onClick={() => setShowAssStyle(true)}
+              className="p-1.5 text-slate-400 hover:text-white transition-colors bg-transparent"
+              title="ASS 字幕样式"
+            >
+              <Palette className="w-4 h-4" />
+            </button>
+          )}
           <button 
-            onClick={exportLRC}
-            disabled={!segments.some(s => s.textId)}
+            onClick={exportSubtitles}
+            disabled={!hasAssignedSegments}
             className="flex items-center gap-2 px-4 py-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-all shadow-lg shadow-indigo-500/25 text-sm font-medium text-white"
           >
             <Download className="w-4 h-4" />
-            导出 .LRC
+            导出 {EXPORT_FORMATS[exportFormat].label}
           </button>
         </div>
       </header>
@@ -423,8 +1441,24 @@ const App: React.FC = () => {
                   className="w-full h-full object-contain"
                   onTimeUpdate={handleTimeUpdate}
                   onLoadedMetadata={handleLoadedMetadata}
+                  onEnded={handleEnded}
                   onClick={togglePlay}
                 />
+              ) : relinkTarget ? (
+                <div className="w-full h-full flex flex-col items-center justify-center text-slate-400 gap-4">
+                  <div className="p-8 bg-slate-900 rounded-full">
+                    <FolderOpen className="w-12 h-12 opacity-20" />
+                  </div>
+                  <p className="text-sm font-medium">请重新选择该项目的视频文件</p>
+                  <p className="text-[10px] font-mono text-slate-500">
+                    {relinkTarget.fileName} · {formatFileSize(relinkTarget.size)} · {formatTimeDisplay(relinkTarget.duration)}
+                  </p>
+                  <label className="flex items-center gap-2 px-4 py-1.5 bg-indigo-600 hover:bg-indigo-500 rounded-lg cursor-pointer transition-all text-sm font-medium text-white">
+                    <Upload className="w-4 h-4" />
+                    关联视频
+                    <input type="file" accept="video/*" className="hidden" onChange={handleVideoUpload} />
+                  </label>
+                </div>
               ) : (
                 <div className="w-full h-full flex flex-col items-center justify-center text-slate-600 gap-4">
                   <div className="p-8 bg-slate-900 rounded-full">
@@ -434,27 +1468,99 @@ const App: React.FC = () => {
                 </div>
               )}
               
+              {/* 字幕预览 */}
+              {videoUrl && (
+                <SubtitleOverlay text={activeText} nextText={upcomingText} settings={overlaySettings} />
+              )}
+
               {/* 播放控制悬浮层 */}
               {videoUrl && (
                 <div className="absolute inset-x-0 bottom-0 p-6 bg-gradient-to-t from-black/90 via-black/40 to-transparent opacity-0 group-hover:opacity-100 transition-all">
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-4">
-                      <button onClick={togglePlay} className="w-12 h-12 flex items-center justify-center bg-white rounded-full text-black hover:scale-110 transition-transform">
-                        {isPlaying ? <Pause className="w-6 h-6 fill-current" /> : <Play className="fill-current w-6 h-6 ml-1" />}
-                      </button>
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => jumpToBoundary(-1)}
+                          className="p-2 rounded-lg hover:bg-slate-800 transition-colors bg-transparent text-slate-300"
+                          title={`跳到上一个边界 (${shortcutHint('prevBoundary')})`}
+                        >
+                          <SkipBack className="w-5 h-5" />
+                        </button>
+                        <button onClick={togglePlay} title={`播放 / 暂停 (${shortcutHint('togglePlay')})`} className="w-12 h-12 flex items-center justify-center bg-white rounded-full text-black hover:scale-110 transition-transform">
+                          {isPlaying ? <Pause className="w-6 h-6 fill-current" /> : <Play className="fill-current w-6 h-6 ml-1" />}
+                        </button>
+                        <button
+                          onClick={() => jumpToBoundary(1)}
+                          className="p-2 rounded-lg hover:bg-slate-800 transition-colors bg-transparent text-slate-300"
+                          title={`跳到下一个边界 (${shortcutHint('nextBoundary')})`}
+                        >
+                          <SkipForward className="w-5 h-5" />
+                        </button>
+                      </div>
                       <div className="font-mono text-sm">
                         <span className="text-white">{formatTimeDisplay(currentTime)}</span>
                         <span className="mx-2 text-slate-500">/</span>
                         <span className="text-slate-400">{formatTimeDisplay(duration)}</span>
                       </div>
                     </div>
-                    <button 
-                      onClick={splitSegment}
-                      className="flex items-center gap-2 px-5 py-2.5 bg-indigo-600 hover:bg-indigo-500 rounded-xl font-bold text-sm shadow-xl transition-all text-white"
-                    >
-                      <Scissors className="w-4 h-4" />
-                      在此处切割 (M)
-                    </button>
+                    <div className="flex items-center gap-3">
+                      <select
+                        value={playbackRate}
+                        onChange={(e) => setPlaybackRate(Number(e.target.value))}
+                        className="bg-slate-900/80 border border-slate-700 rounded-lg px-2 py-1 text-xs font-mono text-slate-300 outline-none"
+                        title={`播放速率 (${shortcutHint('slowerRate')} / ${shortcutHint('fasterRate')})`}
+                      >
+                        {PLAYBACK_RATES.map(rate => (
+                          <option key={rate} value={rate}>{rate}x</option>
+                        ))}
+                      </select>
+                      <div className="flex items-center gap-1">
+                        <button
+                          onClick={toggleSegmentLoop}
+                          className={`p-2 rounded-lg hover:bg-slate-800 transition-colors bg-transparent ${
+                            loop && 'segmentId' in loop ? 'text-amber-400' : 'text-slate-400'
+                          }`}
+                          title={`${loop ? '取消循环' : '循环当前分段'} (${shortcutHint('loopSegment')})`}
+                        >
+                          <Repeat className="w-5 h-5" />
+                        </button>
+                        <button
+                          onClick={toggleRangeLoop}
+                          className={`px-2 py-1 rounded-lg hover:bg-slate-800 transition-colors bg-transparent text-xs font-mono font-bold ${
+                            (loop && !('segmentId' in loop)) || loopMark !== null ? 'text-amber-400' : 'text-slate-400'
+                          }`}
+                          title={`${loop ? '取消循环' : loopMark === null ? '标记循环起点 A' : '标记循环终点 B'} (${shortcutHint('loopRange')})`}
+                        >
+                          {loopMark !== null ? 'A-' : 'A-B'}
+                        </button>
+                      </div>
+                      <div className="relative flex items-center gap-1">
+                        <button
+                          onClick={() => setOverlaySettings(prev => ({ ...prev, enabled: !prev.enabled }))}
+                          className={`p-2 rounded-lg hover:bg-slate-800 transition-colors bg-transparent ${overlaySettings.enabled ? 'text-white' : 'text-slate-500'}`}
+                          title={overlaySettings.enabled ? '隐藏字幕预览' : '显示字幕预览'}
+                        >
+                          <Captions className="w-5 h-5" />
+                        </button>
+                        <button
+                          onClick={() => setShowOverlaySettings(v => !v)}
+                          className={`p-2 rounded-lg hover:bg-slate-800 transition-colors bg-transparent ${showOverlaySettings ? 'text-indigo-400' : 'text-slate-400'}`}
+                          title="字幕预览设置"
+                        >
+                          <Settings2 className="w-5 h-5" />
+                        </button>
+                        {showOverlaySettings && (
+                          <OverlaySettingsPanel settings={overlaySettings} onChange={setOverlaySettings} />
+                        )}
+                      </div>
+                      <button 
+                        onClick={splitSegment}
+                        className="flex items-center gap-2 px-5 py-2.5 bg-indigo-600 hover:bg-indigo-500 rounded-xl font-bold text-sm shadow-xl transition-all text-white"
+                      >
+                        <Scissors className="w-4 h-4" />
+                        在此处切割 ({shortcutHint('split')})
+                      </button>
+                    </div>
                   </div>
                 </div>
               )}
@@ -464,79 +1570,187 @@ const App: React.FC = () => {
             <div className="bg-slate-900/50 rounded-3xl border border-slate-800 p-6 shadow-inner shrink-0">
               <div className="flex items-center justify-between mb-4">
                 <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest">主工作流时间轴</h3>
-                {duration > 0 && <span className="text-[10px] text-slate-500 font-mono">可点击或拖拽跳转</span>}
+                <div className="flex items-center gap-4">
+                  {audioStatus === 'loading' && <span className="text-[10px] text-slate-500">正在分析音频…</span>}
+                  {audioStatus === 'error' && <span className="text-[10px] text-red-400">无法解码音轨，波形不可用</span>}
+                  {audioStatus === 'tooLarge' && <span className="text-[10px] text-amber-400">视频文件超过 1 GB，已跳过波形分析</span>}
+                  {duration > 0 && <span className="text-[10px] text-slate-500 font-mono">可点击或拖拽跳转</span>}
+                  {duration > 0 && (
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => zoomTimeline(1 / ZOOM_STEP)}
+                        disabled={zoom <= 1}
+                        className="p-1 text-slate-500 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors bg-transparent"
+                        title="缩小 (Ctrl + 滚轮)"
+                      >
+                        <ZoomOut className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={() => setZoom(1)}
+                        className="w-10 text-[10px] font-mono text-slate-500 hover:text-white transition-colors bg-transparent"
+                        title="重置缩放"
+                      >
+                        {zoom < 10 ? zoom.toFixed(1) : Math.round(zoom)}x
+                      </button>
+                      <button
+                        onClick={() => zoomTimeline(ZOOM_STEP)}
+                        disabled={zoom >= clampZoom(Infinity, duration)}
+                        className="p-1 text-slate-500 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors bg-transparent"
+                        title="放大 (Ctrl + 滚轮)"
+                      >
+                        <ZoomIn className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  )}
+                  {segments.length > 0 && (
+                    <button
+                      onClick={distributeText}
+                      disabled={!nextBlock || !hasUnassignedSegments}
+                      className="flex items-center gap-1 text-[10px] font-bold text-slate-500 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors bg-transparent"
+                      title="按字幕库顺序为未分配的分段依次分配文本，已分配的分段作为锚点"
+                    >
+                      <ListOrdered className="w-3.5 h-3.5" />
+                      顺序分配
+                    </button>
+                  )}
+                  {videoUrl && (
+                    <button
+                      onClick={() => setSyncMode(v => !v)}
+                      className={`flex items-center gap-1 text-[10px] font-bold hover:text-white transition-colors bg-transparent ${syncMode ? 'text-indigo-400' : 'text-slate-500'}`}
+                    >
+                      <Music className="w-3.5 h-3.5" />
+                      打轴模式
+                    </button>
+                  )}
+                  {videoUrl && (
+                    <button
+                      onClick={() => setShowAutoSplit(v => !v)}
+                      className={`flex items-center gap-1 text-[10px] font-bold hover:text-white transition-colors bg-transparent ${showAutoSplit ? 'text-indigo-400' : 'text-slate-500'}`}
+                    >
+                      <Wand2 className="w-3.5 h-3.5" />
+                      自动切分
+                    </button>
+                  )}
+                  {duration > 0 && (
+                    <button
+                      onClick={() => setShowRetime(v => !v)}
+                      className={`flex items-center gap-1 text-[10px] font-bold hover:text-white transition-colors bg-transparent ${showRetime ? 'text-indigo-400' : 'text-slate-500'}`}
+                    >
+                      <Clock className="w-3.5 h-3.5" />
+                      时间调整
+                    </button>
+                  )}
+                  {segments.length > 0 && (
+                    <button
+                      onClick={() => setShowValidation(v => !v)}
+                      className={`flex items-center gap-1 text-[10px] font-bold hover:text-white transition-colors bg-transparent ${showValidation ? 'text-indigo-400' : 'text-slate-500'}`}
+                    >
+                      <ShieldCheck className="w-3.5 h-3.5" />
+                      检查
+                      {validationWarningCount > 0 && <span className="text-amber-400">{validationWarningCount}</span>}
+                    </button>
+                  )}
+                </div>
               </div>
+
+              {syncMode && (
+                <SyncModeBar
+                  currentLine={activeText || null}
+                  nextLine={nextBlock?.text ?? null}
+                  remaining={unassignedBlockCount}
+                  keys={{ assign: shortcutHint('syncAssign'), blank: shortcutHint('syncBlank'), undo: shortcutHint('syncUndo') }}
+                  onClose={() => setSyncMode(false)}
+                />
+              )}
+
+              {showAutoSplit && (
+                <AutoSplitPanel
+                  options={silenceOptions}
+                  onChange={setSilenceOptions}
+                  audioStatus={audioStatus}
+                  cutCount={proposedCuts.length}
+                  onApply={applyAutoSplit}
+                  onClose={() => setShowAutoSplit(false)}
+                />
+              )}
+
+              {showRetime && (
+                <RetimePanel
+                  segments={segments}
+                  textBlocks={textBlocks}
+                  selectedCount={selectedSegmentCount}
+                  getPlayheadTime={retimeActions.getPlayheadTime}
+                  onShift={retimeActions.shift}
+                  onTransform={retimeActions.transform}
+                  onClose={retimeActions.close}
+                />
+              )}
+
+              {showValidation && (
+                <ValidationPanel
+                  options={validationOptions}
+                  onChange={setValidationOptions}
+                  issues={validationIssues}
+                  onSelect={selectIssue}
+                  onClose={() => setShowValidation(false)}
+                />
+              )}
               
+              <div className="relative bg-slate-800/30 rounded-2xl border border-slate-800/50 overflow-hidden">
+              {/* 音频波形：固定在视口中，只绘制可见范围 */}
+              {peaks && duration > 0 && (
+                <div className="absolute inset-x-0 top-5 h-20 pointer-events-none">
+                  <Waveform peaks={peaks} startRatio={visibleStart / duration} endRatio={visibleEnd / duration} />
+                </div>
+              )}
+
+              <div
+                ref={timelineViewportRef}
+                className="relative overflow-x-auto overflow-y-hidden"
+                onScroll={syncTimelineView}
+              >
+              <div className="relative" style={{ width: `${zoom * 100}%` }}>
+              <TimeRuler
+                duration={duration}
+                trackWidth={timelineView.scrollWidth}
+                visibleStart={visibleStart}
+                visibleEnd={visibleEnd}
+              />
+
               <div 
                 ref={timelineRef}
-                className="relative h-20 bg-slate-800/30 rounded-2xl cursor-pointer border border-slate-800/50 overflow-hidden"
+                className="relative h-20 cursor-pointer"
                 onMouseDown={(e) => {
                   const rect = e.currentTarget.getBoundingClientRect();
                   seek(((e.clientX - rect.left) / rect.width) * duration);
                 }}
               >
                 {/* 分段可视化 */}
-                {segments.map((seg, idx) => {
-                  const left = (seg.startTime / duration) * 100;
-                  const width = ((seg.endTime - seg.startTime) / duration) * 100;
-                  const isActive = currentTime >= seg.startTime && currentTime < seg.endTime;
-                  
-                  return (
-                    <div 
-                      key={seg.id}
-                      className={`absolute h-full border-r border-slate-700/30 transition-all ${
-                        isActive ? 'bg-indigo-500/15' : 'hover:bg-slate-700/20'
-                      }`}
-                      style={{ left: `${left}%`, width: `${width}%` }}
-                      onMouseEnter={(e) => {
-                        if (seg.textId) {
-                          setHoveredSegmentId(seg.id);
-                          // 获取鼠标位置
-                          const rect = e.currentTarget.getBoundingClientRect();
-                          setHoverPosition({
-                            x: rect.left,
-                            y: rect.top - 10 // 向上偏移一点
-                          });
-                        }
-                      }}
-                      onMouseMove={(e) => {
-                        if (seg.textId && hoveredSegmentId === seg.id) {
-                          setHoverPosition({
-                            x: e.clientX,
-                            y: e.clientY - 10
-                          });
-                        }
-                      }}
-                      onMouseLeave={() => {
-                        setHoveredSegmentId(null);
-                        setHoverPosition(null);
-                      }}
-                    >
-                      {seg.textId && (
-                        <div className="absolute inset-0 flex items-center justify-center p-2">
-                          <div 
-                            className="text-[10px] text-indigo-400 font-medium truncate opacity-60 hover:opacity-100 transition-opacity"
-                            title={textBlocks.find(b => b.id === seg.textId)?.text}
-                          >
-                            {textBlocks.find(b => b.id === seg.textId)?.text.slice(0, 20)}
-                            {textBlocks.find(b => b.id === seg.textId)?.text.length > 20 ? '...' : ''}
-                          </div>
-                        </div>
-                      )}
-                      
-                      {/* 合并手柄 */}
-                      {idx < segments.length - 1 && (
-                        <button 
-                          className="absolute top-0 right-0 bottom-0 w-2 hover:bg-red-500/50 z-20 transition-all cursor-col-resize group/merge bg-transparent"
-                          onClick={(e) => { e.stopPropagation(); mergeSegments(idx); }}
-                        >
-                          <div className="hidden group-hover/merge:flex absolute top-0 -translate-y-full left-1/2 -translate-x-1/2 bg-red-600 text-[8px] px-1 py-0.5 rounded font-bold text-white">合并</div>
-                        </button>
-                      )}
-                    </div>
-                  );
-                })}
+                {timelineSegmentElements}
                 
+                {/* 循环区间 */}
+                {loopRange && (
+                  <div
+                    className="absolute top-0 bottom-0 bg-amber-400/10 border-t-2 border-amber-400 z-10 pointer-events-none"
+                    style={{ left: `${(loopRange.start / duration) * 100}%`, width: `${((loopRange.end - loopRange.start) / duration) * 100}%` }}
+                  />
+                )}
+                {loopMark !== null && (
+                  <div
+                    className="absolute top-0 bottom-0 w-px bg-amber-400 z-20 pointer-events-none"
+                    style={{ left: `${(loopMark / duration) * 100}%` }}
+                  />
+                )}
+
+                {/* 自动切分预览 */}
+                {showAutoSplit && proposedCuts.map(time => (
+                  <div
+                    key={time}
+                    className="absolute top-0 bottom-0 w-px bg-amber-400 z-20 pointer-events-none"
+                    style={{ left: `${(time / duration) * 100}%` }}
+                  />
+                ))}
+
                 {/* 游标 */}
                 <div 
                   className="absolute top-0 bottom-0 w-1 bg-red-500 shadow-[0_0_15px_rgba(239,68,68,0.8)] z-30 transition-all pointer-events-none"
@@ -545,47 +1759,62 @@ const App: React.FC = () => {
                   <div className="absolute top-0 left-1/2 -translate-x-1/2 w-4 h-4 bg-red-500 rounded-b-full" />
                 </div>
               </div>
+              </div>
+              </div>
+              </div>
+
+              {/* 全局缩略图 */}
+              {zoom > 1 && (
+                <TimelineMinimap
+                  segments={segments}
+                  duration={duration}
+                  currentTime={currentTime}
+                  visibleStart={visibleStart}
+                  visibleEnd={visibleEnd}
+                  onNavigate={scrollTimelineTo}
+                />
+              )}
 
               {/* 活动分段详细列表 */}
-              <div className="mt-6 space-y-3 max-h-[300px] overflow-y-auto pr-2 min-h-0">
-                {segments.map((seg, idx) => {
-                  const isActive = currentTime >= seg.startTime && currentTime < seg.endTime;
-                  const isDragOver = dragOverSegmentId === seg.id;
-                  return (
-                    <div 
-                      key={seg.id}
-                      onDragOver={(e) => handleSegmentDragOver(e, seg.id)}
-                      onDragLeave={() => setDragOverSegmentId(null)}
-                      onDrop={(e) => handleSegmentDrop(e, seg.id)}
-                      className={`flex items-center gap-4 p-3 rounded-xl border transition-all ${
-                        isActive ? 'bg-indigo-600/10 border-indigo-500/50' : (isDragOver ? 'bg-indigo-500/20 border-indigo-500 shadow-indigo-500/20' : 'bg-slate-900 border-slate-800')
-                      }`}
-                    >
-                      <div className="text-[10px] font-bold text-slate-500 w-16 uppercase">分段 {idx + 1}</div>
-                      <div className="text-[10px] font-mono text-slate-400 w-24 whitespace-nowrap">
-                        {seg.startTime.toFixed(2)}s - {seg.endTime.toFixed(2)}s
-                      </div>
-                      <select 
-                        className="flex-1 bg-slate-950 border border-slate-800 rounded-lg p-2 text-xs text-slate-300 outline-none focus:border-indigo-500"
-                        value={seg.textId || ''}
-                        onChange={(e) => updateSegmentText(seg.id, e.target.value || null)}
-                      >
-                        <option value="">(未分配文本 / 拖拽此处分配)</option>
-                        {textBlocks.map(b => (
-                          <option key={b.id} value={b.id}>{b.text.slice(0, 50)}...</option>
-                        ))}
-                      </select>
-                      <button 
-                        onClick={() => seek(seg.startTime)} 
-                        className="p-2 hover:bg-slate-800 rounded-lg text-slate-500 hover:text-white transition-colors bg-transparent"
-                        title="跳转至开始点"
-                      >
-                        <RotateCcw className="w-3.5 h-3.5" />
-                      </button>
-                    </div>
-                  );
-                })}
-              </div>
+              {selectedSegmentCount > 0 && (
+                <div className="flex items-center gap-3 mt-3 text-[10px] text-slate-500">
+                  已选 {selectedSegmentCount} 个分段
+                  <button
+                    onClick={() => setSelectedSegmentIds(new Set(segments.map(s => s.id)))}
+                    className="hover:text-white transition-colors bg-transparent"
+                  >
+                    全选
+                  </button>
+                  <button
+                    onClick={() => setSelectedSegmentIds(new Set())}
+                    className="hover:text-white transition-colors bg-transparent"
+                  >
+                    清除选择
+                  </button>
+                </div>
+              )}
+              <VirtualList
+                className="mt-6 max-h-[300px] overflow-y-auto pr-2 min-h-0"
+                itemClassName="pb-3"
+                items={segments}
+                getKey={(seg: VideoSegment) => seg.id}
+                estimateSize={68}
+                renderItem={(seg, idx) => (
+                  <SegmentRow
+                    segment={seg}
+                    index={idx}
+                    isLast={idx === segments.length - 1}
+                    isActive={idx === activeSegmentIndex}
+                    isDragOver={dragOverSegmentId === seg.id}
+                    isSelected={selectedSegmentIds.has(seg.id)}
+                    speaker={getSegmentSpeaker(seg, textBlocks, cast)}
+                    blocks={textBlocks}
+                    tracks={tracks}
+                    assignedIds={assignedIds}
+                    actions={segmentRowActions}
+                  />
+                )}
+              />
             </div>
           </div>
         </div>
@@ -597,96 +1826,131 @@ const App: React.FC = () => {
               <Type className="w-4 h-4 text-indigo-400" />
               字幕库
             </h2>
-            <button 
-              onClick={() => addTextBlock()}
-              className="p-1.5 bg-indigo-600/10 hover:bg-indigo-600/20 text-indigo-400 rounded-lg transition-colors bg-transparent"
-              title="添加文本行"
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setShowTextTools(true)}
+                disabled={libraryBlocks.length === 0}
+                className="p-1.5 hover:bg-slate-800 text-slate-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors bg-transparent"
+                title={`查找替换 / 批量处理（${shortcutHint('textTools')}）`}
+              >
+                <Replace className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setShowCast(true)}
+                className="p-1.5 hover:bg-slate-800 text-slate-400 hover:text-white rounded-lg transition-colors bg-transparent"
+                title="角色表"
+              >
+                <Users className="w-4 h-4" />
+              </button>
+              <button 
+                onClick={() => addTextBlock()}
+                className="p-1.5 bg-indigo-600/10 hover:bg-indigo-600/20 text-indigo-400 rounded-lg transition-colors bg-transparent"
+                title="添加文本行"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          {/* 文本轨道切换 */}
+          <div className="px-4 py-3 border-b border-slate-800 flex items-center gap-1 flex-wrap">
+            {[null, ...tracks.map(t => t.id)].map(trackId => (
+              <button
+                key={trackId ?? 'primary'}
+                onClick={() => { setActiveTrackId(trackId); setEditingBlockId(null); }}
+                onDoubleClick={trackId !== null ? renameActiveTrack : undefined}
+                className={`px-3 py-1 rounded-lg text-[10px] font-bold transition-colors ${
+                  libraryTrackId === trackId ? 'bg-indigo-600/20 text-indigo-400' : 'bg-transparent text-slate-500 hover:text-white'
+                }`}
+              >
+                {trackId === null ? PRIMARY_TRACK_NAME : tracks.find(t => t.id === trackId)?.name}
+              </button>
+            ))}
+            <button
+              onClick={addTrack}
+              className="flex items-center gap-1 px-2 py-1 text-[10px] font-bold text-slate-500 hover:text-white transition-colors bg-transparent"
+              title="添加译文轨道，与原文共用分段"
             >
-              <Plus className="w-4 h-4" />
+              <Languages className="w-3 h-3" />
+              添加轨道
             </button>
+            {libraryTrackId !== null && (
+              <div className="flex items-center gap-1 ml-auto">
+                <button
+                  onClick={alignActiveTrack}
+                  className="p-1.5 hover:bg-slate-800 rounded-md text-slate-500 hover:text-white transition-colors bg-transparent"
+                  title="按行号对齐：为已分配原文的分段分配同一行号的译文"
+                >
+                  <ListOrdered className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={renameActiveTrack}
+                  className="p-1.5 hover:bg-slate-800 rounded-md text-slate-500 hover:text-white transition-colors bg-transparent"
+                  title="重命名轨道"
+                >
+                  <Edit3 className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={deleteActiveTrack}
+                  className="p-1.5 hover:bg-red-900/20 rounded-md text-red-500 transition-colors bg-transparent"
+                  title="删除轨道"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            )}
           </div>
 
-          <div className="flex-1 overflow-y-auto p-4 space-y-4 min-h-0">
+          <div className="flex-1 flex flex-col p-4 pb-0 space-y-4 min-h-0">
             {/* 批量导入区域 */}
-            <div className="bg-slate-900/50 p-4 rounded-2xl border border-slate-800 mb-2">
-               <form onSubmit={handleBulkImport}>
-                 <textarea 
-                   name="rawText"
-                   placeholder="在此粘贴完整字幕文案... (每行将自动转为一个分段)"
-                   className="w-full h-32 bg-transparent text-sm text-slate-300 placeholder:text-slate-700 outline-none resize-none border-none"
-                 />
-                 <button className="w-full mt-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-[10px] font-bold uppercase tracking-widest rounded-xl transition-all border border-slate-700">
-                   批量处理文本
-                 </button>
-               </form>
-            </div>
+            <BulkImportPanel cast={cast} onImport={handleBulkImport} />
 
             {/* 文本块列表 */}
-            <div className="space-y-3 pb-8">
-              {textBlocks.length === 0 && (
-                <div className="text-center py-20 opacity-20 italic text-sm">字幕库为空</div>
-              )}
-              {textBlocks.map((block, index) => (
-                <div 
-                  key={block.id}
-                  draggable={editingBlockId !== block.id}
-                  onDragStart={(e) => handleTextBlockDragStart(e, block.id, index)}
-                  onDragOver={handleTextBlockDragOver}
-                  onDrop={(e) => handleTextBlockDrop(e, index)}
-                  className={`group relative p-4 rounded-2xl border transition-all ${
-                    editingBlockId === block.id 
-                    ? 'bg-slate-950 border-indigo-500/50 shadow-xl ring-1 ring-indigo-500/20' 
-                    : 'bg-slate-900/40 border-slate-800 hover:border-slate-700 cursor-grab active:cursor-grabbing'
-                  }`}
+            {libraryBlocks.length === 0 && (
+              <div className="text-center py-20 opacity-20 italic text-sm">字幕库为空</div>
+            )}
+            {selectedBlockCount > 0 && (
+              <div className="flex items-center gap-3 text-[10px] text-slate-500">
+                已选 {selectedBlockCount} 行
+                <button
+                  onClick={() => setSelectedBlockIds(new Set(libraryBlocks.map(b => b.id)))}
+                  className="hover:text-white transition-colors bg-transparent"
                 >
-                  {editingBlockId === block.id ? (
-                    <div className="flex flex-col gap-3">
-                      <textarea 
-                        autoFocus
-                        className="w-full bg-transparent text-sm text-white outline-none resize-none border-none"
-                        defaultValue={block.text}
-                        onKeyDown={(e) => {
-                          if (e.key === 'Enter' && !e.shiftKey) {
-                            e.preventDefault();
-                            updateTextBlock(block.id, e.currentTarget.value);
-                          }
-                          if (e.key === 'Escape') setEditingBlockId(null);
-                        }}
-                        onBlur={(e) => updateTextBlock(block.id, e.target.value)}
-                      />
-                      <div className="flex justify-end gap-2">
-                        <button onClick={() => setEditingBlockId(null)} className="p-1.5 hover:bg-slate-800 rounded-lg bg-transparent"><X className="w-3.5 h-3.5 text-slate-500" /></button>
-                        <button className="p-1.5 bg-indigo-600/20 text-indigo-400 rounded-lg bg-transparent"><Save className="w-3.5 h-3.5" /></button>
-                      </div>
-                    </div>
-                  ) : (
-                    <div className="flex flex-col gap-2">
-                      <div className="flex items-start justify-between gap-2">
-                        <div className="text-slate-600 mt-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                          <GripVertical className="w-3.5 h-3.5" />
-                        </div>
-                        <p className="text-sm text-slate-300 leading-relaxed flex-1">{block.text}</p>
-                        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity bg-slate-900/80 backdrop-blur p-1 rounded-lg shrink-0">
-                          <button onClick={() => setEditingBlockId(block.id)} className="p-1.5 hover:bg-slate-800 rounded-md text-slate-400 hover:text-white transition-colors bg-transparent">
-                            <Edit3 className="w-3.5 h-3.5" />
-                          </button>
-                          <button onClick={() => deleteTextBlock(block.id)} className="p-1.5 hover:bg-red-900/20 rounded-md text-red-500 transition-colors bg-transparent">
-                            <Trash2 className="w-3.5 h-3.5" />
-                          </button>
-                        </div>
-                      </div>
-                      <div className="flex items-center gap-2">
-                        {segments.some(s => s.textId === block.id) ? (
-                          <span className="text-[9px] font-bold bg-indigo-500/10 text-indigo-400 px-2 py-0.5 rounded-full uppercase">已分配</span>
-                        ) : (
-                          <span className="text-[9px] font-bold bg-slate-800 text-slate-600 px-2 py-0.5 rounded-full uppercase">空闲</span>
-                        )}
-                      </div>
-                    </div>
-                  )}
-                </div>
-              ))}
-            </div>
+                  全选
+                </button>
+                <button
+                  onClick={() => setSelectedBlockIds(new Set())}
+                  className="hover:text-white transition-colors bg-transparent"
+                >
+                  清除选择
+                </button>
+                <button
+                  onClick={() => setShowTextTools(true)}
+                  className="ml-auto hover:text-white transition-colors bg-transparent"
+                >
+                  合并 / 拆分…
+                </button>
+              </div>
+            )}
+            <VirtualList
+              className="flex-1 overflow-y-auto pb-8 min-h-0"
+              itemClassName="pb-3"
+              items={libraryBlocks}
+              getKey={block => block.id}
+              estimateSize={100}
+              controlRef={libraryListRef}
+              renderItem={(block, index) => (
+                <LibraryRow
+                  block={block}
+                  index={index}
+                  isEditing={editingBlockId === block.id}
+                  isSelected={selectedBlockIds.has(block.id)}
+                  isAssigned={libraryAssignedIds.has(block.id)}
+                  cast={cast}
+                  actions={libraryRowActions}
+                />
+              )}
+            />
           </div>
         </aside>
       </div>
@@ -708,20 +1972,62 @@ const App: React.FC = () => {
             <div className="space-y-6 text-slate-300">
               <section className="space-y-2">
                 <h3 className="font-bold text-white">1. 准备工作</h3>
-                <p className="text-sm">点击右上角的 <span className="text-indigo-400">导入视频</span> 上传视频文件；在右侧 <span className="text-indigo-400">剧本库</span> 粘贴或逐行输入文本。</p>
-                <p className="text-sm">如果您已有 .lrc 字幕文件，可以使用 <span className="text-indigo-400">导入 LRC</span> 功能快速加载。系统会自动根据时间戳创建分段并分配文本，方便再次修改字幕。</p>
+                <p className="text-sm">点击右上角的 <span className="text-indigo-400">导入视频</span> 上传视频文件；在右侧 <span className="text-indigo-400">剧本库</span> 粘贴或逐行输入文本。粘贴整段文案时会按 。！？.!? 自动分句（可选在逗号处断开、限制每行字数），确认预览后再添加。</p>
+                <p className="text-sm">如果您已有 .lrc 字幕文件（或 SRT / VTT / ASS 字幕），可以使用 <span className="text-indigo-400">导入字幕</span> 功能快速加载。系统会自动根据时间戳创建分段并分配文本，方便再次修改字幕。LRC 中每个时间点都会成为独立的分段，同一时间点的多行（如双语歌词）合并为一条多行字幕；导入完成后会显示报告，列出被合并、丢弃或截断的条目。</p>
+                <p className="text-sm">字幕来自剪辑不同的版本时，用时间轴上方的 <span className="text-indigo-400">时间调整</span> 修正：整体平移全部或勾选的分段，按倍率缩放（如 23.976 与 25 fps 互转），或选两个分段并填入它们正确的开始时间，按两点线性校准同时修正偏移与漂移。超出视频范围的部分会被截掉，全部可以撤销。</p>
+                <p className="text-sm">项目会自动保存在浏览器中。点击 <span className="text-indigo-400">项目</span> 可以重新打开之前的工作，打开后按提示重新选择同一个视频文件即可继续编辑。</p>
               </section>
               <section className="space-y-2">
                 <h3 className="font-bold text-white">2. 切分段落</h3>
-                <p className="text-sm">播放视频（快捷键 <kbd>Space</kbd>），当画面进行转场或需要切换字幕时，按下 <kbd>M</kbd> 键。视频会自动切分为两个分段。</p>
+                <p className="text-sm">播放视频（快捷键 <kbd>{shortcutHint('togglePlay')}</kbd>），当画面进行转场或需要切换字幕时，按下 <kbd>{shortcutHint('split')}</kbd> 键。视频会自动切分为两个分段。</p>
+                <p className="text-sm">长段旁白可以点击时间轴右上角的 <span className="text-indigo-400">自动切分</span>，按静音阈值、最短静音与最短分段长度检测停顿，预览满意后一次性切分（可撤销）。</p>
+                <p className="text-sm">切点位置不准时，可以直接在时间轴上拖动分段之间的边界，或在分段列表中输入精确的开始/结束时间。<kbd>{shortcutHint('nudgeBack')}</kbd> / <kbd>{shortcutHint('nudgeForward')}</kbd> 将距离播放头最近的边界前后微调 0.05 秒（<kbd>{shortcutHint('nudgeBackLarge')}</kbd> / <kbd>{shortcutHint('nudgeForwardLarge')}</kbd> 为 0.5 秒），相邻分段始终保持首尾相接。</p>
+                <p className="text-sm">精细对齐时可以使用播放控制：<kbd>{shortcutHint('stepBackward')}</kbd> / <kbd>{shortcutHint('stepForward')}</kbd> 前后步进 0.1 秒，<kbd>{shortcutHint('frameBackward')}</kbd> / <kbd>{shortcutHint('frameForward')}</kbd> 暂停并逐帧步进，<kbd>{shortcutHint('prevBoundary')}</kbd> / <kbd>{shortcutHint('nextBoundary')}</kbd> 跳到上一个 / 下一个分段边界，<kbd>{shortcutHint('slowerRate')}</kbd> / <kbd>{shortcutHint('fasterRate')}</kbd> 在 0.5x 到 2x 之间调整播放速率。按 <kbd>{shortcutHint('loopSegment')}</kbd> 循环播放当前分段，便于边听边修改文本；按 <kbd>{shortcutHint('loopRange')}</kbd> 依次标记起点 A 和终点 B 循环任意区间，再按一次取消循环。</p>
+                <p className="text-sm">长视频可以按住 <kbd>Ctrl</kbd> 滚动鼠标滚轮（或使用时间轴上方的放大镜按钮）以播放头为中心缩放时间轴，放大后横向滚动查看，播放时视图会自动跟随；下方的缩略图显示当前可见范围，点击或拖动即可快速定位。</p>
               </section>
               <section className="space-y-2">
                 <h3 className="font-bold text-white">3. 分配剧本</h3>
-                <p className="text-sm">除了使用下拉菜单，您还可以直接从右侧 <b>字幕库</b> 拖拽文本块到下方的 <b>分段列表</b> 中进行分配。如果切错了，可以点击段落之间的红色感应区进行 <span className="text-red-400">合并</span>。</p>
+                <p className="text-sm">歌词类视频可以开启时间轴上方的 <span className="text-indigo-400">打轴模式</span>：按字幕库顺序准备好文本后播放视频，每句开始时按 <kbd>{shortcutHint('syncAssign')}</kbd>，会在当前位置切分并自动分配下一行未使用的文本；间奏处按 <kbd>{shortcutHint('syncBlank')}</kbd> 标记空白分段，按 <kbd>{shortcutHint('syncUndo')}</kbd> 撤销上一次打轴。</p>
+                <p className="text-sm">批量导入文本并切分好段落后，点击 <span className="text-indigo-400">顺序分配</span> 可按字幕库顺序一次性填满未分配的分段，已分配的分段会作为锚点保留。中途插入或删除了某行时，在分段列表中悬停该分段，用 <span className="text-indigo-400">后移</span> / <span className="text-indigo-400">前移</span> 按钮让后续分配整体挪动一段。</p>
+                <p className="text-sm">点击分段中的文本框可以输入关键字或行号搜索要分配的文本，已分配给其他分段的行显示为灰色。除了手动选择，您还可以直接从右侧 <b>字幕库</b> 拖拽文本块到下方的 <b>分段列表</b> 中进行分配。如果切错了，可以点击段落之间的红色感应区进行 <span className="text-red-400">合并</span>，或按 <kbd>{shortcutHint('undo')}</kbd> 撤销（<kbd>{shortcutHint('redo')}</kbd> 重做），右上角的历史按钮可查看并跳转到任意一步。</p>
+                <p className="text-sm">对话类视频可以为每行文本指定角色：点击字幕库右上角的 <span className="text-indigo-400">角色表</span> 管理角色名称与颜色，在文本块下方选择角色。批量导入时勾选 <span className="text-indigo-400">识别角色</span>，“【旁白】台词”的前缀会自动移除并创建对应角色；“小明：台词”“Name: line”形式的前缀只在名字已在角色表中或在多行开头重复出现时识别。时间轴与分段列表按角色颜色标记；导出时可以选择不输出角色、在台词前加角色名，或写入 ASS 的说话人字段 / VTT 的 &lt;v&gt; 标签。</p>
+                <p className="text-sm">需要双语字幕时，点击字幕库上方的 <span className="text-indigo-400">添加轨道</span> 新建译文轨道（如 English），每个轨道有独立的字幕库，与原文共用同一组分段。分段列表中各轨道的文本框并排显示，可分别分配；译文与原文逐行对应时，点击轨道旁的 <span className="text-indigo-400">按行号对齐</span> 一次性分配。双击轨道名可重命名。</p>
+                <p className="text-sm">制作卡拉 OK 歌词时，在分段列表中悬停已分配文本的分段，点击 <span className="text-indigo-400">麦克风</span> 按钮编辑逐字时间：点击开始打点后视频从分段开头播放，每个字（英文按单词）开始时按一次 <kbd>Space</kbd> 或 <kbd>Enter</kbd>。没有打点的行按字数平均分配；导入带 &lt;mm:ss.xx&gt; 标签的增强型 LRC 时会保留原有的逐字时间，导出 LRC 时勾选 <span className="text-indigo-400">逐字时间 (A2)</span> 即可写出。</p>
               </section>
               <section className="space-y-2">
                 <h3 className="font-bold text-white">4. 整理与导出</h3>
-                <p className="text-sm">右侧字幕库支持拖拽调整顺序、随时修改内容。完成后点击右上角的 <span className="text-indigo-400">导出 .LRC</span> 即可下载带有精确时间轴的字幕文件。</p>
+                <p className="text-sm">播放时视频画面上会实时显示当前分段的字幕，可在播放控制栏中关闭预览或调整字号、位置和背景，并可同时显示下一行方便校对。</p>
+                <p className="text-sm">导出前可以打开时间轴上方的 <span className="text-indigo-400">检查</span> 面板：按每秒字数、单行字数（中文计 1 字，英文字母计半字）和分段时长找出读不完或过短过长的字幕，同时列出未分配的分段、未使用和重复的文本行，点击任意问题即可跳转。存在警告时导出前会再次提醒。</p>
+                <p className="text-sm">需要统一修改文本时，点击字幕库右上角的 <span className="text-indigo-400">查找替换</span> 按钮（快捷键 <kbd>{shortcutHint('textTools')}</kbd>）：支持普通文本与正则表达式、区分大小写与全词匹配，可限定在全部、勾选或已分配的行，替换前会预览每一处匹配。同一窗口的 <span className="text-indigo-400">批量处理</span> 可以去除首尾标点、全角半角互转、简繁互转，以及合并或按句拆分在字幕库中勾选的行。</p>
+                <p className="text-sm">右侧字幕库支持拖拽调整顺序、随时修改内容。完成后在右上角选择格式（.LRC / .SRT / .VTT / .ASS），点击 <span className="text-indigo-400">导出</span> 即可下载带有精确时间轴的字幕文件。SRT、VTT 与 ASS 会写出每个分段的结束时间，ASS 的字体、颜色与边距可通过格式旁的调色板按钮设置。有译文轨道时可选择导出单个轨道、每个轨道各导出一个文件，或合并为双语字幕：SRT / VTT / ASS 中译文位于第二行，LRC 中译文写成同一时间点的另一行。</p>
+              </section>
+              <section className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-bold text-white">5. 快捷键</h3>
+                  <button
+                    onClick={() => setShowKeyBindings(true)}
+                    className="flex items-center gap-2 px-3 py-1 text-xs text-slate-400 hover:text-white transition-colors bg-transparent"
+                  >
+                    <Keyboard className="w-3.5 h-3.5" />
+                    自定义
+                  </button>
+                </div>
+                <p className="text-sm">按 <kbd>{shortcutHint('commandPalette')}</kbd> 打开命令面板，输入名称即可执行任意操作。以下为当前生效的快捷键：</p>
+                <div className="grid grid-cols-2 gap-4">
+                  {(Object.keys(COMMAND_GROUP_LABELS) as CommandGroup[]).map(group => (
+                    <div key={group} className="space-y-1">
+                      <div className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{COMMAND_GROUP_LABELS[group]}</div>
+                      {COMMANDS.filter(command => command.group === group && keyBindings[command.id].length > 0).map(command => (
+                        <div key={command.id} className="flex items-center justify-between gap-2 text-xs">
+                          <span className="truncate">{command.label}</span>
+                          <span className="flex items-center gap-1 shrink-0">
+                            {keyBindings[command.id].map(shortcut => <kbd key={shortcut}>{formatShortcut(shortcut)}</kbd>)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
               </section>
             </div>
 
@@ -735,6 +2041,42 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {/* 命令面板 */}
+      {showCommandPalette && (
+        <CommandPalette
+          bindings={keyBindings}
+          isAvailable={isCommandAvailable}
+          onRun={(id) => commandHandlers[id]()}
+          onClose={() => setShowCommandPalette(false)}
+        />
+      )}
+
+      {/* 快捷键设置模态框 */}
+      {showKeyBindings && (
+        <KeyBindingsDialog bindings={keyBindings} onChange={setKeyBindings} onClose={() => setShowKeyBindings(false)} />
+      )}
+
+      {/* 编辑历史面板 */}
+      {showHistory && (
+        <HistoryPanel history={history} onTravel={travel} onClose={() => setShowHistory(false)} />
+      )}
+
+      {/* 项目列表模态框 */}
+      {showProjects && (
+        <ProjectListDialog
+          projects={projects}
+          currentProjectId={projectId}
+          onOpen={openProject}
+          onDelete={removeProject}
+          onClose={() => setShowProjects(false)}
+        />
+      )}
+
+      {/* ASS 样式模态框 */}
+      {showAssStyle && (
+        <AssStyleDialog style={assStyle} onChange={setAssStyle} onClose={() => setShowAssStyle(false)} />
+      )}
+
       {/* LRC 导入模态框 */}
       {importingLrc && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-black/80 backdrop-blur-sm">
@@ -742,7 +2084,7 @@ const App: React.FC = () => {
             <div className="flex items-center justify-between mb-6">
               <h2 className="text-2xl font-bold flex items-center gap-3">
                 <Upload className="text-indigo-500" />
-                导入 LRC 文件
+                导入字幕文件
               </h2>
               <button 
                 onClick={() => setImportingLrc(false)} 
@@ -756,8 +2098,10 @@ const App: React.FC = () => {
               <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700">
                 <h3 className="font-bold text-white mb-2">导入说明</h3>
                 <ul className="text-sm text-slate-300 space-y-2 ml-4 list-disc">
-                  <li>LRC 文件格式应为: <code>[mm:ss.xx]字幕文本</code> 或 <code>[mm:ss:xx]字幕文本</code></li>
-                  <li>视频时长必须 ≥ LRC 文件中最后的时间戳</li>
+                  <li>LRC 文件格式应为: <code>[mm:ss.xx]字幕文本</code>，也支持 <code>[mm:ss]</code>、<code>[mm:ss:xx]</code> 与毫秒 <code>[mm:ss.xxx]</code></li>
+                  <li><code>[ti:]</code>、<code>[ar:]</code>、<code>[al:]</code>、<code>[by:]</code> 等标签会被保留并在导出时写回，<code>[offset:]</code> 会直接应用到时间轴</li>
+                  <li>同样支持 SRT、WebVTT 与 ASS/SSA 字幕，格式根据文件内容自动识别，条目之间的空隙会生成空白分段</li>
+                  <li>视频时长必须 ≥ 字幕文件中最后的时间戳，或勾选下方的裁剪选项丢弃超出部分</li>
                   <li>导入后会清空当前所有分段和字幕</li>
                   <li>支持空文本段落</li>
                 </ul>
@@ -775,14 +2119,23 @@ const App: React.FC = () => {
                   )}
                 </div>
                 
+                <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                  <input type="checkbox" checked={clampImports} onChange={(e) => setClampImports(e.target.checked)} />
+                  裁剪超出视频时长的部分（不勾选时拒绝导入）
+                </label>
+                <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                  <input type="checkbox" checked={shareRepeatedLines} onChange={(e) => setShareRepeatedLines(e.target.checked)} />
+                  LRC 中重复的歌词行共用同一个文本块（修改一处即全部更新）
+                </label>
+
                 <label className="flex items-center gap-2 px-4 py-1.5 bg-slate-800 hover:bg-slate-700 rounded-lg cursor-pointer transition-all border border-slate-700 text-sm font-medium">
                   <Upload className="w-4 h-4" />
                   选择文件
-                  <input type="file" accept=".lrc,.txt" className="hidden" onChange={handleLrcImport} />
+                  <input type="file" accept=".lrc,.srt,.vtt,.ass,.ssa,.txt" className="hidden" onChange={handleSubtitleImport} />
                 </label>
                 
                 <div className="text-xs text-slate-500 text-center">
-                  支持 .lrc 或 .txt 格式文件
+                  支持 .lrc / .srt / .vtt / .ass / .ssa / .txt 格式文件
                 </div>
               </div>
             </div>
@@ -790,16 +2143,73 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {/* 逐字时间编辑 */}
+      {wordTimingSegment && (
+        <WordTimingEditor
+          key={wordTimingSegment.id}
+          segment={wordTimingSegment}
+          text={getSegmentText(wordTimingSegment, textBlocks)}
+          currentTime={currentTime}
+          getTime={getPlayheadTime}
+          onPlayFrom={playFrom}
+          onPause={pausePlayback}
+          onSave={saveWordTimings}
+          onClose={() => setWordTimingSegmentId(null)}
+        />
+      )}
+
+      {/* 角色表 */}
+      {showCast && (
+        <CastDialog
+          cast={cast}
+          lineCounts={speakerLineCounts}
+          onAdd={addSpeaker}
+          onUpdate={updateSpeaker}
+          onRemove={removeSpeaker}
+          onClose={() => setShowCast(false)}
+        />
+      )}
+
+      {showTextTools && (
+        <TextToolsDialog
+          trackName={getTrackName(tracks, libraryTrackId)}
+          blocks={libraryBlocks}
+          selectedIds={selectedBlockIds}
+          assignedIds={libraryAssignedIds}
+          onReplace={replaceText}
+          onTransform={transformText}
+          onMerge={mergeSelectedBlocks}
+          onSplit={splitSelectedBlocks}
+          onClose={() => setShowTextTools(false)}
+        />
+      )}
+
+      {/* 导入结果报告 */}
+      {importReport && (
+        <ImportReportDialog report={importReport} onSeek={seek} onClose={() => setImportReport(null)} />
+      )}
+
       {/* 底部信息栏 */}
       <footer className="h-10 border-t border-slate-900 flex items-center justify-between px-6 shrink-0 bg-slate-950">
         <div className="flex items-center gap-6 text-[10px] text-slate-600 font-medium uppercase tracking-widest">
-          <span>快捷键：[空格] 播放/暂停</span>
-          <span>[M] 在当前位置切割</span>
+          <span>快捷键：[{shortcutHint('togglePlay')}] 播放/暂停</span>
+          <span>[{shortcutHint('split')}] 在当前位置切割</span>
+          <span>[{shortcutHint('nudgeBack')} / {shortcutHint('nudgeForward')}] 微调最近边界</span>
+          <span>[{shortcutHint('loopSegment')}] 循环分段</span>
+          <span>[Ctrl+滚轮] 缩放时间轴</span>
+          <span>[{shortcutHint('undo')}] 撤销</span>
+          <span>[{shortcutHint('commandPalette')}] 命令面板</span>
           <span>[拖拽] 分配文本块</span>
         </div>
-        <div className="text-[10px] text-slate-700">
-          状态：等待操作
-        </div>
+        {saveError ? (
+          <div className="text-[10px] text-red-400" title={saveError}>
+            状态：自动保存失败（{saveError}）
+          </div>
+        ) : (
+          <div className="text-[10px] text-slate-700">
+            状态：{lastSavedAt ? `已自动保存 ${new Date(lastSavedAt).toLocaleTimeString()}` : '等待操作'}
+          </div>
+        )}
       </footer>
     </div>
   );